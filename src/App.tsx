@@ -18,6 +18,7 @@ import Leaderboard from './components/Leaderboard'
 import { Login } from './components/Login'
 import MCBench from './components/MCBench'
 import { ProtectedRoute } from './components/ProtectedRoute.tsx'
+import RankingArena from './components/RankingArena'
 import Scheduler from './components/Scheduler'
 import SearchUsers from './components/SearchUsers.tsx'
 import Tasks from './components/Tasks'
@@ -26,17 +27,21 @@ import CreateGeneration from './components/generations/CreateGeneration.tsx'
 import ListGenerations from './components/generations/ListGenerations.tsx'
 import ViewGeneration from './components/generations/ViewGeneration.tsx'
 import ModelDetail from './components/leaderboard/ModelDetail'
+import ModelMatchup from './components/leaderboard/ModelMatchup'
 import ModelSamplesList from './components/leaderboard/ModelSamplesList'
 import CreateModel from './components/models/CreateModel.tsx'
 import EditModel from './components/models/EditModal.tsx'
 import ModelList from './components/models/ModelList.tsx'
 import ViewModel from './components/models/ViewModel.tsx'
 import CreatePrompt from './components/prompts/CreatePrompt.tsx'
+import ImportPrompts from './components/prompts/ImportPrompts.tsx'
 import PromptList from './components/prompts/PromptList.tsx'
 import ViewPrompt from './components/prompts/ViewPrompt.tsx'
 import RunList from './components/runs/RunList.tsx'
 import ViewRun from './components/runs/ViewRun.tsx'
+import CompareSamples from './components/samples/CompareSamples'
 import ListSamples from './components/samples/ListSamples'
+import ReviewQueue from './components/samples/ReviewQueue'
 import ShareSample from './components/samples/ShareSample'
 import ViewSample from './components/samples/ViewSample'
 import CreateTemplate from './components/templates/CreateTemplate.tsx'
@@ -609,9 +614,11 @@ function App() {
             <Routes>
               <Route path="/about" element={<About />} />
               <Route path="/" element={<MCBench />} />
+              <Route path="/rank" element={<RankingArena />} />
               <Route path="/login" element={<Login />} />
               <Route path="/leaderboard" element={<Leaderboard />} />
               <Route path="/leaderboard/model" element={<ModelDetail />} />
+              <Route path="/leaderboard/matchup" element={<ModelMatchup />} />
               <Route
                 path="/leaderboard/model/samples"
                 element={<ModelSamplesList />}
@@ -680,6 +687,14 @@ function App() {
                 }
               />
 
+              <Route
+                path="/prompts/import"
+                element={
+                  <ProtectedRoute>
+                    <ImportPrompts />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/prompts/:id"
                 element={
@@ -776,6 +791,22 @@ function App() {
                   </ProtectedRoute>
                 }
               />
+              <Route
+                path="/samples/compare"
+                element={
+                  <ProtectedRoute>
+                    <CompareSamples />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/samples/review"
+                element={
+                  <ProtectedRoute>
+                    <ReviewQueue />
+                  </ProtectedRoute>
+                }
+              />
               <Route
                 path="/samples/:id"
                 element={
@@ -0,0 +1,59 @@
+import { Model } from '../types/models'
+import { Prompt } from '../types/prompts'
+import { Template } from '../types/templates'
+import {
+  BundleModel,
+  BundlePrompt,
+  BundleTemplate,
+} from '../utils/configBundle'
+import { adminAPI } from './client'
+
+// Everything a bundle could conflict with
+export async function getExistingConfig(): Promise<{
+  prompts: Prompt[]
+  templates: Template[]
+  models: Model[]
+}> {
+  const [promptsRes, templatesRes, modelsRes] = await Promise.all([
+    adminAPI.get('/prompt'),
+    adminAPI.get('/template'),
+    adminAPI.get('/model'),
+  ])
+  return {
+    prompts: promptsRes.data.data,
+    templates: templatesRes.data.data,
+    models: modelsRes.data.data,
+  }
+}
+
+// Experimental state isn't sent: it only changes through proposals, so
+// imported items start out experimental
+export async function importBundlePrompt(prompt: BundlePrompt): Promise<void> {
+  await adminAPI.post('/prompt', {
+    name: prompt.name,
+    buildSpecification: prompt.buildSpecification,
+    tags: prompt.tags,
+    buildSize: prompt.buildSize ?? undefined,
+    active: prompt.active,
+  })
+}
+
+export async function importBundleTemplate(
+  template: BundleTemplate
+): Promise<void> {
+  await adminAPI.post('/template', {
+    name: template.name,
+    description: template.description,
+    content: template.content,
+    tags: template.tags,
+    active: template.active,
+  })
+}
+
+export async function importBundleModel(model: BundleModel): Promise<void> {
+  await adminAPI.post('/model', {
+    slug: model.slug,
+    name: model.name,
+    providers: model.providers,
+  })
+}
@@ -2,10 +2,12 @@ import type {
   ComparisonBatchRequest,
   ComparisonBatchResponse,
   ComparisonResultResponse,
+  LeaderboardHistoryResponse,
   LeaderboardResponse,
   MetricOption,
   ModelSamplesResponse,
   ModelStatisticsResponse,
+  PromptLeaderboardEntry,
   PromptLeaderboardResponse,
   SampleResponse,
   TagOption,
@@ -20,7 +22,8 @@ export const getLeaderboard = async (
   testSetName: string,
   tagName?: string,
   limit: number = 20,
-  minVotes: number = 1
+  minVotes: number = 1,
+  asOf?: string
 ): Promise<LeaderboardResponse> => {
   try {
     const params = new URLSearchParams()
@@ -29,6 +32,8 @@ export const getLeaderboard = async (
     if (tagName) params.append('tagName', tagName)
     if (limit) params.append('limit', limit.toString())
     if (minVotes) params.append('minVotes', minVotes.toString())
+    // Pin the standings to the end of a past day for reproducible reports
+    if (asOf) params.append('asOf', asOf)
 
     const response = await api.get<LeaderboardResponse>(
       `/leaderboard?${params.toString()}`
@@ -44,11 +49,43 @@ export const getLeaderboard = async (
   }
 }
 
+export const getLeaderboardHistory = async (
+  metricName: string,
+  testSetName: string,
+  tagName?: string,
+  startDate?: string,
+  endDate?: string,
+  modelSlugs?: string[]
+): Promise<LeaderboardHistoryResponse> => {
+  try {
+    const params = new URLSearchParams()
+    params.append('metricName', metricName)
+    params.append('testSetName', testSetName)
+    if (tagName) params.append('tagName', tagName)
+    if (startDate) params.append('startDate', startDate)
+    if (endDate) params.append('endDate', endDate)
+    modelSlugs?.forEach((slug) => params.append('modelSlug', slug))
+
+    const response = await api.get<LeaderboardHistoryResponse>(
+      `/leaderboard/history?${params.toString()}`
+    )
+
+    return response.data
+  } catch (error) {
+    console.error(
+      `Error fetching leaderboard history for ${metricName}/${testSetName}:`,
+      error
+    )
+    throw error
+  }
+}
+
 export const getModelStatistics = async (
   metricName: string,
   testSetName: string,
   modelSlug: string,
-  tagName?: string
+  tagName?: string,
+  asOf?: string
 ): Promise<ModelStatisticsResponse> => {
   try {
     const params = new URLSearchParams()
@@ -56,6 +93,7 @@ export const getModelStatistics = async (
     params.append('testSetName', testSetName)
     params.append('modelSlug', modelSlug)
     if (tagName) params.append('tagName', tagName)
+    if (asOf) params.append('asOf', asOf)
 
     const response = await api.get<ModelStatisticsResponse>(
       `/leaderboard/model/stats?${params.toString()}`
@@ -75,7 +113,8 @@ export const getPromptLeaderboard = async (
   page: number = 1,
   pageSize: number = 20,
   minVotes: number = 1,
-  tagName?: string
+  tagName?: string,
+  asOf?: string
 ): Promise<PromptLeaderboardResponse> => {
   try {
     const params = new URLSearchParams()
@@ -86,6 +125,7 @@ export const getPromptLeaderboard = async (
     params.append('pageSize', pageSize.toString())
     params.append('minVotes', minVotes.toString())
     if (tagName) params.append('tagName', tagName)
+    if (asOf) params.append('asOf', asOf)
 
     const response = await api.get<PromptLeaderboardResponse>(
       `/leaderboard/model/prompts?${params.toString()}`
@@ -98,6 +138,38 @@ export const getPromptLeaderboard = async (
   }
 }
 
+// Walk every page of a model's prompt leaderboard
+export const getAllPromptLeaderboardEntries = async (
+  metricName: string,
+  testSetName: string,
+  modelSlug: string,
+  minVotes: number = 1,
+  tagName?: string,
+  asOf?: string
+): Promise<PromptLeaderboardEntry[]> => {
+  const entries: PromptLeaderboardEntry[] = []
+  let page = 1
+  let hasNext = true
+
+  while (hasNext) {
+    const data = await getPromptLeaderboard(
+      metricName,
+      testSetName,
+      modelSlug,
+      page,
+      100,
+      minVotes,
+      tagName,
+      asOf
+    )
+    entries.push(...data.entries)
+    hasNext = data.paging.hasNext
+    page++
+  }
+
+  return entries
+}
+
 // Metadata API endpoints
 export const getMetrics = async (): Promise<MetricOption[]> => {
   try {
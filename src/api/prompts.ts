@@ -0,0 +1,8 @@
+import { Prompt } from '../types/prompts'
+import { adminAPI } from './client'
+
+// Every prompt in the same clone tree as this one, including itself
+export async function getPromptLineage(promptId: string): Promise<Prompt[]> {
+  const response = await adminAPI.get(`/prompt/${promptId}/lineage`)
+  return response.data.data
+}
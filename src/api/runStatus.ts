@@ -0,0 +1,255 @@
+import settings from '../config/settings'
+import { RunStage, RunStatusEvent, RunStatusResponse } from '../types/runs'
+import { adminAPI } from './client'
+
+// Constants
+const STREAM_PATH = '/run/status/stream'
+const POLL_INTERVAL_MS = 5 * 1000
+const STREAM_RETRY_DELAY_MS = 30 * 1000
+// Responses meaning the server has no status stream at all
+const STREAM_UNSUPPORTED_STATUSES = [404, 405, 501]
+
+type RunStatusListener = (status: RunStatusResponse) => void
+
+interface RunStatusSubscription {
+  listeners: Set<RunStatusListener>
+  latest: RunStatusResponse | null
+}
+
+// One entry per run, however many components are watching it
+const subscriptions = new Map<string, RunStatusSubscription>()
+
+let streamController: AbortController | null = null
+let streamRunIds = ''
+let streamUnsupported = false
+let streamRetryTimer: number | null = null
+let pollTimer: number | null = null
+let syncScheduled = false
+
+export const isRunStatusFinal = (status: string) =>
+  status === 'COMPLETED' || status.includes('FAILED')
+
+// Overlay a live status onto a run from a list response
+export const withRunStatus = <
+  T extends {
+    status: string
+    latestCompletedStage?: string
+    earliestInProgressStage?: string
+  },
+>(
+  run: T,
+  live?: RunStatusResponse | null
+): T => {
+  if (!live) return run
+
+  const stages: RunStage[] = live.stages ?? []
+  const completed = stages.filter((stage) => stage.state === 'COMPLETED')
+  const inProgress = stages.find((stage) => stage.state === 'IN_PROGRESS')
+
+  return {
+    ...run,
+    status: live.status,
+    latestCompletedStage:
+      completed.length > 0
+        ? completed[completed.length - 1].stage
+        : run.latestCompletedStage,
+    earliestInProgressStage: inProgress
+      ? inProgress.stage
+      : run.earliestInProgressStage,
+  }
+}
+
+// Fetch the current stage status of a run
+export async function getRunStatus(runId: string): Promise<RunStatusResponse> {
+  const response = await adminAPI.get(`run/${runId}/status`)
+  return response.data
+}
+
+const publish = (runId: string, status: RunStatusResponse) => {
+  const subscription = subscriptions.get(runId)
+  if (!subscription) return
+
+  subscription.latest = status
+  subscription.listeners.forEach((listener) => listener(status))
+  scheduleSync()
+}
+
+// Runs still waiting on updates, in a stable order so the stream key is too
+const getActiveRunIds = () =>
+  Array.from(subscriptions.entries())
+    .filter(([, { latest }]) => !latest || !isRunStatusFinal(latest.status))
+    .map(([runId]) => runId)
+    .sort()
+
+const fetchAndPublish = async (runId: string) => {
+  try {
+    publish(runId, await getRunStatus(runId))
+  } catch (err) {
+    console.error('Failed to fetch status:', err)
+  }
+}
+
+const startPolling = () => {
+  if (pollTimer !== null) return
+  pollTimer = window.setInterval(() => {
+    getActiveRunIds().forEach(fetchAndPublish)
+  }, POLL_INTERVAL_MS)
+}
+
+const stopPolling = () => {
+  if (pollTimer === null) return
+  window.clearInterval(pollTimer)
+  pollTimer = null
+}
+
+const closeStream = () => {
+  streamController?.abort()
+  streamController = null
+  streamRunIds = ''
+}
+
+const handleStreamData = (data: string) => {
+  try {
+    const { runId, ...status } = JSON.parse(data) as RunStatusEvent
+    publish(runId, status)
+  } catch (err) {
+    console.error('Invalid run status event:', err)
+  }
+}
+
+// Minimal server-sent events reader; fetch is used rather than EventSource so
+// the auth header can be sent
+const readEvents = async (body: ReadableStream<Uint8Array>) => {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return
+
+    buffer += decoder.decode(value, { stream: true })
+    const events = buffer.split(/\r?\n\r?\n/)
+    buffer = events.pop() ?? ''
+
+    events.forEach((event) => {
+      const data = event
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n')
+      if (data) handleStreamData(data)
+    })
+  }
+}
+
+const openStream = async (runIds: string[]) => {
+  const controller = new AbortController()
+  streamController = controller
+  streamRunIds = runIds.join(',')
+
+  const params = new URLSearchParams()
+  runIds.forEach((runId) => params.append('run_id', runId))
+  const token = localStorage.getItem('token')
+
+  try {
+    const response = await fetch(
+      `${settings.adminApiUrl}/api${STREAM_PATH}?${params.toString()}`,
+      {
+        headers: {
+          Accept: 'text/event-stream',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        signal: controller.signal,
+      }
+    )
+    if (STREAM_UNSUPPORTED_STATUSES.includes(response.status)) {
+      streamUnsupported = true
+    } else if (!response.ok || !response.body) {
+      throw new Error(`Run status stream failed with ${response.status}`)
+    } else {
+      stopPolling()
+      await readEvents(response.body)
+    }
+  } catch (err) {
+    if (controller.signal.aborted) return
+    console.error('Run status stream disconnected:', err)
+  }
+
+  if (streamController !== controller) return
+  streamController = null
+  streamRunIds = ''
+
+  // Poll until it's worth trying the stream again
+  if (!streamUnsupported) {
+    streamRetryTimer = window.setTimeout(() => {
+      streamRetryTimer = null
+      scheduleSync()
+    }, STREAM_RETRY_DELAY_MS)
+  }
+  scheduleSync()
+}
+
+// Match the stream or poller to the runs that are currently being watched
+const syncTransport = () => {
+  syncScheduled = false
+
+  const runIds = getActiveRunIds()
+  const canStream = !streamUnsupported && streamRetryTimer === null
+
+  if (runIds.length === 0 || !canStream || runIds.join(',') !== streamRunIds) {
+    closeStream()
+  }
+  if (runIds.length === 0) {
+    stopPolling()
+    return
+  }
+
+  if (canStream) {
+    if (!streamController) openStream(runIds)
+  } else {
+    startPolling()
+  }
+}
+
+// Batch subscription changes from a single render into one reconnect
+function scheduleSync() {
+  if (syncScheduled) return
+  syncScheduled = true
+  queueMicrotask(syncTransport)
+}
+
+// Watch a run's stage status; returns the unsubscribe function
+export const subscribeToRunStatus = (
+  runId: string,
+  listener: RunStatusListener
+) => {
+  let subscription = subscriptions.get(runId)
+  if (!subscription) {
+    subscription = { listeners: new Set(), latest: null }
+    subscriptions.set(runId, subscription)
+    fetchAndPublish(runId)
+  }
+
+  subscription.listeners.add(listener)
+  if (subscription.latest) listener(subscription.latest)
+  scheduleSync()
+
+  const current = subscription
+  return () => {
+    current.listeners.delete(listener)
+    if (current.listeners.size === 0 && subscriptions.get(runId) === current) {
+      subscriptions.delete(runId)
+    }
+    scheduleSync()
+  }
+}
+
+// Fetch a run's status now, e.g. after a retry restarts a finished run
+export async function refreshRunStatus(
+  runId: string
+): Promise<RunStatusResponse> {
+  const status = await getRunStatus(runId)
+  publish(runId, status)
+  return status
+}
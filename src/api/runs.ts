@@ -0,0 +1,37 @@
+import { RunResponse } from '../types/generations'
+import { adminAPI } from './client'
+
+const RUN_PAGE_SIZE = 100
+
+// Retry the given stages of a run, along with every stage after them
+export async function retryRunTasks(
+  runId: string,
+  tasks: string[]
+): Promise<void> {
+  await adminAPI.post(`/run/${runId}/task-retry`, {
+    tasks: tasks.map((task) => task.toUpperCase()),
+  })
+}
+
+// Page through every run matching the given filters, up to maxPages
+export async function listAllRuns(
+  filters: URLSearchParams,
+  maxPages: number
+): Promise<{ runs: RunResponse[]; hasMore: boolean }> {
+  const runs: RunResponse[] = []
+  let hasMore = true
+  let page = 1
+
+  while (hasMore && page <= maxPages) {
+    const params = new URLSearchParams(filters)
+    params.set('page', page.toString())
+    params.set('page_size', RUN_PAGE_SIZE.toString())
+
+    const { data } = await adminAPI.get(`/run?${params.toString()}`)
+    runs.push(...data.data)
+    hasMore = data.paging.hasNext
+    page++
+  }
+
+  return { runs, hasMore }
+}
@@ -0,0 +1,65 @@
+import { SampleDetailResponse } from '../types/sample'
+import { adminAPI } from './client'
+
+export type SampleActionType = 'APPROVE' | 'REJECT' | 'OBSERVE'
+
+// Notes recorded when the reviewer doesn't write one
+export const DEFAULT_SAMPLE_ACTION_NOTES: Record<SampleActionType, string> = {
+  APPROVE: 'Sample Approved',
+  REJECT: 'Rejected from voting',
+  OBSERVE: '',
+}
+
+const SAMPLE_ACTION_PATHS: Record<SampleActionType, string> = {
+  APPROVE: 'approve',
+  REJECT: 'reject',
+  OBSERVE: 'observe',
+}
+
+// Fetch a single sample with its artifacts and review log
+export async function getSample(id: string): Promise<SampleDetailResponse> {
+  const response = await adminAPI.get(`/sample/${id}`)
+  return response.data
+}
+
+// Approve, reject or add an observation to a sample
+export async function submitSampleAction(
+  sampleId: string,
+  type: SampleActionType,
+  note?: string,
+  testSetId?: string
+): Promise<void> {
+  const payload: { note?: string; testSetId?: string } = {
+    note: note || DEFAULT_SAMPLE_ACTION_NOTES[type],
+  }
+  if (type === 'APPROVE' && testSetId) {
+    payload.testSetId = testSetId
+  }
+
+  await adminAPI.post(
+    `/sample/${sampleId}/${SAMPLE_ACTION_PATHS[type]}`,
+    payload
+  )
+}
+
+// States a sample can be proposed to move into
+export async function getSampleExperimentalStates(): Promise<
+  { id: string; name: string }[]
+> {
+  const { data } = await adminAPI.get('/sample/metadata/experimental-state')
+  return data.data
+}
+
+// Propose a state change; it takes effect once the proposal is approved
+export async function proposeSampleExperimentalState(
+  sampleId: string,
+  currentState: string,
+  proposedState: string,
+  note?: string
+): Promise<void> {
+  await adminAPI.post(`/sample/${sampleId}/experimental-state/proposal`, {
+    current_state: currentState,
+    proposed_state: proposedState,
+    note: note || 'Proposed state change',
+  })
+}
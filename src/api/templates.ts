@@ -0,0 +1,23 @@
+import { TemplateVersion } from '../types/templates'
+import { adminAPI } from './client'
+
+// Every saved version of a template, newest first
+export async function getTemplateVersions(
+  templateId: string
+): Promise<TemplateVersion[]> {
+  const response = await adminAPI.get(`/template/${templateId}/version`)
+  return [...response.data.data].sort(
+    (a: TemplateVersion, b: TemplateVersion) => b.version - a.version
+  )
+}
+
+// Fetch a single version, e.g. to fork a new template from it
+export async function getTemplateVersion(
+  templateId: string,
+  versionId: string
+): Promise<TemplateVersion> {
+  const response = await adminAPI.get(
+    `/template/${templateId}/version/${versionId}`
+  )
+  return response.data
+}
@@ -1,22 +1,80 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 
-import { RefreshCw, Trophy } from 'lucide-react'
+import { RefreshCw, Swords, Trophy } from 'lucide-react'
 
 import {
   getLeaderboard,
+  getLeaderboardHistory,
   getMetrics,
   getTags,
   getTestSets,
 } from '../api/leaderboard'
 import {
+  EloConfidenceInterval,
   LeaderboardEntry,
+  LeaderboardHistorySeries,
   LeaderboardResponse,
   MetricOption,
   TagOption,
   TestSetOption,
 } from '../types/leaderboard'
-import { TagSelector } from './leaderboard/selectors'
+import { DateRange, formatDateParam, getDefaultDateRange } from '../utils/dates'
+import {
+  RankRange,
+  formatRankRange,
+  getEloConfidenceInterval,
+  getRankRanges,
+} from '../utils/elo'
+import { ExportFormat, ExportMeta, exportRows } from '../utils/export'
+import {
+  DEFAULT_METRIC_NAME,
+  DEFAULT_MIN_VOTES,
+  DEFAULT_TEST_SET_NAME,
+  LEADERBOARD_LIMIT,
+  SortDirection,
+  parseMinVotes,
+  parseSortDirection,
+  parseSortField,
+  withParams,
+} from '../utils/leaderboardParams'
+import DateRangePicker from './leaderboard/DateRangePicker'
+import EloHistoryChart from './leaderboard/EloHistoryChart'
+import EloIntervalChart from './leaderboard/EloIntervalChart'
+import {
+  MetricSelector,
+  TagSelector,
+  TestSetSelector,
+} from './leaderboard/selectors'
+import ExportMenu from './ui/ExportMenu'
+
+// Number of top models plotted on the history chart
+const HISTORY_MODEL_COUNT = 8
+
+const SORT_FIELDS = ['rank', 'model', 'winRate', 'voteCount'] as const
+type SortField = (typeof SORT_FIELDS)[number]
+
+// Text sorts A-Z first, numbers highest first; rank is already best-first
+const DEFAULT_SORT_DIRECTIONS: Record<SortField, SortDirection> = {
+  rank: 'asc',
+  model: 'asc',
+  winRate: 'desc',
+  voteCount: 'desc',
+}
+
+interface LeaderboardRow {
+  entry: LeaderboardEntry
+  rank: number
+  interval: EloConfidenceInterval | null
+  rankRange: RankRange | null
+}
+
+// Calculate win rate from leaderboard entry
+const calculateWinRate = (entry: LeaderboardEntry): number => {
+  if (!entry || !entry.voteCount || entry.voteCount === 0) return 0
+  if (entry.winCount === undefined) return 0
+  return entry.winCount / entry.voteCount
+}
 
 const Leaderboard = () => {
   const navigate = useNavigate()
@@ -29,15 +87,45 @@ const Leaderboard = () => {
     null
   )
 
-  // State for filters and options
+  // State for filter options
+  const [metrics, setMetrics] = useState<MetricOption[]>([])
+  const [testSets, setTestSets] = useState<TestSetOption[]>([])
   const [tags, setTags] = useState<TagOption[]>([])
-  const [selectedTag, setSelectedTag] = useState<string | null>(null)
-  // Store tagName from URL for resolving after tags load
-  const tagNameFromURL = searchParams.get('tagName')
 
-  // Store metric and test set names
-  const [metricName, setMetricName] = useState<string | null>(null)
-  const [testSetName, setTestSetName] = useState<string | null>(null)
+  // Used when the URL doesn't name a metric or test set
+  const [defaultMetricName, setDefaultMetricName] = useState<string | null>(
+    null
+  )
+  const [defaultTestSetName, setDefaultTestSetName] = useState<string | null>(
+    null
+  )
+
+  // Filter and sort state is read straight from the URL
+  const metricName = searchParams.get('metricName') || defaultMetricName
+  const testSetName = searchParams.get('testSetName') || defaultTestSetName
+  const tagName = searchParams.get('tagName')
+  const selectedTag = tags.find((t) => t.name === tagName)?.id || null
+  const minVotes = parseMinVotes(searchParams.get('minVotes'))
+  const sortField = parseSortField(
+    searchParams.get('sort'),
+    SORT_FIELDS,
+    'rank'
+  )
+  const sortDirection = parseSortDirection(
+    searchParams.get('order'),
+    DEFAULT_SORT_DIRECTIONS[sortField]
+  )
+
+  // Pinned snapshot date; kept in the URL so reports can link to it
+  const asOf = searchParams.get('asOf')
+
+  // State for the history chart
+  const [historyRange, setHistoryRange] = useState<DateRange>(() =>
+    getDefaultDateRange()
+  )
+  const [history, setHistory] = useState<LeaderboardHistorySeries[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [historyError, setHistoryError] = useState<string | null>(null)
 
   // Load metadata (metrics, test sets, tags) on component mount
   useEffect(() => {
@@ -49,53 +137,31 @@ const Leaderboard = () => {
           getTags(),
         ])
 
+        setMetrics(metricsData)
+        setTestSets(testSetsData)
         setTags(tagsData)
 
-        // Handle tag name in URL if present
-        if (tagNameFromURL) {
-          const tagByName = tagsData.find(
-            (t: TagOption) => t.name === tagNameFromURL
-          )
-          if (tagByName) {
-            setSelectedTag(tagByName.id)
-          }
-        }
-
-        // Find metric name to use, either from URL or default
-        const metricNameParam = searchParams.get('metricName')
-        const defaultMetric = metricNameParam
-          ? metricsData.find((m: MetricOption) => m.name === metricNameParam)
-          : metricsData.find(
-              (m: MetricOption) =>
-                m.name === 'UNQUALIFIED_BETTER' ||
-                m.name === 'Which build is better'
-            )
-
-        // Find test set name to use
-        const testSetNameParam = searchParams.get('testSetName')
-        const defaultTestSet = testSetNameParam
-          ? testSetsData.find(
-              (ts: TestSetOption) => ts.name === testSetNameParam
-            )
-          : testSetsData.find(
-              (ts: TestSetOption) => ts.name === 'Authenticated Test Set'
-            )
+        const defaultMetric = metricsData.find(
+          (m: MetricOption) =>
+            m.name === DEFAULT_METRIC_NAME || m.name === 'Which build is better'
+        )
+        const defaultTestSet = testSetsData.find(
+          (ts: TestSetOption) => ts.name === DEFAULT_TEST_SET_NAME
+        )
 
         if (defaultMetric) {
-          setMetricName(defaultMetric.name)
-          console.log(`Using metric: ${defaultMetric.name}`)
+          setDefaultMetricName(defaultMetric.name)
         } else if (metricsData.length > 0) {
-          setMetricName(metricsData[0].name)
+          setDefaultMetricName(metricsData[0].name)
           console.log(
             `Default metric not found, using first metric: ${metricsData[0].name}`
           )
         }
 
         if (defaultTestSet) {
-          setTestSetName(defaultTestSet.name)
-          console.log(`Using test set: ${defaultTestSet.name}`)
+          setDefaultTestSetName(defaultTestSet.name)
         } else if (testSetsData.length > 0) {
-          setTestSetName(testSetsData[0].name)
+          setDefaultTestSetName(testSetsData[0].name)
           console.warn(
             `Warning: Default test set not found, falling back to first test set: ${testSetsData[0].name}`
           )
@@ -120,21 +186,13 @@ const Leaderboard = () => {
       setError(null)
 
       try {
-        // Get tag name for the selected tag
-        let tagName = undefined
-        if (selectedTag) {
-          const selectedTagObj = tags.find((t) => t.id === selectedTag)
-          if (selectedTagObj) {
-            tagName = selectedTagObj.name
-          }
-        }
-
         const data = await getLeaderboard(
           metricName,
           testSetName,
-          tagName,
-          40,
-          1 // Show all models with at least 1 vote
+          tagName || undefined,
+          LEADERBOARD_LIMIT,
+          minVotes,
+          asOf || undefined
         )
         setLeaderboard(data)
       } catch (err) {
@@ -146,67 +204,181 @@ const Leaderboard = () => {
     }
 
     loadLeaderboard()
-  }, [metricName, testSetName, selectedTag, tags])
+  }, [metricName, testSetName, tagName, minVotes, asOf])
 
-  const handleModelClick = (modelId: string, modelSlug?: string) => {
-    if (!metricName || !testSetName) return
+  // Load ELO history for the top models once the leaderboard is in
+  useEffect(() => {
+    if (!metricName || !testSetName || !leaderboard?.entries?.length) {
+      setHistory([])
+      return
+    }
 
-    // Build URL with search params
-    const params = new URLSearchParams()
+    const loadHistory = async () => {
+      setHistoryLoading(true)
+      setHistoryError(null)
 
-    // Use slug in URL, falling back to ID if needed
-    const modelIdentifier = modelSlug || modelId
+      try {
+        const modelSlugs = leaderboard.entries
+          .slice(0, HISTORY_MODEL_COUNT)
+          .map((entry) => entry.model.slug)
 
-    // Set all parameters as query params
-    params.set('metricName', metricName)
-    params.set('testSetName', testSetName)
-    params.set('modelSlug', modelIdentifier)
+        const data = await getLeaderboardHistory(
+          metricName,
+          testSetName,
+          tagName || undefined,
+          historyRange.startDate,
+          historyRange.endDate,
+          modelSlugs
+        )
+        setHistory(data.series || [])
+      } catch (err) {
+        console.error('Error loading leaderboard history:', err)
+        setHistoryError('Failed to load leaderboard history.')
+      } finally {
+        setHistoryLoading(false)
+      }
+    }
 
-    // Handle tag name parameter if a tag is selected
-    if (selectedTag) {
-      const selectedTagObj = tags.find((t) => t.id === selectedTag)
-      if (selectedTagObj) {
-        params.set('tagName', selectedTagObj.name)
+    loadHistory()
+  }, [metricName, testSetName, tagName, leaderboard, historyRange])
+
+  // Each entry with its rank, confidence interval and the rank range it
+  // implies, in the order the table is sorted
+  const rows = useMemo(() => {
+    const entries = leaderboard?.entries || []
+    const intervals = entries.map(getEloConfidenceInterval)
+    const rankRanges = getRankRanges(intervals)
+    const unsorted = entries.map((entry, index) => ({
+      entry,
+      rank: index + 1,
+      interval: intervals[index],
+      rankRange: rankRanges[index],
+    }))
+
+    const direction = sortDirection === 'asc' ? 1 : -1
+    return unsorted.sort((a, b) => {
+      switch (sortField) {
+        case 'model':
+          return (
+            direction * a.entry.model.name.localeCompare(b.entry.model.name)
+          )
+        case 'winRate':
+          return (
+            direction * (calculateWinRate(a.entry) - calculateWinRate(b.entry))
+          )
+        case 'voteCount':
+          return direction * (a.entry.voteCount - b.entry.voteCount)
+        default:
+          return direction * (a.rank - b.rank)
       }
+    })
+  }, [leaderboard, sortField, sortDirection])
+
+  const formatInterval = (row: LeaderboardRow) => {
+    if (!row.interval) return 'N/A'
+    return `${Math.round(row.interval.lower)}–${Math.round(row.interval.upper)}`
+  }
+
+  const handleExport = (format: ExportFormat) => {
+    if (!leaderboard || !metricName || !testSetName) return
+
+    const meta: ExportMeta = {
+      metricName,
+      testSetName,
+      tagName,
+      minVotes,
+      asOf,
     }
 
+    exportRows(
+      'leaderboard',
+      rows,
+      [
+        { header: 'rank', value: (row) => row.rank },
+        { header: 'model', value: (row) => row.entry.model.name },
+        { header: 'modelSlug', value: (row) => row.entry.model.slug },
+        { header: 'eloScore', value: (row) => row.entry.eloScore },
+        { header: 'eloLower95', value: (row) => row.interval?.lower },
+        { header: 'eloUpper95', value: (row) => row.interval?.upper },
+        { header: 'rankBest', value: (row) => row.rankRange?.best },
+        { header: 'rankWorst', value: (row) => row.rankRange?.worst },
+        { header: 'voteCount', value: (row) => row.entry.voteCount },
+        { header: 'winCount', value: (row) => row.entry.winCount },
+        { header: 'lossCount', value: (row) => row.entry.lossCount },
+        { header: 'tieCount', value: (row) => row.entry.tieCount },
+        { header: 'winRate', value: (row) => calculateWinRate(row.entry) },
+        { header: 'lastUpdated', value: (row) => row.entry.lastUpdated },
+      ],
+      meta,
+      format
+    )
+  }
+
+  const handleModelClick = (modelId: string, modelSlug?: string) => {
+    if (!metricName || !testSetName) return
+
+    // Use slug in URL, falling back to ID if needed
+    const modelIdentifier = modelSlug || modelId
+
+    // Carry every filter over; the table's sort order doesn't apply there
+    const params = withParams(searchParams, {
+      metricName,
+      testSetName,
+      modelSlug: modelIdentifier,
+      sort: null,
+      order: null,
+    })
+
     navigate(`/leaderboard/model?${params.toString()}`)
   }
 
-  // Calculate win rate from leaderboard entry
-  const calculateWinRate = (entry: LeaderboardEntry): number => {
-    if (!entry || !entry.voteCount || entry.voteCount === 0) return 0
-    if (entry.winCount === undefined) return 0
-    return entry.winCount / entry.voteCount
+  const handleMatchupClick = () => {
+    const params = new URLSearchParams()
+    if (metricName) params.set('metricName', metricName)
+    if (testSetName) params.set('testSetName', testSetName)
+    if (tagName) params.set('tagName', tagName)
+
+    // Seed the matchup with the top two models
+    const [first, second] = leaderboard?.entries || []
+    if (first?.model?.slug) params.set('a', first.model.slug)
+    if (second?.model?.slug) params.set('b', second.model.slug)
+
+    navigate(`/leaderboard/matchup?${params.toString()}`)
   }
 
-  // Reset tag filter
-  const resetTagFilter = () => {
-    setSelectedTag(null)
-    // Update URL by removing tag parameter
-    const newSearchParams = new URLSearchParams(searchParams)
-    newSearchParams.delete('tagName')
-    setSearchParams(newSearchParams)
+  // Push filter changes as new history entries so back/forward restores them
+  const updateParams = (
+    updates: Record<string, string | number | null | undefined>
+  ) => {
+    setSearchParams(withParams(searchParams, updates))
   }
 
-  // Handle tag selection
-  const handleTagChange = (tagId: string) => {
-    setSelectedTag(tagId || null)
-
-    // Update URL
-    const newSearchParams = new URLSearchParams(searchParams)
-    if (tagId) {
-      // Find tag name for the URL
-      const selectedTagObj = tags.find((t) => t.id === tagId)
-      if (selectedTagObj) {
-        newSearchParams.set('tagName', selectedTagObj.name)
-      }
-    } else {
-      newSearchParams.delete('tagName')
-    }
-    setSearchParams(newSearchParams)
+  const handleSortChange = (field: SortField) => {
+    const direction =
+      field === sortField
+        ? sortDirection === 'asc'
+          ? 'desc'
+          : 'asc'
+        : DEFAULT_SORT_DIRECTIONS[field]
+
+    // Keep the default order out of the URL
+    const isDefault = field === 'rank' && direction === 'asc'
+    updateParams({
+      sort: isDefault ? null : field,
+      order: isDefault ? null : direction,
+    })
   }
 
+  const handleMinVotesChange = (value: string) => {
+    const next = parseMinVotes(value)
+    updateParams({ minVotes: next === DEFAULT_MIN_VOTES ? null : next })
+  }
+
+  const renderSortIndicator = (field: SortField) =>
+    sortField === field && (
+      <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>
+    )
+
   return (
     <div className="max-w-6xl mx-auto p-4 space-y-6">
       {/* Header */}
@@ -218,15 +390,69 @@ const Leaderboard = () => {
           </h2>
         </div>
 
-        {/* Tag Filter */}
-        <div className="w-full sm:w-64">
+        <div className="flex flex-col sm:flex-row items-center gap-4 w-full sm:w-auto">
+          <button
+            onClick={handleMatchupClick}
+            className="flex items-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 sm:self-end sm:mb-2"
+          >
+            <Swords className="h-4 w-4 mr-1" />
+            Head-to-head
+          </button>
+
+          {/* Snapshot date */}
+          <div className="w-full sm:w-44">
+            <div className="flex items-center">
+              <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">
+                Snapshot as of
+              </label>
+              {asOf && (
+                <button
+                  onClick={() => updateParams({ asOf: null })}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+                >
+                  Clear
+                </button>
+              )}
+            </div>
+            <input
+              type="date"
+              value={asOf || ''}
+              max={formatDateParam(new Date())}
+              onChange={(e) => updateParams({ asOf: e.target.value })}
+              className="mt-1 w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <MetricSelector
+          options={metrics}
+          value={metrics.find((m) => m.name === metricName)?.id || null}
+          onChange={(id) =>
+            updateParams({
+              metricName: metrics.find((m) => m.id === id)?.name,
+            })
+          }
+        />
+        <TestSetSelector
+          options={testSets}
+          value={testSets.find((t) => t.name === testSetName)?.id || null}
+          onChange={(id) =>
+            updateParams({
+              testSetName: testSets.find((t) => t.id === id)?.name,
+            })
+          }
+        />
+        <div>
           <div className="flex items-center">
             <label className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">
               Tag
             </label>
             {selectedTag && (
               <button
-                onClick={resetTagFilter}
+                onClick={() => updateParams({ tagName: null })}
                 className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
               >
                 Clear
@@ -236,11 +462,25 @@ const Leaderboard = () => {
           <TagSelector
             options={tags}
             value={selectedTag}
-            onChange={handleTagChange}
+            onChange={(id) =>
+              updateParams({ tagName: tags.find((t) => t.id === id)?.name })
+            }
             className="mt-1"
             hideLabel={true}
           />
         </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Min Votes
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={minVotes}
+            onChange={(e) => handleMinVotesChange(e.target.value)}
+            className="mt-1 w-full px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
       </div>
 
       {/* Error state */}
@@ -271,7 +511,7 @@ const Leaderboard = () => {
       {/* Leaderboard Table */}
       {!loading && !error && leaderboard && (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border dark:border-gray-700 overflow-hidden">
-          <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-4">
             <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
               {leaderboard.testSetName || 'Leaderboard'}
               {selectedTag &&
@@ -281,7 +521,16 @@ const Leaderboard = () => {
                     (Tag: {leaderboard.entries[0].tag.name})
                   </span>
                 )}
+              {asOf && (
+                <span className="ml-2 text-sm text-amber-600 dark:text-amber-400">
+                  Snapshot as of {asOf}
+                </span>
+              )}
             </h3>
+            <ExportMenu
+              onExport={handleExport}
+              disabled={!leaderboard.entries?.length}
+            />
           </div>
 
           <div className="overflow-x-auto">
@@ -289,62 +538,99 @@ const Leaderboard = () => {
             <table className="w-full hidden md:table">
               <thead>
                 <tr className="bg-gray-50 dark:bg-gray-700 border-b dark:border-gray-600 text-left">
-                  <th className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider w-16">
+                  <th
+                    className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider w-16 cursor-pointer"
+                    onClick={() => handleSortChange('rank')}
+                  >
                     Rank
+                    {renderSortIndicator('rank')}
                   </th>
-                  <th className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th
+                    className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider cursor-pointer"
+                    onClick={() => handleSortChange('model')}
+                  >
                     Model
+                    {renderSortIndicator('model')}
                   </th>
                   <th className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider text-right">
                     ELO Score
                   </th>
+                  <th
+                    className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider text-right"
+                    title="Approximate 95% interval from the vote record when the API doesn't provide one"
+                  >
+                    95% CI
+                  </th>
                   <th className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider text-right">
+                    Rank Range
+                  </th>
+                  <th
+                    className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider text-right cursor-pointer"
+                    onClick={() => handleSortChange('winRate')}
+                  >
                     Win Rate
+                    {renderSortIndicator('winRate')}
                   </th>
-                  <th className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider text-right">
+                  <th
+                    className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider text-right cursor-pointer"
+                    onClick={() => handleSortChange('voteCount')}
+                  >
                     Votes
+                    {renderSortIndicator('voteCount')}
                   </th>
                 </tr>
               </thead>
 
               <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                {(leaderboard.entries || []).map((entry, index) => (
+                {rows.map((row) => (
                   <tr
-                    key={entry.model?.id || index}
+                    key={row.entry.model?.id || row.rank}
                     className="hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
                     onClick={() =>
-                      entry.model?.id &&
-                      handleModelClick(entry.model.id, entry.model.slug)
+                      row.entry.model?.id &&
+                      handleModelClick(row.entry.model.id, row.entry.model.slug)
                     }
                   >
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
                         <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                          #{index + 1}
+                          #{row.rank}
                         </span>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                        {entry.model?.name || 'Unknown'}
+                        {row.entry.model?.name || 'Unknown'}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right">
                       <div className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                        {entry.eloScore ? Math.round(entry.eloScore) : '0'}
+                        {row.entry.eloScore
+                          ? Math.round(row.entry.eloScore)
+                          : '0'}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <div className="text-sm text-gray-500 dark:text-gray-400">
+                        {formatInterval(row)}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right">
                       <div className="text-sm text-gray-900 dark:text-gray-100">
-                        {entry.voteCount > 0
-                          ? `${(calculateWinRate(entry) * 100).toFixed(1)}%`
+                        {formatRankRange(row.rankRange)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <div className="text-sm text-gray-900 dark:text-gray-100">
+                        {row.entry.voteCount > 0
+                          ? `${(calculateWinRate(row.entry) * 100).toFixed(1)}%`
                           : 'N/A'}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right">
                       <div className="text-sm text-gray-900 dark:text-gray-100">
-                        {entry.voteCount
-                          ? entry.voteCount.toLocaleString()
+                        {row.entry.voteCount
+                          ? row.entry.voteCount.toLocaleString()
                           : '0'}
                       </div>
                     </td>
@@ -354,7 +640,7 @@ const Leaderboard = () => {
                 {(!leaderboard.entries || leaderboard.entries.length === 0) && (
                   <tr>
                     <td
-                      colSpan={5}
+                      colSpan={7}
                       className="px-6 py-8 text-center text-gray-500 dark:text-gray-400"
                     >
                       No models match the current filters.
@@ -366,21 +652,21 @@ const Leaderboard = () => {
 
             {/* Mobile view - only shown on small screens */}
             <div className="md:hidden">
-              {(leaderboard.entries || []).map((entry, index) => (
+              {rows.map((row) => (
                 <div
-                  key={entry.model?.id || index}
+                  key={row.entry.model?.id || row.rank}
                   className="border-b dark:border-gray-700 p-4 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer"
                   onClick={() =>
-                    entry.model?.id &&
-                    handleModelClick(entry.model.id, entry.model.slug)
+                    row.entry.model?.id &&
+                    handleModelClick(row.entry.model.id, row.entry.model.slug)
                   }
                 >
                   <div className="flex items-start mb-2">
                     <span className="text-sm font-medium text-gray-900 dark:text-gray-100 w-10">
-                      #{index + 1}
+                      #{row.rank}
                     </span>
                     <div className="text-sm font-medium text-gray-900 dark:text-gray-100 text-left">
-                      {entry.model?.name || 'Unknown'}
+                      {row.entry.model?.name || 'Unknown'}
                     </div>
                   </div>
                   <div className="pl-10 space-y-1">
@@ -389,7 +675,25 @@ const Leaderboard = () => {
                         ELO Score:{' '}
                       </span>
                       <span className="text-sm font-medium text-gray-900 dark:text-gray-100 text-left">
-                        {entry.eloScore ? Math.round(entry.eloScore) : '0'}
+                        {row.entry.eloScore
+                          ? Math.round(row.entry.eloScore)
+                          : '0'}
+                      </span>
+                    </div>
+                    <div className="flex items-center">
+                      <span className="text-xs text-gray-500 dark:text-gray-400 w-[80px]">
+                        95% CI:{' '}
+                      </span>
+                      <span className="text-sm text-gray-900 dark:text-gray-100 text-left">
+                        {formatInterval(row)}
+                      </span>
+                    </div>
+                    <div className="flex items-center">
+                      <span className="text-xs text-gray-500 dark:text-gray-400 w-[80px]">
+                        Rank Range:{' '}
+                      </span>
+                      <span className="text-sm text-gray-900 dark:text-gray-100 text-left">
+                        {formatRankRange(row.rankRange)}
                       </span>
                     </div>
                     <div className="flex items-center">
@@ -397,8 +701,8 @@ const Leaderboard = () => {
                         Win Rate:{' '}
                       </span>
                       <span className="text-sm text-gray-900 dark:text-gray-100 text-left">
-                        {entry.voteCount > 0
-                          ? `${(calculateWinRate(entry) * 100).toFixed(1)}%`
+                        {row.entry.voteCount > 0
+                          ? `${(calculateWinRate(row.entry) * 100).toFixed(1)}%`
                           : 'N/A'}
                       </span>
                     </div>
@@ -407,8 +711,8 @@ const Leaderboard = () => {
                         Votes:{' '}
                       </span>
                       <span className="text-sm text-gray-900 dark:text-gray-100 text-left">
-                        {entry.voteCount
-                          ? entry.voteCount.toLocaleString()
+                        {row.entry.voteCount
+                          ? row.entry.voteCount.toLocaleString()
                           : '0'}
                       </span>
                     </div>
@@ -431,6 +735,42 @@ const Leaderboard = () => {
           )}
         </div>
       )}
+
+      {/* ELO history chart */}
+      {!loading && !error && leaderboard && (
+        <div className="space-y-2">
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+              ELO Over Time
+            </h3>
+            <DateRangePicker value={historyRange} onChange={setHistoryRange} />
+          </div>
+          {historyError ? (
+            <div className="text-sm text-red-600 dark:text-red-400">
+              {historyError}
+            </div>
+          ) : historyLoading ? (
+            <div className="h-40 flex items-center justify-center text-gray-500 dark:text-gray-400">
+              Loading history...
+            </div>
+          ) : (
+            <EloHistoryChart series={history} asOf={asOf} />
+          )}
+        </div>
+      )}
+
+      {/* Confidence interval chart */}
+      {!loading &&
+        !error &&
+        leaderboard?.entries &&
+        leaderboard.entries.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+              Rating Uncertainty
+            </h3>
+            <EloIntervalChart entries={leaderboard.entries} />
+          </div>
+        )}
     </div>
   )
 }
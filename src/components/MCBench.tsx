@@ -1,74 +1,98 @@
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
 
-import { useGLTF } from '@react-three/drei'
-import { Camera, Pickaxe, Share2 } from 'lucide-react'
+import {
+  Camera,
+  CloudOff,
+  Keyboard,
+  Link2,
+  Link2Off,
+  Pickaxe,
+  Share2,
+} from 'lucide-react'
 
 import { api } from '../api/client'
-import settings from '../config/settings'
+import { COMPARISON_EXPIRY } from '../constants/comparisons'
 import { useAuth } from '../hooks/useAuth'
+import { useVoteOutbox } from '../hooks/useVoteOutbox'
 import {
-  AssetFile,
   BuildPair,
   ComparisonBatchResponse,
-  ComparisonResponse,
-  ComparisonResultResponse,
-  MetricResponse,
   NewComparisonBatchRequest,
   QueuedComparison,
   UserComparisonRequest,
 } from '../types/comparisons'
-import AuthModal from './AuthModal'
+import { createCameraSyncChannel } from '../utils/cameraSync'
 import {
-  ModelViewContainer,
-  cleanupComparison,
-  modelPathCache,
-  preloadModel,
-} from './ModelUtils'
+  clearComparisonModels,
+  fetchMetricId,
+  getModelPath,
+  preloadComparisonModels,
+} from '../utils/comparisons'
+import { isTypingTarget } from '../utils/keyboard'
+import { cleanupComparison } from '../utils/modelCache'
+import AuthModal from './AuthModal'
+import { ModelViewContainer } from './ModelUtils'
 import Background from './background'
+import KeyboardShortcutsModal, {
+  KeyboardShortcutGroup,
+} from './ui/KeyboardShortcutsModal'
+import RotatingLoadingMessage from './ui/RotatingLoadingMessage'
 import ScreenshotShare from './ui/ScreenshotShare'
 import ShareComparisonModal from './ui/ShareComparisonModal'
 
-// Loading message component with rotating messages
-const RotatingLoadingMessage: React.FC = () => {
-  const messages = [
-    'Building blocky castles...',
-    'Generating Minecraft builds...',
-    'Comparing AI architects...',
-    'Crafting digital blocks...',
-    'Rendering cubes and voxels...',
-    'Assembling block masterpieces...',
-  ]
-
-  const [messageIndex, setMessageIndex] = useState(0)
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setMessageIndex((prev) => (prev + 1) % messages.length)
-    }, 3000)
-
-    return () => clearInterval(interval)
-  }, [])
+const TARGET_QUEUE_SIZE = 10
+const REFILL_THRESHOLD = 4
 
-  return (
-    <div className="text-lg font-mono dark:text-gray-200">
-      {messages[messageIndex]}
-    </div>
-  )
+const VOTE_SHORTCUT_KEYS: Record<string, 'A' | 'B' | 'tie'> = {
+  a: 'A',
+  arrowleft: 'A',
+  b: 'B',
+  arrowright: 'B',
+  t: 'tie',
+  arrowdown: 'tie',
 }
 
-const getArtifactUrl = (artifact: AssetFile) => {
-  // TODO: Make this better to detect whether the root url already
-  //  encodes the bucket information
-  if (settings.external_object_cdn_root_url.includes('mcbench.ai')) {
-    return `${settings.external_object_cdn_root_url}/${artifact.key}`
-  }
-
-  return `${settings.external_object_cdn_root_url}/${artifact.bucket}/${artifact.key}`
+// Orthogonal views reachable from the number row; Shift targets viewer B
+const VIEW_SHORTCUT_KEYS: Record<string, string> = {
+  Digit1: 'front',
+  Digit2: 'back',
+  Digit3: 'left',
+  Digit4: 'right',
+  Digit5: 'top',
+  Digit6: 'bottom',
+  Digit0: 'reset',
 }
 
-const COMPARISON_EXPIRY = 50 * 60 * 1000 // 50 minutes in milliseconds
-const TARGET_QUEUE_SIZE = 10
-const REFILL_THRESHOLD = 4
+const ARENA_SHORTCUTS: KeyboardShortcutGroup[] = [
+  {
+    title: 'Voting',
+    shortcuts: [
+      { keys: ['A', '←'], description: 'Vote A' },
+      { keys: ['B', '→'], description: 'Vote B' },
+      { keys: ['T', '↓'], description: 'Tie' },
+      { keys: ['N', 'Enter', 'Space'], description: 'Next comparison' },
+    ],
+  },
+  {
+    title: 'Viewers (hold Shift for B)',
+    shortcuts: [
+      { keys: ['1'], description: 'Front view' },
+      { keys: ['2'], description: 'Back view' },
+      { keys: ['3'], description: 'Left view' },
+      { keys: ['4'], description: 'Right view' },
+      { keys: ['5'], description: 'Top view' },
+      { keys: ['6'], description: 'Bottom view' },
+      { keys: ['0'], description: 'Reset view' },
+      { keys: ['F'], description: 'Toggle fullscreen' },
+      { keys: ['L'], description: 'Link / unlink cameras' },
+    ],
+  },
+  {
+    title: 'General',
+    shortcuts: [{ keys: ['?', 'H'], description: 'Show / hide shortcuts' }],
+  },
+]
 
 const useIsMobile = () => {
   const [isMobile, setIsMobile] = useState(false)
@@ -86,43 +110,12 @@ const useIsMobile = () => {
   return isMobile
 }
 
-let cachedMetricId: string | null = null
-
-const fetchMetricId = async (): Promise<string> => {
-  if (cachedMetricId) return cachedMetricId
-
-  const { data } = await api.get<MetricResponse[]>('/metrics')
-  const metric = data.find((m) => m.name === 'UNQUALIFIED_BETTER')
-  if (!metric) throw new Error('Required metric not found')
-
-  cachedMetricId = metric.id
-  return metric.id
-}
-
-const getModelPath = (
-  comparison: ComparisonResponse,
-  sampleId: string
-): string => {
-  const asset = comparison.assets.find((a) => a.sampleId === sampleId)
-  const gltfFile = asset?.files.find((f) => f.kind === 'gltf_scene')
-
-  if (gltfFile?.bucket && gltfFile?.key) {
-    return getArtifactUrl(gltfFile)
-  }
-
-  if (!gltfFile?.url) {
-    console.error('Missing GLTF file for sample:', sampleId)
-    throw new Error(`Missing GLTF file for sample: ${sampleId}`)
-  }
-
-  return gltfFile.url
-}
-
 // Now using ModelViewContainer which has its own camera controls
 
 const MCBench = () => {
   const isMobile = useIsMobile()
   const { isAuthenticated } = useAuth()
+  const { pendingCount, submitVote } = useVoteOutbox()
 
   const [metricId, setMetricId] = useState<string | null>(null)
   const [comparisons, setComparisons] = useState<QueuedComparison[]>([])
@@ -162,11 +155,19 @@ const MCBench = () => {
   const [screenshotViewer, setScreenshotViewer] = useState<'A' | 'B' | null>(
     null
   )
+  const [showShortcutsHelp, setShowShortcutsHelp] = useState(false)
+  const [camerasLinked, setCamerasLinked] = useState(false)
+
+  // A fresh channel per comparison so a new pair starts from its own framing
+  const cameraSync = useMemo(
+    () =>
+      camerasLinked && currentComparison ? createCameraSyncChannel('A') : null,
+    [camerasLinked, currentComparison]
+  )
 
   // Compute if buttons should be enabled based on render status
   const buttonsEnabled = currentComparison
-    ? renderStatus[currentComparison.samples[0]] &&
-      renderStatus[currentComparison.samples[1]]
+    ? currentComparison.samples.every((sampleId) => renderStatus[sampleId])
     : false
 
   // Initialize vote count from localStorage
@@ -317,18 +318,16 @@ const MCBench = () => {
     }
 
     try {
-      // The /comparison/result endpoint will receive our session and identification headers
-      // through our axios interceptors. The backend will associate this vote with
-      // the session and identification headers.
-      const { data } = await api.post<ComparisonResultResponse>(
-        '/comparison/result',
-        payload
-      )
-
-      setModelNames({
-        modelA: data.sample_1_model,
-        modelB: data.sample_2_model,
-      })
+      // Votes that can't be delivered right now are queued in the outbox and
+      // replayed in the background, so model names may not be known yet
+      const data = await submitVote(payload, currentComparison.fetchedAt)
+
+      if (data) {
+        setModelNames({
+          modelA: data.sample_1_model,
+          modelB: data.sample_2_model,
+        })
+      }
 
       // Check if we should prompt for authentication
       if (!isAuthenticated) {
@@ -365,12 +364,7 @@ const MCBench = () => {
 
   const handleNext = () => {
     // Store comparison details for cleanup
-    const modelsToClear = currentComparison
-      ? [
-          getModelPath(currentComparison, currentComparison.samples[0]),
-          getModelPath(currentComparison, currentComparison.samples[1]),
-        ]
-      : []
+    const comparisonToClear = currentComparison
     const cacheKeyToCleanup = currentComparison?.token
 
     // First update UI state to show loading indicator
@@ -387,11 +381,9 @@ const MCBench = () => {
 
     // Immediately clear THREE.js cache to prevent position reuse
     // This is critical for preventing the model from rotating around the wrong center
-    modelsToClear.forEach((path) => {
-      console.log('Clearing model from useGLTF cache:', path)
-      // We're using the already imported useGLTF from drei
-      useGLTF.clear(path)
-    })
+    if (comparisonToClear) {
+      clearComparisonModels(comparisonToClear)
+    }
 
     // Only clean up after UI has updated and next model is being prepared
     if (cacheKeyToCleanup) {
@@ -428,37 +420,15 @@ const MCBench = () => {
 
     console.log('Starting preload for models')
 
-    // Get paths and preload current comparison models
-    const modelAPath = getModelPath(
-      currentComparison,
-      currentComparison.samples[0]
-    )
-    const modelBPath = getModelPath(
-      currentComparison,
-      currentComparison.samples[1]
-    )
-
-    // Initialize cache key-specific path cache if needed
-    if (!modelPathCache.has(currentComparison.token)) {
-      modelPathCache.set(currentComparison.token, new Map<string, string>())
-    }
-    const cacheKeyPathCache = modelPathCache.get(currentComparison.token)!
-
-    // Store the paths in the cache key-specific path cache
-    cacheKeyPathCache.set(currentComparison.samples[0], modelAPath)
-    cacheKeyPathCache.set(currentComparison.samples[1], modelBPath)
-
     try {
-      await Promise.all([
-        preloadModel(currentComparison.token, modelAPath),
-        preloadModel(currentComparison.token, modelBPath),
-      ])
+      await preloadComparisonModels(currentComparison)
 
       // Immediately update preload status like in production
       setPreloadStatus((prev) => ({
         ...prev,
-        [currentComparison.samples[0]]: true,
-        [currentComparison.samples[1]]: true,
+        ...Object.fromEntries(
+          currentComparison.samples.map((sampleId) => [sampleId, true])
+        ),
       }))
 
       console.log('Preload complete for current models')
@@ -466,33 +436,16 @@ const MCBench = () => {
       // Also preload next comparison if available, with a delay
       if (comparisons.length > 0) {
         const nextComparison = comparisons[0]
-        const nextPaths = nextComparison.samples.map((sampleId) => {
-          const path = getModelPath(nextComparison, sampleId)
-
-          // Initialize cache key-specific path cache if needed
-          if (!modelPathCache.has(nextComparison.token)) {
-            modelPathCache.set(nextComparison.token, new Map<string, string>())
-          }
-          const nextCacheKeyPathCache = modelPathCache.get(
-            nextComparison.token
-          )!
-
-          // Store the path in the cache key-specific path cache
-          nextCacheKeyPathCache.set(sampleId, path)
-
-          return path
-        })
 
         // Preload next models in background immediately
         console.log('Starting preload for next comparison models')
 
-        Promise.all(
-          nextPaths.map((path) => preloadModel(nextComparison.token, path))
-        ).then(() => {
+        preloadComparisonModels(nextComparison).then(() => {
           setPreloadStatus((prev) => ({
             ...prev,
-            [nextComparison.samples[0]]: true,
-            [nextComparison.samples[1]]: true,
+            ...Object.fromEntries(
+              nextComparison.samples.map((sampleId) => [sampleId, true])
+            ),
           }))
           console.log('Preload complete for next models')
         })
@@ -507,6 +460,30 @@ const MCBench = () => {
     preloadUpcomingModels()
   }, [currentComparison, preloadUpcomingModels])
 
+  const handleFullscreen = (
+    ref: React.RefObject<HTMLDivElement>,
+    dimensionsRef: React.MutableRefObject<
+      { width: number; height: number } | undefined
+    >
+  ) => {
+    if (!ref.current) return
+
+    if (document.fullscreenElement) {
+      document.exitFullscreen().then(() => {
+        if (ref.current && dimensionsRef.current) {
+          ref.current.style.width = `${dimensionsRef.current.width}px`
+          ref.current.style.height = `${dimensionsRef.current.height}px`
+        }
+      })
+    } else {
+      dimensionsRef.current = {
+        width: ref.current.offsetWidth,
+        height: ref.current.offsetHeight,
+      }
+      ref.current.requestFullscreen()
+    }
+  }
+
   const handleViewerClick = (viewer: 'A' | 'B') => {
     const now = Date.now()
     const lastClick = lastClickTime.current[viewer]
@@ -525,22 +502,97 @@ const MCBench = () => {
   const handleViewChange = (viewer: 'A' | 'B', position: string) => {
     console.log('Setting view for viewer:', viewer, 'position:', position)
 
+    // Linked cameras mirror the selected view onto both viewers
+    const viewers: ('A' | 'B')[] = camerasLinked ? ['A', 'B'] : [viewer]
+
     // Special case for reset
     if (position === 'reset-view-from-button') {
       setViewMode((prev) => ({
         ...prev,
-        [viewer]: 'reset-view-from-button', // Don't add timestamp for reset
+        ...Object.fromEntries(
+          viewers.map((v) => [v, 'reset-view-from-button']) // Don't add timestamp for reset
+        ),
       }))
       return
     }
 
     // Regular case - add timestamp to force re-render
+    const timestamp = Date.now()
     setViewMode((prev) => ({
       ...prev,
-      [viewer]: `${position}-${Date.now()}`, // Add timestamp to force state change
+      ...Object.fromEntries(
+        viewers.map((v) => [v, `${position}-${timestamp}`]) // Add timestamp to force state change
+      ),
     }))
   }
 
+  // Keyboard shortcuts for raters. Re-bound on every render so the handler
+  // always sees the current comparison; votes use the same render gate as the
+  // buttons so nothing can be cast before both builds are on screen.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return
+      if (showAuthModal || showShareModal || showScreenshotModal) return
+
+      if (e.key === '?' || e.key === 'h' || e.key === 'H') {
+        e.preventDefault()
+        setShowShortcutsHelp((prev) => !prev)
+        return
+      }
+
+      if (showShortcutsHelp || !currentComparison) return
+
+      const viewer: 'A' | 'B' = e.shiftKey ? 'B' : 'A'
+      const viewerSample = currentComparison.samples[viewer === 'A' ? 0 : 1]
+
+      const view = VIEW_SHORTCUT_KEYS[e.code]
+      if (view) {
+        if (!renderStatus[viewerSample]) return
+        e.preventDefault()
+        handleViewChange(viewer, view)
+        return
+      }
+
+      const vote = VOTE_SHORTCUT_KEYS[e.key.toLowerCase()]
+      if (vote) {
+        if (voted || !buttonsEnabled) return
+        e.preventDefault()
+        handleVote(vote)
+        return
+      }
+
+      switch (e.key) {
+        case 'n':
+        case 'N':
+        case 'Enter':
+        case ' ':
+          if (!voted) return
+          e.preventDefault()
+          handleNext()
+          return
+        case 'l':
+        case 'L':
+          if (!buttonsEnabled) return
+          e.preventDefault()
+          setCamerasLinked((prev) => !prev)
+          return
+        case 'f':
+        case 'F':
+          if (!renderStatus[viewerSample]) return
+          e.preventDefault()
+          if (viewer === 'A') {
+            handleFullscreen(viewerRefA, dimensionsRefA)
+          } else {
+            handleFullscreen(viewerRefB, dimensionsRefB)
+          }
+          return
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  })
+
   if (error) {
     return (
       <div className="flex justify-center items-center h-[400px] text-red-600">
@@ -553,8 +605,7 @@ const MCBench = () => {
   if (
     isLoading ||
     (currentComparison &&
-      !preloadStatus[currentComparison.samples[0]] &&
-      !preloadStatus[currentComparison.samples[1]])
+      currentComparison.samples.every((sampleId) => !preloadStatus[sampleId]))
   ) {
     return (
       <div className="max-w-6xl mx-auto px-4 py-4 space-y-6 font-mono dark:text-gray-100">
@@ -664,10 +715,7 @@ const MCBench = () => {
   }
 
   // Remove just the loading spinner but keep the preload status check as a guard
-  if (
-    !preloadStatus[currentComparison.samples[0]] ||
-    !preloadStatus[currentComparison.samples[1]]
-  ) {
+  if (!currentComparison.samples.every((sampleId) => preloadStatus[sampleId])) {
     return null // or return to the previous state
   }
 
@@ -695,30 +743,6 @@ const MCBench = () => {
     },
   }
 
-  const handleFullscreen = (
-    ref: React.RefObject<HTMLDivElement>,
-    dimensionsRef: React.MutableRefObject<
-      { width: number; height: number } | undefined
-    >
-  ) => {
-    if (!ref.current) return
-
-    if (document.fullscreenElement) {
-      document.exitFullscreen().then(() => {
-        if (ref.current && dimensionsRef.current) {
-          ref.current.style.width = `${dimensionsRef.current.width}px`
-          ref.current.style.height = `${dimensionsRef.current.height}px`
-        }
-      })
-    } else {
-      dimensionsRef.current = {
-        width: ref.current.offsetWidth,
-        height: ref.current.offsetHeight,
-      }
-      ref.current.requestFullscreen()
-    }
-  }
-
   return (
     <div className="max-w-6xl mx-auto px-4 py-4 space-y-6 font-mono dark:text-gray-100">
       <div className="text-center space-y-2">
@@ -728,6 +752,12 @@ const MCBench = () => {
         <p className="text-gray-600 dark:text-gray-300 font-mono">
           Which AI generated this Minecraft build better?
         </p>
+        <Link
+          to="/rank"
+          className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          Rank several builds at once
+        </Link>
       </div>
 
       <div className="bg-gray-100 dark:bg-gray-800 border border-gray-900 dark:border-gray-600 p-4 text-center">
@@ -736,6 +766,18 @@ const MCBench = () => {
         </p>
       </div>
 
+      {pendingCount > 0 && (
+        <div
+          className="flex items-center justify-center gap-2 text-sm text-amber-700 dark:text-amber-400"
+          title="These votes will be sent automatically once the connection is restored"
+        >
+          <CloudOff className="h-4 w-4" />
+          <span>
+            {pendingCount} {pendingCount === 1 ? 'vote' : 'votes'} pending sync
+          </span>
+        </div>
+      )}
+
       <div className="space-y-4">
         <div className="flex flex-col md:flex-row gap-4 md:gap-4">
           {/* First model (A) */}
@@ -768,6 +810,8 @@ const MCBench = () => {
                 cacheKey={currentComparison.token}
                 initialCameraPosition={[30, 5, 30]}
                 initialViewMode={viewMode['A']}
+                cameraSync={cameraSync}
+                viewerId="A"
                 onViewChange={(position: string) =>
                   handleViewChange('A', position)
                 }
@@ -864,6 +908,8 @@ const MCBench = () => {
                 cacheKey={currentComparison.token}
                 initialCameraPosition={[30, 5, 30]}
                 initialViewMode={viewMode['B']}
+                cameraSync={cameraSync}
+                viewerId="B"
                 onViewChange={(position: string) =>
                   handleViewChange('B', position)
                 }
@@ -957,6 +1003,36 @@ const MCBench = () => {
             </button>
           )}
 
+          {!isMobile && (
+            <div className="flex justify-end gap-4">
+              <button
+                onClick={() => setCamerasLinked((prev) => !prev)}
+                disabled={!buttonsEnabled}
+                className={`flex items-center gap-1 text-xs disabled:opacity-50 disabled:cursor-not-allowed ${
+                  camerasLinked
+                    ? 'text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300'
+                    : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+                }`}
+                title="Mirror rotation, zoom and views between both builds"
+              >
+                {camerasLinked ? (
+                  <Link2 className="h-4 w-4" />
+                ) : (
+                  <Link2Off className="h-4 w-4" />
+                )}
+                <span>{camerasLinked ? 'Cameras linked' : 'Link cameras'}</span>
+              </button>
+              <button
+                onClick={() => setShowShortcutsHelp(true)}
+                className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                title="Keyboard shortcuts"
+              >
+                <Keyboard className="h-4 w-4" />
+                <span>Shortcuts (?)</span>
+              </button>
+            </div>
+          )}
+
           {/* Space for layout consistency */}
           <div className="h-2"></div>
         </div>
@@ -1062,6 +1138,12 @@ const MCBench = () => {
         />
       )}
 
+      <KeyboardShortcutsModal
+        isOpen={showShortcutsHelp}
+        onClose={() => setShowShortcutsHelp(false)}
+        groups={ARENA_SHORTCUTS}
+      />
+
       {/* Custom prompt modal - show first to decide what to do */}
       {showAuthModal && authModalMode === 'prompt' && !isAuthenticated && (
         <div className="fixed inset-0 z-50 flex items-center justify-center">
@@ -2,234 +2,19 @@ import React, { useEffect, useMemo, useRef, useState } from 'react'
 
 import { Html, OrbitControls, useGLTF } from '@react-three/drei'
 import { Canvas, useThree } from '@react-three/fiber'
+import { ChevronLeft, ChevronRight, Scissors, X } from 'lucide-react'
 import * as THREE from 'three'
-import { GLTF, GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader'
-
-// Cache maps for models to prevent duplicate loading - scoped by cache key
-export const modelLoadingCache = new Map<string, Map<string, Promise<GLTF>>>() // cacheKey -> modelPath -> Promise
-export const modelPathCache = new Map<string, Map<string, string>>() // cacheKey -> sampleId -> modelPath
-export const gltfCache = new Map<string, Map<string, GLTF>>() // cacheKey -> modelPath -> GLTF
-// Track URLs that have been requested to prevent duplicate fetches, scoped by cache key
-export const requestedUrls = new Map<string, Set<string>>() // cacheKey -> Set<url>
-
-// Cache for instanced meshes - aligns with backend's element_cache concept - scoped by cache key
-export const instanceCache = new Map<string, Map<string, THREE.Mesh>>() // cacheKey -> meshKey -> Mesh
-// Track mesh instance count for debugging
-export const instanceStats = {
-  totalMeshes: 0,
-  uniqueMeshes: 0,
-  instancedMeshes: 0,
-  originalTriangles: 0,
-  optimizedTriangles: 0,
-}
-
-// Helper to dispose of materials
-const disposeMaterial = (material: THREE.Material) => {
-  material.dispose()
-
-  // Check if material has these properties before trying to dispose
-  if ('map' in material && material.map instanceof THREE.Texture) {
-    material.map.dispose()
-  }
-  if ('normalMap' in material && material.normalMap instanceof THREE.Texture) {
-    material.normalMap.dispose()
-  }
-  if (
-    'specularMap' in material &&
-    material.specularMap instanceof THREE.Texture
-  ) {
-    material.specularMap.dispose()
-  }
-  if ('envMap' in material && material.envMap instanceof THREE.Texture) {
-    material.envMap.dispose()
-  }
-}
-
-// Helper to dispose of all objects
-const disposeObject = (obj: THREE.Object3D) => {
-  if (obj instanceof THREE.Mesh) {
-    if (obj.geometry) {
-      obj.geometry.dispose()
-    }
-
-    if (obj.material) {
-      if (Array.isArray(obj.material)) {
-        obj.material.forEach((material) => disposeMaterial(material))
-      } else {
-        disposeMaterial(obj.material)
-      }
-    }
-  }
-}
-
-// Generate a unique key for a mesh based on its geometry, materials, and UVs
-// This matches the backend's approach to determining element equivalence
-const generateMeshInstanceKey = (mesh: THREE.Mesh): string => {
-  if (!mesh.geometry) return 'no-geometry'
-
-  // Get hashable representation of the geometry
-  const position = mesh.geometry.getAttribute('position')
-  const normal = mesh.geometry.getAttribute('normal')
-  const uv = mesh.geometry.getAttribute('uv')
-  const index = mesh.geometry.index
-
-  // Create a key from geometry data
-  let geometryKey = ''
-
-  // Add position data
-  if (position) {
-    geometryKey += 'pos:' + Array.from(position.array).join(',')
-  }
-
-  // Add normal data
-  if (normal) {
-    geometryKey += '|nrm:' + Array.from(normal.array).join(',')
-  }
-
-  // Add UV data
-  if (uv) {
-    geometryKey += '|uv:' + Array.from(uv.array).join(',')
-  }
-
-  // Add index data
-  if (index) {
-    geometryKey += '|idx:' + Array.from(index.array).join(',')
-  }
-
-  // Add material data
-  let materialKey = ''
-  if (mesh.material) {
-    if (Array.isArray(mesh.material)) {
-      materialKey = mesh.material
-        .map((mat) => {
-          // Extract essential material properties
-          return `${mat.uuid}|${mat.type}|${(mat as THREE.MeshStandardMaterial).map?.uuid || 'no-map'}`
-        })
-        .join('|')
-    } else {
-      const mat = mesh.material as THREE.MeshStandardMaterial
-      materialKey = `${mat.uuid}|${mat.type}|${mat.map?.uuid || 'no-map'}`
-    }
-  }
-
-  // Combine all aspects to create a final key
-  const finalKey = `${geometryKey}|${materialKey}`
-  // Use hash function to create a more compact key
-  return String(hash(finalKey))
-}
-
-// Simple string hash function for creating shorter unique keys
-const hash = (str: string): number => {
-  let hash = 0
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i)
-    hash = (hash << 5) - hash + char
-    hash = hash & hash // Convert to 32bit integer
-  }
-  return hash
-}
-
-export const cleanupModel = (cacheKey: string, modelPath: string) => {
-  console.log('Cleaning up model:', modelPath, 'for cache key:', cacheKey)
-
-  // Get the cache key-specific cache
-  const keyGltfCache = gltfCache.get(cacheKey)
-  const gltf = keyGltfCache?.get(modelPath)
-
-  if (gltf) {
-    // Reset model position to avoid influencing next comparison
-    // This is important because Three.js scene objects persist between renders
-    gltf.scene.position.set(0, 0, 0)
-
-    // Traverse and dispose all objects
-    gltf.scene.traverse((obj) => {
-      // For meshes, we need to handle instanced meshes carefully
-      if (obj instanceof THREE.Mesh) {
-        const key = generateMeshInstanceKey(obj)
-        const keyInstanceCache = instanceCache.get(cacheKey)
-
-        // Only dispose the geometry if this is the primary instance
-        // (the one stored in our instance cache)
-        const cachedMesh = keyInstanceCache?.get(key)
-
-        if (cachedMesh === obj) {
-          // This is the primary instance - remove it from the cache
-          keyInstanceCache?.delete(key)
-        }
-
-        // Now dispose the object
-        disposeObject(obj)
-      } else {
-        // For non-mesh objects, just dispose normally
-        disposeObject(obj)
-      }
-    })
-
-    // Remove from our cache key-specific caches
-    const keyLoadingCache = modelLoadingCache.get(cacheKey)
-    if (keyLoadingCache) {
-      keyLoadingCache.delete(modelPath)
-    }
-
-    const keyPathCache = modelPathCache.get(cacheKey)
-    if (keyPathCache) {
-      // Remove all sample IDs that point to this model path
-      for (const [sampleId, path] of keyPathCache.entries()) {
-        if (path === modelPath) {
-          keyPathCache.delete(sampleId)
-        }
-      }
-    }
-
-    keyGltfCache?.delete(modelPath)
-
-    // Also remove from drei's cache to force a fresh load next time
-    useGLTF.clear(modelPath)
-
-    // Clear model metadata to ensure fresh centering calculation on next load
-    modelMetadataCache.delete(modelPath)
-  }
-}
-
-// Function to cleanup all resources for a specific cache key
-export const cleanupComparison = (cacheKey: string) => {
-  console.log('Cleaning up all resources for cache key:', cacheKey)
-
-  // Get all model paths for this cache key
-  const keyGltfCache = gltfCache.get(cacheKey)
-  if (keyGltfCache) {
-    // Clean up each model
-    for (const modelPath of keyGltfCache.keys()) {
-      cleanupModel(cacheKey, modelPath)
-
-      // IMPORTANT: For cached models, we need to ensure they're properly
-      // recentered next time they're used, so don't keep the metadata
-      // This prevents position issues when a model is reused across comparisons
-      modelMetadataCache.delete(modelPath)
-    }
-
-    // Clear this cache key's caches
-    gltfCache.delete(cacheKey)
-  }
-
-  // Clear other cache key-specific caches
-  modelLoadingCache.delete(cacheKey)
-  modelPathCache.delete(cacheKey)
-  instanceCache.delete(cacheKey)
-  requestedUrls.delete(cacheKey)
-}
-
-// Global store for model metadata
-export interface ModelMetadata {
-  boundingBox: THREE.Box3
-  boundingSphere: THREE.Sphere
-  center: THREE.Vector3 // Geometric center
-  centerOfMass: THREE.Vector3 // Weighted center
-  dimensions: THREE.Vector3
-  maxDimension: number
-}
-
-export const modelMetadataCache = new Map<string, ModelMetadata>()
+import { GLTF } from 'three/examples/jsm/loaders/GLTFLoader'
+
+import { CameraSyncChannel, CameraSyncState } from '../utils/cameraSync'
+import {
+  ModelMetadata,
+  gltfCache,
+  modelLoadingCache,
+  modelMetadataCache,
+  preloadModel,
+  processModelInstancing,
+} from '../utils/modelCache'
 
 // Model component with built-in cleanup
 interface ModelProps {
@@ -242,259 +27,6 @@ interface ModelProps {
 // We use the bounding box center for model positioning
 // The bounding box center is more stable and predictable than other metrics
 
-// Process a loaded GLTF model to implement advanced optimization
-const processModelInstancing = (cacheKey: string, gltf: GLTF): THREE.Group => {
-  try {
-    console.log('Starting optimization process...')
-
-    // Reset stats for this model
-    instanceStats.totalMeshes = 0
-    instanceStats.uniqueMeshes = 0
-    instanceStats.instancedMeshes = 0
-    instanceStats.originalTriangles = 0
-    instanceStats.optimizedTriangles = 0
-
-    // Create result group for the optimized model
-    const resultGroup = new THREE.Group()
-    resultGroup.name = 'OptimizedModel'
-
-    // Initialize cache key-specific instance cache if needed
-    if (!instanceCache.has(cacheKey)) {
-      instanceCache.set(cacheKey, new Map<string, THREE.Mesh>())
-    }
-
-    // Group meshes by material for optimization
-    const materialGroups = new Map<
-      string,
-      {
-        material: THREE.Material
-        geometries: THREE.BufferGeometry[]
-        worldPositions: THREE.Matrix4[]
-      }
-    >()
-
-    // First pass: count meshes and collect by material
-    gltf.scene.traverse((object) => {
-      if (object instanceof THREE.Mesh) {
-        instanceStats.totalMeshes++
-
-        // Count triangles in original model
-        let triangleCount = 0
-        if (object.geometry.index) {
-          triangleCount = object.geometry.index.count / 3
-        } else {
-          triangleCount = object.geometry.attributes.position.count / 3
-        }
-        instanceStats.originalTriangles += triangleCount
-
-        // Skip invisible meshes
-        if (!object.visible) return
-
-        // Get material
-        const material = object.material as THREE.Material
-        if (!material) return
-
-        // Create unique key for material
-        const key = material.uuid
-
-        // Create or get material group
-        if (!materialGroups.has(key)) {
-          materialGroups.set(key, {
-            material: material.clone(),
-            geometries: [],
-            worldPositions: [],
-          })
-        }
-
-        // Clone geometry
-        const clonedGeometry = object.geometry.clone()
-
-        // Compute world matrix
-        object.updateWorldMatrix(true, false)
-
-        // Store world matrix and geometry
-        materialGroups.get(key)!.worldPositions.push(object.matrixWorld.clone())
-        materialGroups.get(key)!.geometries.push(clonedGeometry)
-      }
-    })
-
-    // Process each material group to create merged meshes and instances
-    materialGroups.forEach((group) => {
-      if (group.geometries.length === 0) return
-
-      // For instancing detection, find unique geometries
-      const uniqueGeometries = new Map<
-        string,
-        {
-          geometry: THREE.BufferGeometry
-          count: number
-          matrices: THREE.Matrix4[]
-        }
-      >()
-
-      // Check for repeated geometries (potential instances)
-      for (let i = 0; i < group.geometries.length; i++) {
-        const geometry = group.geometries[i]
-        const vertexCount = geometry.attributes.position.count
-        const indexCount = geometry.index?.count || 0
-
-        // Create a hash for this geometry
-        const geometryKey = `vertices:${vertexCount}:indices:${indexCount}`
-
-        if (!uniqueGeometries.has(geometryKey)) {
-          uniqueGeometries.set(geometryKey, {
-            geometry,
-            count: 1,
-            matrices: [group.worldPositions[i]],
-          })
-        } else {
-          uniqueGeometries.get(geometryKey)!.count++
-          uniqueGeometries
-            .get(geometryKey)!
-            .matrices.push(group.worldPositions[i])
-        }
-      }
-
-      // Process each unique geometry
-      uniqueGeometries.forEach((uniqueGeom) => {
-        // If this geometry occurs multiple times, create an instanced mesh
-        if (uniqueGeom.count > 1) {
-          const instancedMesh = new THREE.InstancedMesh(
-            uniqueGeom.geometry,
-            group.material,
-            uniqueGeom.count
-          )
-
-          // Set matrix for each instance
-          uniqueGeom.matrices.forEach((matrix, index) => {
-            instancedMesh.setMatrixAt(index, matrix)
-          })
-
-          instancedMesh.instanceMatrix.needsUpdate = true
-          resultGroup.add(instancedMesh)
-          instanceStats.uniqueMeshes++
-          instanceStats.instancedMeshes += uniqueGeom.count - 1
-
-          // Count triangles (each instance reuses the same geometry)
-          const triangleCount = uniqueGeom.geometry.index
-            ? uniqueGeom.geometry.index.count / 3
-            : uniqueGeom.geometry.attributes.position.count / 3
-
-          instanceStats.optimizedTriangles += triangleCount
-        } else {
-          // For single occurrences, add as regular mesh
-          const mesh = new THREE.Mesh(uniqueGeom.geometry, group.material)
-          // Apply the world transform
-          mesh.applyMatrix4(uniqueGeom.matrices[0])
-          resultGroup.add(mesh)
-          instanceStats.uniqueMeshes++
-
-          // Count triangles
-          const triangleCount = uniqueGeom.geometry.index
-            ? uniqueGeom.geometry.index.count / 3
-            : uniqueGeom.geometry.attributes.position.count / 3
-
-          instanceStats.optimizedTriangles += triangleCount
-        }
-      })
-    })
-
-    // Log optimization statistics
-    console.log('Advanced model optimization for cache key', cacheKey, ':', {
-      originalMeshes: instanceStats.totalMeshes,
-      optimizedMeshes:
-        instanceStats.uniqueMeshes + instanceStats.instancedMeshes,
-      uniqueMeshes: instanceStats.uniqueMeshes,
-      instancedMeshes: instanceStats.instancedMeshes,
-      originalTriangles: instanceStats.originalTriangles,
-      optimizedTriangles: instanceStats.optimizedTriangles,
-      meshReduction: Math.round(
-        ((instanceStats.totalMeshes -
-          (instanceStats.uniqueMeshes + instanceStats.instancedMeshes)) /
-          instanceStats.totalMeshes) *
-          100
-      ),
-    })
-
-    // Return the optimized model group
-    return resultGroup
-  } catch (err) {
-    console.error('Error in advanced model optimization:', err)
-
-    // Initialize cache key-specific instance cache if needed
-    if (!instanceCache.has(cacheKey)) {
-      instanceCache.set(cacheKey, new Map<string, THREE.Mesh>())
-    }
-    const keyInstanceCache = instanceCache.get(cacheKey)!
-
-    // Fall back to basic instancing if advanced optimization fails
-    // Reset stats
-    instanceStats.totalMeshes = 0
-    instanceStats.uniqueMeshes = 0
-    instanceStats.instancedMeshes = 0
-
-    // Gather all meshes from the scene
-    const meshes: THREE.Mesh[] = []
-    gltf.scene.traverse((object) => {
-      if (object instanceof THREE.Mesh) {
-        meshes.push(object)
-        instanceStats.totalMeshes++
-      }
-    })
-
-    // First pass - gather all unique meshes and cache them
-    meshes.forEach((mesh) => {
-      // Generate a unique key for this mesh
-      const key = generateMeshInstanceKey(mesh)
-
-      // If we haven't seen this mesh before with this cache key, add it to our instance cache
-      if (!keyInstanceCache.has(key)) {
-        keyInstanceCache.set(key, mesh)
-        instanceStats.uniqueMeshes++
-      }
-    })
-
-    // Second pass - replace duplicate meshes with instances of cached ones
-    meshes.forEach((mesh) => {
-      // Skip if this mesh is already in our cache (i.e., it's a primary instance)
-      const key = generateMeshInstanceKey(mesh)
-      const cachedMesh = keyInstanceCache.get(key)
-
-      if (cachedMesh && mesh !== cachedMesh) {
-        // This is a duplicate mesh - replace its geometry with the cached one
-        const oldGeometry = mesh.geometry
-
-        // Share geometry with the cached instance
-        mesh.geometry = cachedMesh.geometry
-
-        // Dispose of the old geometry to free memory
-        if (oldGeometry) {
-          oldGeometry.dispose()
-        }
-
-        // Count this as an instanced mesh
-        instanceStats.instancedMeshes++
-      }
-    })
-
-    // Log fallback statistics
-    console.log('Fallback instancing for cache key', cacheKey, ':', {
-      totalMeshes: instanceStats.totalMeshes,
-      uniqueMeshes: instanceStats.uniqueMeshes,
-      instancedMeshes: instanceStats.instancedMeshes,
-      savingsPercent:
-        instanceStats.instancedMeshes > 0
-          ? Math.round(
-              (instanceStats.instancedMeshes / instanceStats.totalMeshes) * 100
-            )
-          : 0,
-    })
-
-    // Return original scene as fallback
-    return gltf.scene
-  }
-}
-
 // Stats to display for the model optimization
 export interface ModelStats {
   originalMeshCount: number
@@ -512,6 +44,7 @@ interface ModelProps {
   enableInstancing?: boolean
   useOptimization?: boolean
   onRender?: () => void
+  onModelReady?: (model: THREE.Object3D, metadata: ModelMetadata) => void
 }
 
 export const Model = ({
@@ -521,6 +54,7 @@ export const Model = ({
   enableInstancing = true,
   useOptimization = true,
   onRender,
+  onModelReady,
 }: ModelProps) => {
   // State for loading progress
   const [loading, setLoading] = useState(true)
@@ -696,6 +230,13 @@ export const Model = ({
       }
     }
 
+    // Hand the object actually on screen to callers that inspect or modify it
+    const renderedModel = useOptimization ? optimizedModel : originalModel
+    const readyMetadata = modelMetadataCache.get(path)
+    if (onModelReady && renderedModel && readyMetadata) {
+      onModelReady(renderedModel, readyMetadata)
+    }
+
     // Cleanup when component unmounts - nothing to do here as cleanup is managed at cache key level
     return () => {}
   }, [
@@ -704,6 +245,7 @@ export const Model = ({
     gltf,
     onMetadataCalculated,
     onRender,
+    onModelReady,
     scene,
     enableInstancing,
     useOptimization,
@@ -829,10 +371,6 @@ export const AutoCamera = ({ modelPath, fitOffset = 1.8 }: AutoCameraProps) => {
   return null
 }
 
-// Create a singleton loader instance with caching enabled
-const loader = new GLTFLoader()
-loader.setCrossOrigin('use-credentials') // Enable CORS with credentials
-
 // Camera Controls component for orthogonal views
 export interface CameraControlsProps {
   viewMode: string | null
@@ -1075,11 +613,13 @@ export const AutoRotate = (_props: AutoRotateProps) => {
 interface ControlsWithInteractionDetectionProps
   extends Omit<React.ComponentProps<typeof OrbitControls>, 'autoRotate'> {
   initialAutoRotate?: boolean
+  autoRotatePaused?: boolean
 }
 
 const ControlsWithInteractionDetection = ({
   initialAutoRotate = true,
   autoRotateSpeed = 2.5,
+  autoRotatePaused = false,
   ...props
 }: ControlsWithInteractionDetectionProps) => {
   const { gl } = useThree()
@@ -1151,13 +691,275 @@ const ControlsWithInteractionDetection = ({
   return (
     <OrbitControls
       ref={controlsRef}
-      autoRotate={autoRotate}
+      makeDefault
+      autoRotate={autoRotate && !autoRotatePaused}
       autoRotateSpeed={adjustedRotateSpeed}
       {...props}
     />
   )
 }
 
+// Camera state shared between linked viewers, with positions divided by the
+// model's max dimension so builds of different sizes stay framed the same way
+type OrbitControlsImpl = React.ElementRef<typeof OrbitControls>
+
+interface CameraSyncBridgeProps {
+  channel: CameraSyncChannel
+  viewerId: string
+  maxDimension: number
+}
+
+// Mirrors orbit, zoom and pan between viewers sharing a channel
+const CameraSyncBridge = ({
+  channel,
+  viewerId,
+  maxDimension,
+}: CameraSyncBridgeProps) => {
+  const camera = useThree((state) => state.camera)
+  const controls = useThree(
+    (state) => state.controls
+  ) as OrbitControlsImpl | null
+
+  useEffect(() => {
+    if (!controls) return
+
+    const scale = maxDimension || 1
+    let isApplyingRemote = false
+
+    const publish = () => {
+      channel.publish(viewerId, {
+        position: camera.position
+          .toArray()
+          .map((value) => value / scale) as CameraSyncState['position'],
+        target: controls.target
+          .toArray()
+          .map((value) => value / scale) as CameraSyncState['target'],
+      })
+    }
+
+    const handleStart = () => {
+      channel.activeViewerId = viewerId
+    }
+
+    const handleChange = () => {
+      if (isApplyingRemote || channel.activeViewerId !== viewerId) return
+      publish()
+    }
+
+    controls.addEventListener('start', handleStart)
+    controls.addEventListener('change', handleChange)
+
+    const unsubscribe = channel.subscribe(viewerId, (state) => {
+      isApplyingRemote = true
+      camera.position.set(
+        state.position[0] * scale,
+        state.position[1] * scale,
+        state.position[2] * scale
+      )
+      controls.target.set(
+        state.target[0] * scale,
+        state.target[1] * scale,
+        state.target[2] * scale
+      )
+      controls.update()
+      isApplyingRemote = false
+    })
+
+    if (channel.activeViewerId === viewerId) {
+      publish()
+    }
+
+    return () => {
+      controls.removeEventListener('start', handleStart)
+      controls.removeEventListener('change', handleChange)
+      unsubscribe()
+    }
+  }, [channel, viewerId, maxDimension, camera, controls])
+
+  return null
+}
+
+// Cross-section state: show layers up to `layer` along an axis, or only that
+// layer when stepping through a build one slice at a time
+export type SectionAxis = 'x' | 'y' | 'z'
+
+export interface SectionState {
+  axis: SectionAxis
+  layer: number // 1-based, counted from the min side of the bounding box
+  singleLayer: boolean
+}
+
+const SECTION_AXIS_INDEX: Record<SectionAxis, number> = { x: 0, y: 1, z: 2 }
+// Keep block faces that sit exactly on a layer boundary from z-fighting the cut
+const SECTION_EPSILON = 0.01
+
+const getSectionLayerCount = (metadata: ModelMetadata, axis: SectionAxis) =>
+  Math.max(
+    1,
+    Math.ceil(metadata.dimensions.getComponent(SECTION_AXIS_INDEX[axis]))
+  )
+
+// Models are centered on the origin, so the bounding box runs from
+// -size / 2 to size / 2 along every axis
+const getSectionPlanes = (
+  metadata: ModelMetadata,
+  section: SectionState
+): THREE.Plane[] => {
+  const axisIndex = SECTION_AXIS_INDEX[section.axis]
+  const min = -metadata.dimensions.getComponent(axisIndex) / 2
+  const cut = min + section.layer
+
+  const upperNormal = new THREE.Vector3().setComponent(axisIndex, -1)
+  const planes = [new THREE.Plane(upperNormal, cut + SECTION_EPSILON)]
+
+  if (section.singleLayer) {
+    const lowerNormal = new THREE.Vector3().setComponent(axisIndex, 1)
+    planes.push(new THREE.Plane(lowerNormal, -(cut - 1) + SECTION_EPSILON))
+  }
+
+  return planes
+}
+
+// Each viewer has its own renderer, so renderer-level clipping only cuts this build
+const SectionClipping = ({
+  metadata,
+  section,
+}: {
+  metadata: ModelMetadata
+  section: SectionState | null
+}) => {
+  const gl = useThree((state) => state.gl)
+
+  useEffect(() => {
+    gl.clippingPlanes = section ? getSectionPlanes(metadata, section) : []
+    return () => {
+      gl.clippingPlanes = []
+    }
+  }, [gl, metadata, section])
+
+  return null
+}
+
+interface SectionControlsProps {
+  metadata: ModelMetadata
+  section: SectionState | null
+  onChange: (section: SectionState | null) => void
+}
+
+const SectionControls = ({
+  metadata,
+  section,
+  onChange,
+}: SectionControlsProps) => {
+  const stopPropagation = (e: React.SyntheticEvent) => e.stopPropagation()
+
+  if (!section) {
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation()
+          onChange({
+            axis: 'y',
+            layer: getSectionLayerCount(metadata, 'y'),
+            singleLayer: false,
+          })
+        }}
+        className="bg-white/10 hover:bg-white/20 text-white p-2 rounded-md w-8 h-8 flex items-center justify-center"
+        title="Cross-section"
+      >
+        <Scissors className="h-4 w-4" />
+      </button>
+    )
+  }
+
+  const layerCount = getSectionLayerCount(metadata, section.axis)
+  const setLayer = (layer: number) =>
+    onChange({ ...section, layer: Math.min(Math.max(layer, 1), layerCount) })
+
+  return (
+    <div
+      className="bg-black/60 text-white rounded-md p-2 space-y-2 text-xs w-56"
+      onClick={stopPropagation}
+      onMouseDown={stopPropagation}
+      onDoubleClick={stopPropagation}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex gap-1">
+          {(['y', 'x', 'z'] as SectionAxis[]).map((axis) => (
+            <button
+              key={axis}
+              onClick={() =>
+                onChange({
+                  ...section,
+                  axis,
+                  layer: getSectionLayerCount(metadata, axis),
+                })
+              }
+              className={`w-7 h-6 rounded uppercase ${
+                section.axis === axis
+                  ? 'bg-white/40'
+                  : 'bg-white/10 hover:bg-white/20'
+              }`}
+            >
+              {axis}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onChange(null)}
+          className="p-1 rounded hover:bg-white/20"
+          title="Close cross-section"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => setLayer(section.layer - 1)}
+          disabled={section.layer <= 1}
+          className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+          title="Previous layer"
+        >
+          <ChevronLeft className="h-3 w-3" />
+        </button>
+        <input
+          type="range"
+          min={1}
+          max={layerCount}
+          value={section.layer}
+          onChange={(e) => setLayer(Number(e.target.value))}
+          className="flex-1"
+        />
+        <button
+          onClick={() => setLayer(section.layer + 1)}
+          disabled={section.layer >= layerCount}
+          className="p-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-40"
+          title="Next layer"
+        >
+          <ChevronRight className="h-3 w-3" />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span>
+          Layer {section.layer} / {layerCount}
+        </span>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={section.singleLayer}
+            onChange={(e) =>
+              onChange({ ...section, singleLayer: e.target.checked })
+            }
+          />
+          Single layer
+        </label>
+      </div>
+    </div>
+  )
+}
+
 // A reusable component for model viewing with all features
 export interface ModelViewContainerProps {
   modelPath: string
@@ -1174,6 +976,10 @@ export interface ModelViewContainerProps {
   enableInstancing?: boolean
   useOptimization?: boolean
   onRender?: () => void
+  cameraSync?: CameraSyncChannel | null
+  viewerId?: string
+  onModelReady?: (model: THREE.Object3D, metadata: ModelMetadata) => void
+  showSectionControls?: boolean
 }
 
 export const ModelViewContainer = ({
@@ -1191,9 +997,26 @@ export const ModelViewContainer = ({
   enableInstancing = true,
   useOptimization = true,
   onRender,
+  cameraSync = null,
+  viewerId = 'viewer',
+  onModelReady,
+  showSectionControls = false,
 }: ModelViewContainerProps) => {
   const [viewMode, setViewMode] = useState<string | null>(initialViewMode)
   const [modelMetadata, setModelMetadata] = useState<ModelMetadata | null>(null)
+  const [section, setSection] = useState<SectionState | null>(null)
+
+  // A new model starts uncut
+  useEffect(() => {
+    setSection(null)
+  }, [modelPath])
+
+  // Follow view changes driven by the parent (e.g. keyboard shortcuts)
+  useEffect(() => {
+    if (initialViewMode) {
+      setViewMode(initialViewMode)
+    }
+  }, [initialViewMode])
 
   // Optional callback to get model metadata when it's calculated
   const handleMetadataCalculated = (metadata: ModelMetadata) => {
@@ -1239,6 +1062,16 @@ export const ModelViewContainer = ({
         />
       </div>
 
+      {showSectionControls && modelMetadata && (
+        <div className="absolute bottom-2 right-2 z-10">
+          <SectionControls
+            metadata={modelMetadata}
+            section={section}
+            onChange={setSection}
+          />
+        </div>
+      )}
+
       <Canvas camera={{ position: cameraPosition, fov: 60 }}>
         <Model
           path={modelPath}
@@ -1247,6 +1080,7 @@ export const ModelViewContainer = ({
           enableInstancing={enableInstancing}
           useOptimization={useOptimization}
           onRender={onRender}
+          onModelReady={onModelReady}
         />
         <AutoCamera modelPath={modelPath} fitOffset={1.8} />
         <CameraControls viewMode={viewMode} modelPath={modelPath} />
@@ -1257,149 +1091,28 @@ export const ModelViewContainer = ({
           enableDamping={true}
           dampingFactor={0.05}
           initialAutoRotate={autoRotate}
+          autoRotatePaused={!!cameraSync}
           autoRotateSpeed={autoRotateSpeed}
           position0={new THREE.Vector3(...initialCameraPosition)}
           rotateSpeed={0.5}
           enablePan={true}
         />
+        {showSectionControls && modelMetadata && (
+          <SectionClipping metadata={modelMetadata} section={section} />
+        )}
+        {cameraSync && modelMetadata && (
+          <CameraSyncBridge
+            channel={cameraSync}
+            viewerId={viewerId}
+            maxDimension={modelMetadata.maxDimension}
+          />
+        )}
         {children}
       </Canvas>
     </div>
   )
 }
 
-export const preloadModel = async (
-  cacheKey: string,
-  modelPath: string,
-  enableInstancing = true
-): Promise<void> => {
-  console.log('Preloading model:', modelPath, 'for cache key:', cacheKey)
-
-  // Initialize cache key-specific caches if they don't exist
-  if (!gltfCache.has(cacheKey)) {
-    gltfCache.set(cacheKey, new Map<string, GLTF>())
-  }
-  if (!modelLoadingCache.has(cacheKey)) {
-    modelLoadingCache.set(cacheKey, new Map<string, Promise<GLTF>>())
-  }
-  if (!requestedUrls.has(cacheKey)) {
-    requestedUrls.set(cacheKey, new Set<string>())
-  }
-
-  const keyGltfCache = gltfCache.get(cacheKey)!
-  const keyLoadingCache = modelLoadingCache.get(cacheKey)!
-  const keyRequestedUrls = requestedUrls.get(cacheKey)!
-
-  // If already loaded in gltfCache for this cache key, don't reload
-  if (keyGltfCache.has(modelPath)) {
-    console.log(
-      'Model already in cache:',
-      modelPath,
-      'for cache key:',
-      cacheKey
-    )
-    return Promise.resolve()
-  }
-
-  // If currently loading for this cache key, wait for that promise
-  if (keyLoadingCache.has(modelPath)) {
-    console.log(
-      'Model currently loading:',
-      modelPath,
-      'for cache key:',
-      cacheKey
-    )
-    return keyLoadingCache.get(modelPath)!.then(() => {})
-  }
-
-  // Check if we've already requested this URL for this cache key to prevent blob duplicates
-  if (keyRequestedUrls.has(modelPath)) {
-    console.log(
-      'URL already requested for this cache key, using cached results:',
-      modelPath
-    )
-    return Promise.resolve()
-  }
-
-  // Mark this URL as requested for this cache key
-  keyRequestedUrls.add(modelPath)
-
-  console.log(
-    'Starting new load for model:',
-    modelPath,
-    'for cache key:',
-    cacheKey
-  )
-  const loadPromise = new Promise<GLTF>((resolve, reject) => {
-    // Use browser cache for textures and resources
-    // Meshopt decoder is not enabled by default, so no need to disable it
-
-    loader.load(
-      modelPath,
-      (gltf) => {
-        console.log(
-          'Model loaded successfully:',
-          modelPath,
-          'for cache key:',
-          cacheKey
-        )
-
-        // Apply instancing optimization if enabled
-        if (enableInstancing) {
-          processModelInstancing(cacheKey, gltf)
-        }
-
-        // Store the loaded model in our cache key-specific cache
-        keyGltfCache.set(modelPath, gltf)
-        resolve(gltf)
-      },
-      (progress) => {
-        if (progress.lengthComputable) {
-          const percentComplete = Math.round(
-            (progress.loaded / progress.total) * 100
-          )
-          console.log(
-            `Loading progress: ${percentComplete}%`,
-            modelPath,
-            'for cache key:',
-            cacheKey
-          )
-        }
-      },
-      (error) => {
-        console.error(
-          'Error loading model:',
-          modelPath,
-          'for cache key:',
-          cacheKey,
-          error
-        )
-        // Remove from the requested URLs so it can be tried again
-        keyRequestedUrls.delete(modelPath)
-        reject(error)
-      }
-    )
-  }) as Promise<GLTF>
-
-  keyLoadingCache.set(modelPath, loadPromise)
-
-  try {
-    await loadPromise
-    console.log('Preload complete:', modelPath, 'for cache key:', cacheKey)
-    return Promise.resolve()
-  } catch (error) {
-    console.error(
-      'Preload failed:',
-      modelPath,
-      'for cache key:',
-      cacheKey,
-      error
-    )
-    keyLoadingCache.delete(modelPath)
-    throw error
-  }
-}
-
 // Create an OptimizedModel component that uses the new optimization functionality
 export interface OptimizedModelProps {
   modelPath: string
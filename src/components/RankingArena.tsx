@@ -0,0 +1,472 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+
+import { CloudOff, GripVertical, Pickaxe } from 'lucide-react'
+
+import { api } from '../api/client'
+import { COMPARISON_EXPIRY } from '../constants/comparisons'
+import { useVoteOutbox } from '../hooks/useVoteOutbox'
+import {
+  ComparisonBatchResponse,
+  NewComparisonBatchRequest,
+  QueuedComparison,
+  UserComparisonRequest,
+} from '../types/comparisons'
+import {
+  clearComparisonModels,
+  fetchMetricId,
+  getModelPath,
+  preloadComparisonModels,
+} from '../utils/comparisons'
+import { cleanupComparison } from '../utils/modelCache'
+import { ModelViewContainer } from './ModelUtils'
+import Background from './background'
+import RotatingLoadingMessage from './ui/RotatingLoadingMessage'
+
+const TARGET_QUEUE_SIZE = 6
+const REFILL_THRESHOLD = 2
+const MIN_RANKING_SAMPLES = 3
+const MAX_RANKING_SAMPLES = 4
+
+const SAMPLE_LABELS = ['A', 'B', 'C', 'D']
+
+const TIER_LABELS = ['1st', '2nd', '3rd', '4th']
+
+const RankingArena = () => {
+  const { pendingCount, submitVote } = useVoteOutbox()
+
+  const [metricId, setMetricId] = useState<string | null>(null)
+  const [comparisons, setComparisons] = useState<QueuedComparison[]>([])
+  const [currentComparison, setCurrentComparison] =
+    useState<QueuedComparison | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [noComparisonsAvailable, setNoComparisonsAvailable] = useState(false)
+  const [preloadStatus, setPreloadStatus] = useState<Record<string, boolean>>(
+    {}
+  )
+  const [renderStatus, setRenderStatus] = useState<Record<string, boolean>>({})
+
+  // Ranking state: one array per tier, best first; samples in the same tier are tied
+  const [tiers, setTiers] = useState<string[][]>([])
+  const [unranked, setUnranked] = useState<string[]>([])
+  const [selectedSample, setSelectedSample] = useState<string | null>(null)
+  const [draggedSample, setDraggedSample] = useState<string | null>(null)
+  const [submitted, setSubmitted] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [modelNames, setModelNames] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    fetchMetricId()
+      .then(setMetricId)
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : 'Failed to fetch metric')
+      )
+  }, [])
+
+  // Track every loaded comparison so all models can be released on unmount
+  const loadedTokensRef = useRef<string[]>([])
+  useEffect(() => {
+    loadedTokensRef.current = [
+      ...comparisons,
+      ...(currentComparison ? [currentComparison] : []),
+    ].map((comparison) => comparison.token)
+  }, [comparisons, currentComparison])
+
+  useEffect(() => {
+    const loadedTokens = loadedTokensRef
+    return () => {
+      loadedTokens.current.forEach((token) => cleanupComparison(token))
+    }
+  }, [])
+
+  const fetchComparisons = useCallback(async () => {
+    if (!metricId) return
+
+    try {
+      const batchSize = TARGET_QUEUE_SIZE - comparisons.length
+      if (batchSize <= 0) return
+
+      const request: NewComparisonBatchRequest = {
+        batchSize,
+        metricId,
+      }
+
+      const { data } = await api.post<ComparisonBatchResponse>(
+        '/comparison/batch',
+        request
+      )
+
+      // Pairs belong in the pairwise arena, and a ranking must cover every
+      // sample the token was issued for, so larger comparisons are dropped
+      const rankable = data.comparisons.filter(
+        (comp) =>
+          comp.samples.length >= MIN_RANKING_SAMPLES &&
+          comp.samples.length <= MAX_RANKING_SAMPLES
+      )
+
+      if (rankable.length === 0) {
+        setNoComparisonsAvailable(true)
+        setIsLoading(false)
+        return
+      }
+
+      const newComparisons: QueuedComparison[] = rankable.map((comp) => ({
+        ...comp,
+        fetchedAt: Date.now(),
+      }))
+
+      setComparisons((prev) => [...prev, ...newComparisons])
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to fetch comparisons'
+      )
+    }
+  }, [comparisons.length, metricId])
+
+  useEffect(() => {
+    const now = Date.now()
+
+    const validComparisons = comparisons.filter(
+      (comp) => now - comp.fetchedAt < COMPARISON_EXPIRY
+    )
+
+    if (validComparisons.length !== comparisons.length) {
+      setComparisons(validComparisons)
+    }
+
+    if (validComparisons.length <= REFILL_THRESHOLD) {
+      fetchComparisons()
+    }
+
+    if (!currentComparison && validComparisons.length > 0) {
+      const next = validComparisons[0]
+      setCurrentComparison(next)
+      setComparisons(validComparisons.slice(1))
+      setTiers(next.samples.map(() => []))
+      setUnranked([...next.samples])
+      setSubmitted(false)
+      setIsLoading(false)
+    }
+  }, [comparisons, currentComparison, fetchComparisons])
+
+  // Preload models for the current comparison and the one after it
+  useEffect(() => {
+    if (!currentComparison) return
+
+    const markPreloaded = (comparison: QueuedComparison) =>
+      setPreloadStatus((prev) => ({
+        ...prev,
+        ...Object.fromEntries(
+          comparison.samples.map((sampleId) => [sampleId, true])
+        ),
+      }))
+
+    preloadComparisonModels(currentComparison)
+      .then(() => {
+        markPreloaded(currentComparison)
+
+        if (comparisons.length > 0) {
+          const nextComparison = comparisons[0]
+          preloadComparisonModels(nextComparison).then(() =>
+            markPreloaded(nextComparison)
+          )
+        }
+      })
+      .catch((err) => console.error('Error preloading models:', err))
+  }, [currentComparison, comparisons])
+
+  const moveSample = (sampleId: string, tierIndex: number | null) => {
+    setTiers((prev) => {
+      const next = prev.map((tier) => tier.filter((id) => id !== sampleId))
+      if (tierIndex !== null) {
+        next[tierIndex] = [...next[tierIndex], sampleId]
+      }
+      return next
+    })
+    setUnranked((prev) => {
+      const next = prev.filter((id) => id !== sampleId)
+      return tierIndex === null ? [...next, sampleId] : next
+    })
+    setSelectedSample(null)
+  }
+
+  const handleDrop = (tierIndex: number | null) => {
+    if (draggedSample && !submitted) {
+      moveSample(draggedSample, tierIndex)
+    }
+    setDraggedSample(null)
+  }
+
+  // Click-to-place fallback for touch devices, where drag and drop isn't available
+  const handleZoneClick = (tierIndex: number | null) => {
+    if (selectedSample && !submitted) {
+      moveSample(selectedSample, tierIndex)
+    }
+  }
+
+  const allRendered = currentComparison
+    ? currentComparison.samples.every((sampleId) => renderStatus[sampleId])
+    : false
+  const canSubmit =
+    allRendered && unranked.length === 0 && !submitted && !isSubmitting
+
+  const handleSubmit = async () => {
+    if (!currentComparison || !canSubmit) return
+    setIsSubmitting(true)
+
+    const payload: UserComparisonRequest = {
+      comparisonDetails: {
+        token: currentComparison.token,
+        samples: currentComparison.samples,
+      },
+      orderedSampleIds: tiers.filter((tier) => tier.length > 0),
+    }
+
+    try {
+      const data = await submitVote(payload, currentComparison.fetchedAt)
+      setSubmitted(true)
+
+      if (data) {
+        const names = data.sample_models ?? [
+          data.sample_1_model,
+          data.sample_2_model,
+        ]
+        setModelNames(
+          Object.fromEntries(
+            currentComparison.samples.map((sampleId, index) => [
+              sampleId,
+              names[index] ?? '',
+            ])
+          )
+        )
+      }
+    } catch (err) {
+      console.error('Failed to submit ranking:', err)
+      setError(err instanceof Error ? err.message : 'Failed to submit ranking')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleNext = () => {
+    const comparisonToClear = currentComparison
+
+    setCurrentComparison(null)
+    setSubmitted(false)
+    setModelNames({})
+    setTiers([])
+    setUnranked([])
+    setSelectedSample(null)
+    setPreloadStatus({})
+
+    if (comparisonToClear) {
+      clearComparisonModels(comparisonToClear)
+      setTimeout(() => cleanupComparison(comparisonToClear.token), 500)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="flex justify-center items-center h-[400px] text-red-600">
+        {error}
+      </div>
+    )
+  }
+
+  if (noComparisonsAvailable && !currentComparison) {
+    return (
+      <div className="flex flex-col justify-center items-center gap-3 h-[400px] text-gray-600 dark:text-gray-300 font-mono">
+        <p>No ranking comparisons available at this time.</p>
+        <Link to="/" className="text-blue-600 dark:text-blue-400 underline">
+          Back to pairwise voting
+        </Link>
+      </div>
+    )
+  }
+
+  const header = (
+    <div className="text-center space-y-2">
+      <h1 className="text-3xl font-bold uppercase tracking-wider dark:text-white">
+        MC-Bench Ranking
+      </h1>
+      <p className="text-gray-600 dark:text-gray-300 font-mono">
+        Drag the builds into order, best first. Put builds in the same row to
+        tie them.
+      </p>
+      <Link
+        to="/"
+        className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        Back to pairwise voting
+      </Link>
+    </div>
+  )
+
+  if (isLoading || !currentComparison) {
+    return (
+      <div className="max-w-6xl mx-auto px-4 py-4 space-y-6 font-mono dark:text-gray-100">
+        {header}
+        <div className="bg-gray-100 dark:bg-gray-800 border border-gray-900 dark:border-gray-600 p-4 text-center">
+          <RotatingLoadingMessage />
+        </div>
+      </div>
+    )
+  }
+
+  const renderChip = (sampleId: string) => {
+    const index = currentComparison.samples.indexOf(sampleId)
+    const isSelected = selectedSample === sampleId
+
+    return (
+      <div
+        key={sampleId}
+        draggable={!submitted}
+        onDragStart={() => setDraggedSample(sampleId)}
+        onDragEnd={() => setDraggedSample(null)}
+        onClick={(e) => {
+          e.stopPropagation()
+          if (!submitted) setSelectedSample(isSelected ? null : sampleId)
+        }}
+        className={`flex items-center gap-1 px-3 py-2 border font-mono select-none ${
+          submitted ? 'cursor-default' : 'cursor-grab'
+        } ${
+          isSelected
+            ? 'bg-blue-600 text-white border-blue-700'
+            : 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 border-gray-900 dark:border-gray-500'
+        }`}
+      >
+        {!submitted && <GripVertical className="h-4 w-4 opacity-60" />}
+        <span className="font-bold">{SAMPLE_LABELS[index]}</span>
+        {submitted && modelNames[sampleId] && (
+          <span className="text-sm ml-1">{modelNames[sampleId]}</span>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-4 space-y-6 font-mono dark:text-gray-100">
+      {header}
+
+      <div className="bg-gray-100 dark:bg-gray-800 border border-gray-900 dark:border-gray-600 p-4 text-center">
+        <p className="text-lg font-mono dark:text-gray-200">
+          {currentComparison.buildDescription}
+        </p>
+      </div>
+
+      {pendingCount > 0 && (
+        <div className="flex items-center justify-center gap-2 text-sm text-amber-700 dark:text-amber-400">
+          <CloudOff className="h-4 w-4" />
+          <span>
+            {pendingCount} {pendingCount === 1 ? 'vote' : 'votes'} pending sync
+          </span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {currentComparison.samples.map((sampleId, index) => (
+          <div
+            key={sampleId}
+            className="relative h-[320px] overflow-hidden bg-gray-100 dark:bg-gray-800 border border-gray-900 dark:border-gray-600"
+          >
+            <div className="absolute bottom-2 left-2 z-10">
+              <div className="bg-white/10 text-white p-2 rounded-md text-sm w-8 h-8 flex items-center justify-center">
+                {SAMPLE_LABELS[index]}
+              </div>
+            </div>
+
+            {preloadStatus[sampleId] ? (
+              <ModelViewContainer
+                modelPath={getModelPath(currentComparison, sampleId)}
+                cacheKey={currentComparison.token}
+                initialCameraPosition={[30, 5, 30]}
+                className="h-full w-full"
+                onRender={() =>
+                  setRenderStatus((prev) => ({ ...prev, [sampleId]: true }))
+                }
+              >
+                <Background />
+              </ModelViewContainer>
+            ) : (
+              <div className="flex flex-col items-center justify-center h-full w-full">
+                <Pickaxe className="h-8 w-8 animate-spin text-gray-600 dark:text-gray-300" />
+                <p className="text-sm text-gray-600 dark:text-gray-300 mt-3">
+                  Loading model {SAMPLE_LABELS[index]}...
+                </p>
+              </div>
+            )}
+
+            {submitted && modelNames[sampleId] && (
+              <div className="absolute top-2 left-2">
+                <div className="bg-white/10 text-white p-3 py-1 rounded-md text-sm">
+                  {modelNames[sampleId]}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        {tiers.map((tier, tierIndex) => (
+          <div
+            key={tierIndex}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(tierIndex)}
+            onClick={() => handleZoneClick(tierIndex)}
+            className={`flex items-center gap-3 min-h-[56px] p-2 border border-dashed ${
+              draggedSample || selectedSample
+                ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                : 'border-gray-400 dark:border-gray-600'
+            }`}
+          >
+            <div className="w-12 text-sm uppercase text-gray-600 dark:text-gray-400">
+              {TIER_LABELS[tierIndex]}
+            </div>
+            <div className="flex flex-wrap gap-2">{tier.map(renderChip)}</div>
+          </div>
+        ))}
+
+        {!submitted && (
+          <div
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(null)}
+            onClick={() => handleZoneClick(null)}
+            className="flex items-center gap-3 min-h-[56px] p-2 border border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50"
+          >
+            <div className="w-12 text-sm uppercase text-gray-500 dark:text-gray-400">
+              Unranked
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {unranked.map(renderChip)}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!submitted ? (
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className={`w-full py-3 font-mono uppercase tracking-wider border transition-transform ${
+            canSubmit
+              ? 'bg-gray-900 dark:bg-gray-700 hover:bg-gray-800 dark:hover:bg-gray-600 text-white border-gray-900 dark:border-gray-600 hover:translate-y-[-2px]'
+              : 'bg-gray-400 dark:bg-gray-600 text-gray-200 dark:text-gray-400 border-gray-400 dark:border-gray-500 cursor-not-allowed'
+          }`}
+        >
+          {isSubmitting ? 'Submitting...' : 'Submit Ranking'}
+        </button>
+      ) : (
+        <button
+          onClick={handleNext}
+          className="w-full bg-green-600 dark:bg-green-700 hover:bg-green-700 dark:hover:bg-green-600 text-white py-3 font-mono uppercase tracking-wider border border-green-800 dark:border-green-600 transition-transform hover:translate-y-[-2px]"
+        >
+          Next Comparison
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default RankingArena
@@ -1,18 +1,33 @@
-import React, { useEffect, useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 
-import { AlertCircle } from 'lucide-react'
+import { AlertCircle, AlertTriangle } from 'lucide-react'
 
 import { adminAPI } from '../../api/client'
 import { getTestSets } from '../../api/leaderboard'
+import { listAllRuns } from '../../api/runs'
 import { useAuth } from '../../hooks/useAuth'
+import { useFilterPresets } from '../../hooks/useFilterPresets'
+import { GenerationResponse } from '../../types/generations'
 import { TestSetOption } from '../../types/leaderboard'
 import { Model } from '../../types/models'
 import { Prompt } from '../../types/prompts'
 import { Template } from '../../types/templates'
+import {
+  estimateGeneration,
+  getGenerationWarnings,
+} from '../../utils/generationEstimate'
+import {
+  GenerationSelection,
+  getSelectionFromRuns,
+  parseSelectionParams,
+  toSelectionParams,
+} from '../../utils/generationSelection'
 import { hasGenerationWriteAccess } from '../../utils/permissions'
 import { ConfirmModal } from '../ui/ConfirmModal'
+import FilterPresetMenu, { PinnedFilterPresets } from '../ui/FilterPresetMenu'
 import { SearchSelect } from '../ui/SearchSelect'
+import GenerationSummary from './GenerationSummary'
 
 const SAMPLE_PRESETS = [
   { value: 1, label: '1 sample' },
@@ -23,9 +38,26 @@ const SAMPLE_PRESETS = [
   { value: 50, label: '50 samples' },
 ]
 
+// Enough pages to recover the selection of any realistic generation
+const MAX_CLONE_RUN_PAGES = 50
+
+const CONFIRM_THRESHOLD_STORAGE_KEY = 'mcbench_generation_confirm_threshold'
+const DEFAULT_CONFIRM_THRESHOLD = 100
+
+const readConfirmThreshold = () => {
+  const stored = Number(localStorage.getItem(CONFIRM_THRESHOLD_STORAGE_KEY))
+  return Number.isInteger(stored) && stored >= 0
+    ? stored
+    : DEFAULT_CONFIRM_THRESHOLD
+}
+
 const CreateGeneration = () => {
   const navigate = useNavigate()
   const { user } = useAuth()
+  const [searchParams] = useSearchParams()
+  // A clone id or shared preset in the URL only pre-fills the form once
+  const initialParamsRef = useRef(searchParams)
+  const selectionPresets = useFilterPresets('generations')
 
   const canCreateGeneration = hasGenerationWriteAccess(user?.scopes || [])
 
@@ -33,6 +65,13 @@ const CreateGeneration = () => {
   const [prompts, setPrompts] = useState<Prompt[]>([])
   const [models, setModels] = useState<Model[]>([])
   const [testSets, setTestSets] = useState<TestSetOption[]>([])
+  // Everything fetched, inactive items included, so presets and clones can
+  // restore items that have since been deactivated
+  const catalogRef = useRef<{
+    templates: Template[]
+    prompts: Prompt[]
+    models: Model[]
+  }>({ templates: [], prompts: [], models: [] })
 
   const [formData, setFormData] = useState({
     name: '',
@@ -50,18 +89,92 @@ const CreateGeneration = () => {
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showConfirmModal, setShowConfirmModal] = useState(false)
+  // The cloned generation had more runs than were loaded
+  const [isClonePartial, setIsClonePartial] = useState(false)
 
   const [templateSearch, setTemplateSearch] = useState('')
   const [promptSearch, setPromptSearch] = useState('')
   const [modelSearch, setModelSearch] = useState('')
 
   const [numSamples, setNumSamples] = useState(1)
+  // Generations with more runs than this ask for confirmation first
+  const [confirmThreshold, setConfirmThreshold] = useState(readConfirmThreshold)
+
+  const estimate = useMemo(
+    () =>
+      estimateGeneration(
+        selectedTemplates,
+        selectedPrompts,
+        selectedModels,
+        numSamples
+      ),
+    [selectedTemplates, selectedPrompts, selectedModels, numSamples]
+  )
+  const warnings = useMemo(
+    () =>
+      getGenerationWarnings(selectedTemplates, selectedPrompts, selectedModels),
+    [selectedTemplates, selectedPrompts, selectedModels]
+  )
 
-  useEffect(() => {
-    fetchData()
-  }, [])
+  // Current selection in preset form, carrying a shared preset's name along
+  const selectionParams = useMemo(() => {
+    const params = toSelectionParams({
+      templateIds: selectedTemplates.map((t) => t.id),
+      promptIds: selectedPrompts.map((p) => p.id),
+      modelIds: selectedModels.map((m) => m.id),
+      numSamples,
+    })
+    const sharedName = searchParams.get('preset')
+    if (sharedName) params.set('preset', sharedName)
+    return params
+  }, [
+    selectedTemplates,
+    selectedPrompts,
+    selectedModels,
+    numSamples,
+    searchParams,
+  ])
+
+  const applySelection = useCallback(
+    (selection: GenerationSelection | null) => {
+      const catalog = catalogRef.current
+      const pick = <T extends { id: string }>(items: T[], ids: string[] = []) =>
+        items.filter((item) => ids.includes(item.id))
+
+      setSelectedTemplates(pick(catalog.templates, selection?.templateIds))
+      setSelectedPrompts(pick(catalog.prompts, selection?.promptIds))
+      setSelectedModels(pick(catalog.models, selection?.modelIds))
+      setNumSamples(selection?.numSamples ?? 1)
+    },
+    []
+  )
+
+  // Pre-fill everything from an existing generation
+  const loadClone = useCallback(
+    async (generationId: string, testSetOptions: TestSetOption[]) => {
+      const [{ data: generation }, { runs, hasMore }] = await Promise.all([
+        adminAPI.get<GenerationResponse>(`/generation/${generationId}`),
+        listAllRuns(
+          new URLSearchParams({ generation_id: generationId }),
+          MAX_CLONE_RUN_PAGES
+        ),
+      ])
+
+      setFormData({
+        name: `${generation.name} (copy)`,
+        description: generation.description || '',
+      })
+      applySelection(getSelectionFromRuns(runs))
+      setIsClonePartial(hasMore)
+      setSelectedTestSet(
+        testSetOptions.find((ts) => ts.id === generation.defaultTestSet?.id) ??
+          null
+      )
+    },
+    [applySelection]
+  )
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
       const [templatesRes, promptsRes, modelsRes, testSetsRes] =
         await Promise.all([
@@ -79,6 +192,21 @@ const CreateGeneration = () => {
 
       setTestSets(testSetsRes)
 
+      catalogRef.current = {
+        templates: templatesRes.data.data,
+        prompts: promptsRes.data.data,
+        models: modelsRes.data.data,
+      }
+
+      const initialParams = initialParamsRef.current
+      const cloneId = initialParams.get('clone')
+      if (cloneId) {
+        await loadClone(cloneId, testSetsRes)
+        return
+      }
+
+      applySelection(parseSelectionParams(initialParams))
+
       // Try to select "Authenticated Test Set" as the default, if it exists
       const defaultTestSet = testSetsRes.find(
         (ts: TestSetOption) => ts.name === 'Authenticated Test Set'
@@ -91,6 +219,14 @@ const CreateGeneration = () => {
     } finally {
       setLoading(false)
     }
+  }, [applySelection, loadClone])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const handleApplyPreset = (query: string) => {
+    applySelection(parseSelectionParams(new URLSearchParams(query)))
   }
 
   const handleSubmit = async () => {
@@ -135,6 +271,20 @@ const CreateGeneration = () => {
     }
   }
 
+  const handleCreate = () => {
+    if (estimate.totalRuns > confirmThreshold) {
+      setShowConfirmModal(true)
+    } else {
+      handleSubmit()
+    }
+  }
+
+  const handleConfirmThresholdChange = (value: string) => {
+    const threshold = Math.max(0, Math.floor(Number(value) || 0))
+    setConfirmThreshold(threshold)
+    localStorage.setItem(CONFIRM_THRESHOLD_STORAGE_KEY, threshold.toString())
+  }
+
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
   ) => {
@@ -165,6 +315,17 @@ const CreateGeneration = () => {
         </div>
       )}
 
+      {isClonePartial && (
+        <div className="mb-6 p-3 rounded-md bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300 flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            The cloned generation has more runs than could be loaded, so the
+            selection below may be missing some templates, prompts or models.
+            Check it before creating the generation.
+          </span>
+        </div>
+      )}
+
       <div className="space-y-6">
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
           <div className="space-y-4">
@@ -200,6 +361,26 @@ const CreateGeneration = () => {
         </div>
 
         <div className="space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Selection
+              </span>
+              <PinnedFilterPresets
+                filterPresets={selectionPresets}
+                searchParams={selectionParams}
+                onApply={handleApplyPreset}
+              />
+            </div>
+            <FilterPresetMenu
+              filterPresets={selectionPresets}
+              searchParams={selectionParams}
+              onApply={handleApplyPreset}
+              saveLabel="Save current selection"
+              emptyHint="Select templates, prompts or models to save them as a preset."
+            />
+          </div>
+
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Templates ({selectedTemplates.length} selected)
@@ -257,6 +438,9 @@ const CreateGeneration = () => {
                 {preset.label}
               </option>
             ))}
+            {!SAMPLE_PRESETS.some((preset) => preset.value === numSamples) && (
+              <option value={numSamples}>{numSamples} samples</option>
+            )}
           </select>
         </div>
 
@@ -306,6 +490,34 @@ const CreateGeneration = () => {
           )}
         </div>
 
+        {estimate.totalRuns > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+              <h2 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Summary
+              </h2>
+              <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                Confirm above
+                <input
+                  type="number"
+                  min={0}
+                  value={confirmThreshold}
+                  onChange={(e) => handleConfirmThresholdChange(e.target.value)}
+                  className="w-24 rounded-md border border-gray-300 dark:border-gray-700 px-2 py-1 dark:bg-gray-800 dark:text-gray-200"
+                />
+                runs
+              </label>
+            </div>
+            <GenerationSummary
+              estimate={estimate}
+              warnings={warnings}
+              numSamples={numSamples}
+              templateCount={selectedTemplates.length}
+              promptCount={selectedPrompts.length}
+            />
+          </div>
+        )}
+
         <div className="flex justify-end gap-4">
           <button
             type="button"
@@ -315,7 +527,7 @@ const CreateGeneration = () => {
             Cancel
           </button>
           <button
-            onClick={() => setShowConfirmModal(true)}
+            onClick={handleCreate}
             disabled={
               submitting ||
               !formData.name.trim() ||
@@ -336,12 +548,28 @@ const CreateGeneration = () => {
         onConfirm={handleSubmit}
         title="Confirm Generation Creation"
         isSubmitting={submitting}
-        numSamples={numSamples}
-        templateCount={selectedTemplates.length}
-        promptCount={selectedPrompts.length}
-        modelCount={selectedModels.length}
-        testSetName={selectedTestSet?.name}
-      />
+        confirmLabel="Create"
+      >
+        <div className="p-6 space-y-4">
+          <p className="text-gray-600 dark:text-gray-400 text-center">
+            This generation is larger than your confirmation threshold of{' '}
+            {confirmThreshold.toLocaleString()} runs.
+          </p>
+          <GenerationSummary
+            estimate={estimate}
+            warnings={warnings}
+            numSamples={numSamples}
+            templateCount={selectedTemplates.length}
+            promptCount={selectedPrompts.length}
+          />
+          {selectedTestSet && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 text-center">
+              Default test set:{' '}
+              <span className="font-medium">{selectedTestSet.name}</span>
+            </p>
+          )}
+        </div>
+      </ConfirmModal>
     </div>
   )
 }
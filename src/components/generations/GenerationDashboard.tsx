@@ -0,0 +1,479 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+
+import { format } from 'date-fns'
+import { ChevronDown, ChevronRight, Loader2, RefreshCw } from 'lucide-react'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+
+import { listAllRuns } from '../../api/runs'
+import { useTheme } from '../../hooks/useTheme'
+import { RunResponse } from '../../types/generations'
+import { THEME_MODES } from '../../types/theme'
+import {
+  FailureBreakdownRow,
+  HeatmapCell,
+  formatDuration,
+  getEstimatedCompletion,
+  getFailureBreakdown,
+  getHeatmapKey,
+  getRunOutcome,
+  getStageCounts,
+  getStatusHeatmap,
+  getThroughput,
+} from '../../utils/generationStats'
+
+// Stop paging past this many runs; the dashboard says when it's partial
+const MAX_RUN_PAGES = 20
+// Finished runs trigger at most one reload per interval
+const REFRESH_INTERVAL_MS = 15 * 1000
+const FAILURE_ROW_LIMIT = 5
+
+const CHART_COLORS = {
+  completed: '#10b981', // emerald-500
+  inProgress: '#3b82f6', // blue-500
+  failed: '#ef4444', // red-500
+}
+
+const formatStageName = (stage: string) =>
+  stage
+    .split('_')
+    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(' ')
+
+const getCellClasses = (cell: HeatmapCell | undefined) => {
+  if (!cell) return 'bg-gray-50 dark:bg-gray-900'
+  if (cell.failed > 0) return 'bg-red-400 dark:bg-red-600'
+  if (cell.inProgress > 0) return 'bg-blue-300 dark:bg-blue-600'
+  return 'bg-green-400 dark:bg-green-600'
+}
+
+const getCellTitle = (
+  model: string,
+  prompt: string,
+  cell: HeatmapCell | undefined
+) => {
+  if (!cell) return `${model} × ${prompt}: no runs`
+  return `${model} × ${prompt}: ${cell.completed} completed, ${cell.inProgress} in progress, ${cell.failed} failed`
+}
+
+const StatTile = ({
+  label,
+  value,
+  note,
+}: {
+  label: string
+  value: string | number
+  note?: string
+}) => (
+  <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-3">
+    <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+    <div className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+      {value}
+    </div>
+    {note && (
+      <div className="text-xs text-gray-500 dark:text-gray-400">{note}</div>
+    )}
+  </div>
+)
+
+const FailureTable = ({
+  title,
+  rows,
+}: {
+  title: string
+  rows: FailureBreakdownRow[]
+}) => (
+  <div>
+    <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+      {title}
+    </h4>
+    {rows.length === 0 ? (
+      <p className="text-sm text-gray-500 dark:text-gray-400">No failures</p>
+    ) : (
+      <table className="w-full text-sm">
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+          {rows.slice(0, FAILURE_ROW_LIMIT).map((row) => (
+            <tr key={row.key}>
+              <td
+                className="py-1 pr-2 truncate max-w-[10rem] text-gray-900 dark:text-gray-200"
+                title={row.label}
+              >
+                {row.label}
+              </td>
+              <td className="py-1 text-right whitespace-nowrap text-red-600 dark:text-red-400">
+                {row.failed} / {row.total}
+              </td>
+              <td className="py-1 pl-2 text-right whitespace-nowrap text-gray-500 dark:text-gray-400">
+                {Math.round((row.failed / row.total) * 100)}%
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+    {rows.length > FAILURE_ROW_LIMIT && (
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        +{rows.length - FAILURE_ROW_LIMIT} more
+      </p>
+    )}
+  </div>
+)
+
+interface GenerationDashboardProps {
+  generationId: string
+  // Changes whenever the generation has moved on and the stats should reload
+  refreshKey?: number
+}
+
+const GenerationDashboard = ({
+  generationId,
+  refreshKey,
+}: GenerationDashboardProps) => {
+  const { theme } = useTheme()
+  const isDarkMode = theme === THEME_MODES.DARK
+  const [isExpanded, setIsExpanded] = useState(true)
+  const [runs, setRuns] = useState<RunResponse[]>([])
+  const [isPartial, setIsPartial] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Only the most recent load may update state, so overlapping loads can't
+  // resolve out of order
+  const latestRequestRef = useRef(0)
+  const lastFetchRef = useRef(0)
+  const lastRefreshKeyRef = useRef(refreshKey)
+
+  const fetchAllRuns = useCallback(async () => {
+    const requestId = ++latestRequestRef.current
+    lastFetchRef.current = Date.now()
+    setLoading(true)
+    setError(null)
+    try {
+      const { runs: allRuns, hasMore } = await listAllRuns(
+        new URLSearchParams({ generation_id: generationId }),
+        MAX_RUN_PAGES
+      )
+      if (requestId !== latestRequestRef.current) return
+      setRuns(allRuns)
+      setIsPartial(hasMore)
+    } catch (err) {
+      if (requestId !== latestRequestRef.current) return
+      setError(err instanceof Error ? err.message : 'Failed to fetch runs')
+    } finally {
+      if (requestId === latestRequestRef.current) setLoading(false)
+    }
+  }, [generationId])
+
+  useEffect(() => {
+    if (isExpanded) fetchAllRuns()
+  }, [isExpanded, fetchAllRuns])
+
+  // Throttle reloads from refreshKey, which changes every time a run finishes
+  useEffect(() => {
+    if (!isExpanded || refreshKey === lastRefreshKeyRef.current) return
+
+    const wait = Math.max(
+      0,
+      lastFetchRef.current + REFRESH_INTERVAL_MS - Date.now()
+    )
+    const timer = setTimeout(() => {
+      lastRefreshKeyRef.current = refreshKey
+      fetchAllRuns()
+    }, wait)
+    return () => clearTimeout(timer)
+  }, [isExpanded, fetchAllRuns, refreshKey])
+
+  const stats = useMemo(() => {
+    const outcomes = runs.map(getRunOutcome)
+    return {
+      completed: outcomes.filter((outcome) => outcome === 'COMPLETED').length,
+      failed: outcomes.filter((outcome) => outcome === 'FAILED').length,
+      stageCounts: getStageCounts(runs).map((count) => ({
+        ...count,
+        name: formatStageName(count.stage),
+      })),
+      failuresByModel: getFailureBreakdown(runs, (run) => ({
+        key: run.model.id,
+        label: run.model.slug,
+      })),
+      failuresByTemplate: getFailureBreakdown(runs, (run) => ({
+        key: run.template.id,
+        label: run.template.name,
+      })),
+      failuresByPrompt: getFailureBreakdown(runs, (run) => ({
+        key: run.prompt.id,
+        label: run.prompt.name,
+      })),
+      throughput: getThroughput(runs),
+      eta: getEstimatedCompletion(runs),
+      heatmap: getStatusHeatmap(runs),
+    }
+  }, [runs])
+
+  const colors = {
+    grid: isDarkMode ? '#374151' : '#e5e7eb', // gray-700 / gray-200
+    axisLabel: isDarkMode ? '#ffffff' : '#374151',
+  }
+  const tooltipStyle = {
+    backgroundColor: isDarkMode ? '#1f2937' : '#ffffff',
+    borderColor: colors.grid,
+  }
+
+  const { eta, heatmap } = stats
+  const throughputSpan =
+    stats.throughput.length > 1
+      ? stats.throughput[1].time - stats.throughput[0].time
+      : 0
+  const formatThroughputTime = (time: number) =>
+    format(time, throughputSpan > 60 * 60 * 1000 ? 'MMM d' : 'MMM d HH:mm')
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="border-b dark:border-gray-700 p-4 flex justify-between items-center">
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-gray-100"
+        >
+          {isExpanded ? (
+            <ChevronDown className="h-5 w-5" />
+          ) : (
+            <ChevronRight className="h-5 w-5" />
+          )}
+          Dashboard
+        </button>
+        {isExpanded && (
+          <button
+            onClick={fetchAllRuns}
+            disabled={loading}
+            className="flex items-center gap-1 text-sm text-gray-600 hover:text-blue-800 dark:text-gray-400 dark:hover:text-blue-300 disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="p-4 space-y-6">
+          {error && (
+            <div className="text-red-500 dark:text-red-400">{error}</div>
+          )}
+          {loading && runs.length === 0 && (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin text-gray-500 dark:text-gray-400" />
+            </div>
+          )}
+
+          {runs.length > 0 && (
+            <>
+              {isPartial && (
+                <p className="text-sm text-amber-600 dark:text-amber-400">
+                  Showing stats for the first {runs.length} runs only.
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <StatTile label="Runs" value={runs.length} />
+                <StatTile label="Completed" value={stats.completed} />
+                <StatTile label="Failed" value={stats.failed} />
+                <StatTile label="Remaining" value={eta.remaining} />
+                <StatTile
+                  label="Estimated time left"
+                  value={
+                    eta.remaining === 0
+                      ? 'Done'
+                      : eta.etaMs === null
+                        ? '—'
+                        : formatDuration(eta.etaMs)
+                  }
+                  note={
+                    eta.etaMs !== null
+                      ? `around ${format(Date.now() + eta.etaMs, 'MMM d HH:mm')}`
+                      : undefined
+                  }
+                />
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Runs per stage
+                  </h3>
+                  <div className="h-64 w-full">
+                    <ResponsiveContainer width="99%" height="100%">
+                      <BarChart
+                        data={stats.stageCounts}
+                        layout="vertical"
+                        margin={{ top: 5, right: 20, left: 20, bottom: 5 }}
+                      >
+                        <CartesianGrid
+                          strokeDasharray="3 3"
+                          stroke={colors.grid}
+                        />
+                        <XAxis
+                          type="number"
+                          allowDecimals={false}
+                          tick={{ fill: colors.axisLabel, fontSize: 11 }}
+                        />
+                        <YAxis
+                          type="category"
+                          dataKey="name"
+                          width={110}
+                          tick={{ fill: colors.axisLabel, fontSize: 11 }}
+                        />
+                        <Tooltip contentStyle={tooltipStyle} />
+                        <Legend />
+                        <Bar
+                          dataKey="completed"
+                          name="Passed"
+                          stackId="stage"
+                          fill={CHART_COLORS.completed}
+                        />
+                        <Bar
+                          dataKey="inProgress"
+                          name="In stage now"
+                          stackId="stage"
+                          fill={CHART_COLORS.inProgress}
+                        />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Throughput
+                  </h3>
+                  {stats.throughput.length === 0 ? (
+                    <div className="h-64 flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+                      No runs have finished yet.
+                    </div>
+                  ) : (
+                    <div className="h-64 w-full">
+                      <ResponsiveContainer width="99%" height="100%">
+                        <BarChart
+                          data={stats.throughput}
+                          margin={{ top: 5, right: 20, left: 0, bottom: 5 }}
+                        >
+                          <CartesianGrid
+                            strokeDasharray="3 3"
+                            stroke={colors.grid}
+                          />
+                          <XAxis
+                            dataKey="time"
+                            tickFormatter={formatThroughputTime}
+                            tick={{ fill: colors.axisLabel, fontSize: 11 }}
+                          />
+                          <YAxis
+                            allowDecimals={false}
+                            tick={{ fill: colors.axisLabel, fontSize: 11 }}
+                          />
+                          <Tooltip
+                            contentStyle={tooltipStyle}
+                            labelFormatter={(time: number) =>
+                              formatThroughputTime(time)
+                            }
+                          />
+                          <Legend />
+                          <Bar
+                            dataKey="completed"
+                            name="Completed"
+                            stackId="finished"
+                            fill={CHART_COLORS.completed}
+                          />
+                          <Bar
+                            dataKey="failed"
+                            name="Failed"
+                            stackId="finished"
+                            fill={CHART_COLORS.failed}
+                          />
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Failures
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                  <FailureTable title="By model" rows={stats.failuresByModel} />
+                  <FailureTable
+                    title="By template"
+                    rows={stats.failuresByTemplate}
+                  />
+                  <FailureTable
+                    title="By prompt"
+                    rows={stats.failuresByPrompt}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Model × prompt status
+                  </h3>
+                  <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+                    <span className="flex items-center gap-1">
+                      <span className="h-3 w-3 rounded-sm bg-green-400 dark:bg-green-600" />
+                      Completed
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <span className="h-3 w-3 rounded-sm bg-blue-300 dark:bg-blue-600" />
+                      In progress
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <span className="h-3 w-3 rounded-sm bg-red-400 dark:bg-red-600" />
+                      Failed
+                    </span>
+                  </div>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="text-xs border-separate border-spacing-0.5">
+                    <tbody>
+                      {heatmap.models.map((model) => (
+                        <tr key={model.id}>
+                          <th className="pr-2 text-right font-normal whitespace-nowrap text-gray-700 dark:text-gray-300">
+                            {model.label}
+                          </th>
+                          {heatmap.prompts.map((prompt) => {
+                            const cell =
+                              heatmap.cells[getHeatmapKey(model.id, prompt.id)]
+                            return (
+                              <td
+                                key={prompt.id}
+                                title={getCellTitle(
+                                  model.label,
+                                  prompt.label,
+                                  cell
+                                )}
+                                className={`h-5 w-5 min-w-[1.25rem] rounded-sm ${getCellClasses(cell)}`}
+                              />
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default GenerationDashboard
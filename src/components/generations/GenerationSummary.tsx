@@ -0,0 +1,124 @@
+import { AlertTriangle } from 'lucide-react'
+
+import {
+  GenerationEstimate,
+  GenerationWarning,
+  formatCost,
+  formatTokenCount,
+} from '../../utils/generationEstimate'
+
+interface GenerationSummaryProps {
+  estimate: GenerationEstimate
+  warnings: GenerationWarning[]
+  numSamples: number
+  templateCount: number
+  promptCount: number
+}
+
+// Run count, token and cost estimate for a generation before it's created
+const GenerationSummary = ({
+  estimate,
+  warnings,
+  numSamples,
+  templateCount,
+  promptCount,
+}: GenerationSummaryProps) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-3 gap-4 text-center">
+      <div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">Runs</div>
+        <div className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+          {estimate.totalRuns.toLocaleString()}
+        </div>
+      </div>
+      <div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          Est. tokens (in / out)
+        </div>
+        <div className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+          {formatTokenCount(estimate.inputTokens)} /{' '}
+          {formatTokenCount(estimate.outputTokens)}
+        </div>
+      </div>
+      <div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          Est. cost
+        </div>
+        <div className="text-xl font-semibold text-gray-900 dark:text-gray-100">
+          {formatCost(estimate.cost)}
+          {estimate.unpricedModels.length > 0 && '+'}
+        </div>
+      </div>
+    </div>
+
+    <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
+      {templateCount} templates × {promptCount} prompts ×{' '}
+      {estimate.models.length} models × {numSamples} samples
+    </p>
+
+    {estimate.models.length > 0 && (
+      <div className="max-h-48 overflow-y-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+              <th className="py-1 font-medium">Model</th>
+              <th className="py-1 font-medium text-right">Runs</th>
+              <th className="py-1 font-medium text-right">Tokens</th>
+              <th className="py-1 font-medium text-right">Cost</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+            {estimate.models.map((modelEstimate) => (
+              <tr key={modelEstimate.model.id}>
+                <td
+                  className="py-1 pr-2 truncate max-w-[10rem] text-gray-900 dark:text-gray-200"
+                  title={modelEstimate.providerName ?? undefined}
+                >
+                  {modelEstimate.model.slug}
+                </td>
+                <td className="py-1 text-right text-gray-700 dark:text-gray-300">
+                  {modelEstimate.runs.toLocaleString()}
+                </td>
+                <td className="py-1 text-right text-gray-700 dark:text-gray-300">
+                  {formatTokenCount(
+                    modelEstimate.inputTokens + modelEstimate.outputTokens
+                  )}
+                </td>
+                <td className="py-1 text-right text-gray-700 dark:text-gray-300">
+                  {modelEstimate.cost === null
+                    ? 'No pricing'
+                    : formatCost(modelEstimate.cost)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+
+    {estimate.unpricedModels.length > 0 && (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Cost excludes models whose provider config has no pricing.
+      </p>
+    )}
+
+    {warnings.length > 0 && (
+      <div className="p-3 rounded-md bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300">
+        <div className="flex items-center gap-2 font-medium mb-1">
+          <AlertTriangle className="h-4 w-4" />
+          Check these selections
+        </div>
+        <ul className="list-disc pl-6 space-y-0.5">
+          {warnings.map((warning) => (
+            <li key={`${warning.kind}-${warning.name}`}>
+              {warning.kind} <span className="font-medium">{warning.name}</span>{' '}
+              is {warning.reason}
+            </li>
+          ))}
+        </ul>
+      </div>
+    )}
+  </div>
+)
+
+export default GenerationSummary
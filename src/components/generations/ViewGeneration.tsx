@@ -1,4 +1,4 @@
-import { useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { Link, useParams } from 'react-router-dom'
 
 import {
@@ -9,6 +9,7 @@ import {
   ChevronDown,
   ChevronRight,
   Clock,
+  Copy,
   ExternalLink,
   Loader2,
   Terminal,
@@ -16,11 +17,22 @@ import {
 } from 'lucide-react'
 
 import { adminAPI } from '../../api/client'
+import { isRunStatusFinal, withRunStatus } from '../../api/runStatus'
+import { useAuth } from '../../hooks/useAuth'
+import { useRunStatuses } from '../../hooks/useRunStatus'
+import { useSelection } from '../../hooks/useSelection'
 import {
   GenerationResponseWithRuns,
   RunResponse,
 } from '../../types/generations'
+import { getStageIndex } from '../../utils/generationStats'
+import { hasGenerationWriteAccess } from '../../utils/permissions'
+import BulkRetryRuns, { RetryRunCheckbox } from '../runs/BulkRetryRuns'
 import { RunResources } from '../ui/RunResources'
+import GenerationDashboard from './GenerationDashboard'
+
+// Slow refresh of the generation summary while it is still running
+const GENERATION_POLL_INTERVAL_MS = 15 * 1000
 
 type RunPaging = {
   page: number
@@ -114,6 +126,8 @@ const StatusFilterDropdown = ({
 
 const ViewGeneration = () => {
   const { id } = useParams()
+  const { user } = useAuth()
+  const canCreateGeneration = hasGenerationWriteAccess(user?.scopes || [])
   const [generation, setGeneration] =
     useState<GenerationResponseWithRuns | null>(null)
   const [expandedRuns, setExpandedRuns] = useState<Set<string>>(new Set())
@@ -130,24 +144,13 @@ const ViewGeneration = () => {
   const [currentRunPage, setCurrentRunPage] = useState(1)
   const [loadingRuns, setLoadingRuns] = useState(false)
   const [runError, setRunError] = useState<string | null>(null)
+  const {
+    selectedIds: selectedRunIds,
+    setSelectedIds: setSelectedRunIds,
+    toggleSelected: toggleSelectedRun,
+  } = useSelection()
 
-  const STAGE_SORT_ORDER = [
-    'PROMPT_EXECUTION',
-    'RESPONSE_PARSING',
-    'CODE_VALIDATION',
-    'BUILDING',
-    'RENDERING_SAMPLE',
-    'EXPORTING_CONTENT',
-    'POST_PROCESSING',
-    'PREPARING_SAMPLE',
-  ]
-
-  const getStageIndex = (stage: string | null | undefined) => {
-    if (!stage) return -1
-    return STAGE_SORT_ORDER.indexOf(stage)
-  }
-
-  const fetchGeneration = async () => {
+  const fetchGeneration = useCallback(async () => {
     try {
       const { data } = await adminAPI.get(`/generation/${id}`)
       setGeneration(data)
@@ -156,7 +159,7 @@ const ViewGeneration = () => {
         err instanceof Error ? err.message : 'Failed to fetch generation'
       )
     }
-  }
+  }, [id])
 
   const fetchRuns = async (page: number) => {
     if (!id) return
@@ -192,14 +195,40 @@ const ViewGeneration = () => {
   }
 
   useEffect(() => {
-    fetchGeneration()
     fetchRuns(currentRunPage)
-    const interval = setInterval(fetchGeneration, 5000)
-    return () => {
-      clearInterval(interval)
-    }
+    setSelectedRunIds(new Set())
   }, [id, currentRunPage, statusFilter])
 
+  // Follow the runs on this page that can still change
+  const liveStatuses = useRunStatuses(
+    runs.filter((run) => !isRunStatusFinal(run.status)).map((run) => run.id)
+  )
+  const liveRuns = runs.map((run) => withRunStatus(run, liveStatuses[run.id]))
+  const finishedRunCount = liveRuns.filter((run) =>
+    isRunStatusFinal(run.status)
+  ).length
+
+  // Refresh the summary straight away when a run on this page finishes
+  useEffect(() => {
+    fetchGeneration()
+  }, [fetchGeneration, finishedRunCount])
+
+  // Runs on other pages or hidden by the status filter move the summary on
+  // too, so keep polling it until the generation itself is done
+  const generationStatus = generation?.status
+  useEffect(() => {
+    if (!generationStatus || isRunStatusFinal(generationStatus)) return
+
+    const interval = setInterval(fetchGeneration, GENERATION_POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchGeneration, generationStatus])
+
+  // Keep failures selected for another attempt and refresh the runs
+  const handleBulkRetryComplete = (failedIds: string[]) => {
+    setSelectedRunIds(new Set(failedIds))
+    fetchRuns(currentRunPage)
+  }
+
   const toggleRun = (runId: string) => {
     setExpandedRuns((prev) => {
       const next = new Set(prev)
@@ -256,9 +285,20 @@ const ViewGeneration = () => {
       <div className="flex flex-col gap-6">
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
           <div className="p-6">
-            <h1 className="text-2xl font-bold mb-2 text-gray-900 dark:text-gray-100">
-              {generation.name}
-            </h1>
+            <div className="flex items-start justify-between gap-4 mb-2">
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+                {generation.name}
+              </h1>
+              {canCreateGeneration && (
+                <Link
+                  to={`/generations/new?clone=${generation.id}`}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 whitespace-nowrap"
+                >
+                  <Copy className="h-4 w-4" />
+                  Clone generation
+                </Link>
+              )}
+            </div>
             {generation.description && (
               <p className="text-gray-600 dark:text-gray-300 mb-4">
                 {generation.description}
@@ -329,6 +369,13 @@ const ViewGeneration = () => {
           </div>
         </div>
 
+        {id && (
+          <GenerationDashboard
+            generationId={id}
+            refreshKey={finishedRunCount}
+          />
+        )}
+
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
           <div className="border-b dark:border-gray-700 p-4">
             <div className="flex justify-between items-center">
@@ -362,6 +409,17 @@ const ViewGeneration = () => {
               </div>
             </div>
           </div>
+          <div className="px-4 pt-4">
+            <BulkRetryRuns
+              runs={liveRuns}
+              selectedIds={selectedRunIds}
+              getFilterParams={() =>
+                new URLSearchParams({ generation_id: id || '' })
+              }
+              onClearSelection={() => setSelectedRunIds(new Set())}
+              onComplete={handleBulkRetryComplete}
+            />
+          </div>
           <div className="divide-y dark:divide-gray-700">
             {loadingRuns ? (
               <div className="flex justify-center items-center p-8">
@@ -373,9 +431,14 @@ const ViewGeneration = () => {
               </div>
             ) : (
               <>
-                {sortRuns(runs).map((run) => (
+                {sortRuns(liveRuns).map((run) => (
                   <div key={run.id} className="p-4">
                     <div className="flex items-center justify-between mb-2">
+                      <RetryRunCheckbox
+                        run={run}
+                        checked={selectedRunIds.has(run.id)}
+                        onToggle={() => toggleSelectedRun(run.id)}
+                      />
                       <div
                         className="flex items-center cursor-pointer flex-1"
                         onClick={() => toggleRun(run.id)}
@@ -450,6 +513,7 @@ const ViewGeneration = () => {
                         <RunResources
                           model={run.model}
                           template={run.template}
+                          templateVersion={run.templateVersion}
                           prompt={run.prompt}
                           isExpanded={true}
                           onToggle={() => {}}
@@ -0,0 +1,66 @@
+import {
+  DateRange,
+  formatDateParam,
+  getDefaultDateRange,
+} from '../../utils/dates'
+
+const PRESETS = [
+  { label: '30d', days: 30 },
+  { label: '90d', days: 90 },
+  { label: '1y', days: 365 },
+]
+
+interface DateRangePickerProps {
+  value: DateRange
+  onChange: (range: DateRange) => void
+  className?: string
+}
+
+export const DateRangePicker = ({
+  value,
+  onChange,
+  className = '',
+}: DateRangePickerProps) => {
+  const inputClassName =
+    'px-2 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md text-sm text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      <input
+        type="date"
+        value={value.startDate}
+        max={value.endDate}
+        onChange={(e) =>
+          e.target.value && onChange({ ...value, startDate: e.target.value })
+        }
+        className={inputClassName}
+        aria-label="Start date"
+      />
+      <span className="text-sm text-gray-500 dark:text-gray-400">to</span>
+      <input
+        type="date"
+        value={value.endDate}
+        min={value.startDate}
+        max={formatDateParam(new Date())}
+        onChange={(e) =>
+          e.target.value && onChange({ ...value, endDate: e.target.value })
+        }
+        className={inputClassName}
+        aria-label="End date"
+      />
+      <div className="flex gap-1">
+        {PRESETS.map((preset) => (
+          <button
+            key={preset.label}
+            onClick={() => onChange(getDefaultDateRange(preset.days))}
+            className="px-2 py-1 text-xs rounded-md bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default DateRangePicker
@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react'
+
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts'
+
+import { useTheme } from '../../hooks/useTheme'
+import { LeaderboardHistorySeries } from '../../types/leaderboard'
+
+interface EloHistoryChartProps {
+  series: LeaderboardHistorySeries[]
+  // Marks the pinned snapshot date, if any
+  asOf?: string | null
+}
+
+type HistoryMetric = 'eloScore' | 'voteCount'
+
+const METRIC_LABELS: Record<HistoryMetric, string> = {
+  eloScore: 'ELO',
+  voteCount: 'Votes',
+}
+
+// Tailwind 500/400 shades, distinguishable in both themes
+const LINE_COLORS = [
+  '#3b82f6', // blue
+  '#ef4444', // red
+  '#10b981', // emerald
+  '#f59e0b', // amber
+  '#8b5cf6', // violet
+  '#ec4899', // pink
+  '#14b8a6', // teal
+  '#f97316', // orange
+  '#6366f1', // indigo
+  '#84cc16', // lime
+]
+
+export const EloHistoryChart: React.FC<EloHistoryChartProps> = ({
+  series,
+  asOf,
+}) => {
+  const { theme } = useTheme()
+  const isDarkMode = theme === 'dark'
+  const [metric, setMetric] = useState<HistoryMetric>('eloScore')
+
+  // One row per date with a column per model slug
+  const data = useMemo(() => {
+    const rows = new Map<string, Record<string, string | number>>()
+    series.forEach(({ model, points }) => {
+      points.forEach((point) => {
+        if (!rows.has(point.date)) rows.set(point.date, { date: point.date })
+        rows.get(point.date)![model.slug] = point[metric]
+      })
+    })
+    return Array.from(rows.values()).sort((a, b) =>
+      String(a.date).localeCompare(String(b.date))
+    )
+  }, [series, metric])
+
+  const colors = {
+    grid: isDarkMode ? '#374151' : '#e5e7eb', // gray-700 / gray-200
+    axisLabel: isDarkMode ? '#ffffff' : '#374151',
+    asOf: isDarkMode ? '#fbbf24' : '#d97706', // amber-400 / amber-600
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-1 sm:p-4">
+      <div className="flex justify-end gap-1 mb-2">
+        {(Object.keys(METRIC_LABELS) as HistoryMetric[]).map((key) => (
+          <button
+            key={key}
+            onClick={() => setMetric(key)}
+            className={`px-3 py-1 text-xs rounded-md ${
+              metric === key
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
+            }`}
+          >
+            {METRIC_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {data.length === 0 ? (
+        <div className="h-40 flex items-center justify-center text-gray-500 dark:text-gray-400">
+          No history for the selected range.
+        </div>
+      ) : (
+        <div className="h-80 w-full">
+          <ResponsiveContainer width="99%" height="100%">
+            <LineChart
+              data={data}
+              margin={{ top: 10, right: 30, left: 10, bottom: 10 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
+              <XAxis
+                dataKey="date"
+                tick={{ fill: colors.axisLabel, fontSize: 11 }}
+                axisLine={{ stroke: colors.grid }}
+                tickLine={{ stroke: colors.grid }}
+              />
+              <YAxis
+                domain={['auto', 'auto']}
+                tick={{ fill: colors.axisLabel, fontSize: 11 }}
+                axisLine={{ stroke: colors.grid }}
+                tickLine={{ stroke: colors.grid }}
+                allowDecimals={false}
+                tickFormatter={(value: number) =>
+                  Math.round(value).toLocaleString()
+                }
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: isDarkMode ? '#1f2937' : '#ffffff',
+                  borderColor: colors.grid,
+                }}
+                formatter={(value: number) =>
+                  Math.round(value).toLocaleString()
+                }
+              />
+              <Legend />
+              {asOf && (
+                <ReferenceLine
+                  x={asOf}
+                  stroke={colors.asOf}
+                  strokeDasharray="4 4"
+                  label={{ value: 'Snapshot', fill: colors.asOf, fontSize: 11 }}
+                />
+              )}
+              {series.map(({ model }, index) => (
+                <Line
+                  key={model.slug}
+                  type="monotone"
+                  dataKey={model.slug}
+                  name={model.name}
+                  stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls={true}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default EloHistoryChart
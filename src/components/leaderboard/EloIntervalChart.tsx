@@ -0,0 +1,192 @@
+import React, { useMemo } from 'react'
+
+import {
+  CartesianGrid,
+  ComposedChart,
+  ErrorBar,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  TooltipProps,
+  XAxis,
+  YAxis,
+} from 'recharts'
+
+import { useTheme } from '../../hooks/useTheme'
+import { LeaderboardEntry } from '../../types/leaderboard'
+import {
+  formatRankRange,
+  getEloConfidenceInterval,
+  getRankRanges,
+} from '../../utils/elo'
+
+interface EloIntervalChartProps {
+  entries: LeaderboardEntry[]
+  highlightSlug?: string
+}
+
+interface IntervalPoint {
+  name: string
+  slug: string
+  eloScore: number
+  lower: number
+  upper: number
+  error: [number, number]
+  rankRange: string
+  voteCount: number
+}
+
+interface DotProps {
+  cx?: number
+  cy?: number
+  payload: IntervalPoint
+}
+
+const CustomTooltip = ({ active, payload }: TooltipProps<number, string>) => {
+  if (active && payload && payload.length) {
+    const data: IntervalPoint = payload[0].payload
+
+    return (
+      <div className="bg-white dark:bg-gray-800 p-3 border border-gray-200 dark:border-gray-700 rounded shadow-lg">
+        <p className="font-medium text-gray-900 dark:text-white">{data.name}</p>
+        <p className="text-sm text-blue-600 dark:text-blue-200">
+          ELO: {Math.round(data.eloScore)}
+        </p>
+        <p className="text-sm text-gray-700 dark:text-gray-100">
+          95% CI: {Math.round(data.lower)} – {Math.round(data.upper)}
+        </p>
+        <p className="text-sm text-gray-700 dark:text-gray-100">
+          Rank range: {data.rankRange}
+        </p>
+        <p className="text-sm text-gray-700 dark:text-gray-100">
+          Votes: {data.voteCount.toLocaleString()}
+        </p>
+      </div>
+    )
+  }
+
+  return null
+}
+
+export const EloIntervalChart: React.FC<EloIntervalChartProps> = ({
+  entries,
+  highlightSlug,
+}) => {
+  const { theme } = useTheme()
+  const isDarkMode = theme === 'dark'
+
+  const data = useMemo(() => {
+    const intervals = entries.map(getEloConfidenceInterval)
+    const rankRanges = getRankRanges(intervals)
+
+    return entries.flatMap((entry, index): IntervalPoint[] => {
+      const interval = intervals[index]
+      if (!interval) return []
+
+      return [
+        {
+          name: entry.model.name,
+          slug: entry.model.slug,
+          eloScore: entry.eloScore,
+          lower: interval.lower,
+          upper: interval.upper,
+          error: [
+            entry.eloScore - interval.lower,
+            interval.upper - entry.eloScore,
+          ],
+          rankRange: formatRankRange(rankRanges[index]),
+          voteCount: entry.voteCount,
+        },
+      ]
+    })
+  }, [entries])
+
+  const colors = {
+    point: isDarkMode ? '#60a5fa' : '#2563eb', // blue-400 / blue-600
+    highlight: isDarkMode ? '#f87171' : '#dc2626', // red-400 / red-600
+    errorBar: isDarkMode ? '#9ca3af' : '#6b7280', // gray-400 / gray-500
+    grid: isDarkMode ? '#374151' : '#e5e7eb', // gray-700 / gray-200
+    axisLabel: isDarkMode ? '#ffffff' : '#374151',
+  }
+
+  if (data.length === 0) return null
+
+  // Give every model a readable row
+  const height = Math.max(200, data.length * 28 + 60)
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-1 sm:p-4">
+      <div className="w-full" style={{ height }}>
+        <ResponsiveContainer width="99%" height="100%">
+          <ComposedChart
+            data={data}
+            layout="vertical"
+            margin={{ top: 10, right: 30, left: 10, bottom: 20 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke={colors.grid} />
+            <XAxis
+              type="number"
+              domain={['auto', 'auto']}
+              tick={{ fill: colors.axisLabel, fontSize: 11 }}
+              axisLine={{ stroke: colors.grid }}
+              tickLine={{ stroke: colors.grid }}
+              tickFormatter={(value: number) => `${Math.round(value)}`}
+            />
+            <YAxis
+              type="category"
+              dataKey="name"
+              width={160}
+              tick={{ fill: colors.axisLabel, fontSize: 11 }}
+              axisLine={{ stroke: colors.grid }}
+              tickLine={{ stroke: colors.grid }}
+              interval={0}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Line
+              dataKey="eloScore"
+              name="ELO Score"
+              stroke="none"
+              isAnimationActive={false}
+              dot={(props: DotProps) => (
+                <circle
+                  key={props.payload.slug}
+                  cx={props.cx}
+                  cy={props.cy}
+                  r={5}
+                  fill={
+                    props.payload.slug === highlightSlug
+                      ? colors.highlight
+                      : colors.point
+                  }
+                />
+              )}
+              activeDot={false}
+            >
+              <ErrorBar
+                dataKey="error"
+                width={6}
+                strokeWidth={2}
+                stroke={colors.errorBar}
+              />
+            </Line>
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-700 rounded text-sm text-gray-700 dark:text-white">
+        <p>
+          Dots mark each model's ELO score and bars its 95% confidence interval.
+          Models whose bars overlap can't be reliably told apart, which is what
+          the rank range reflects.
+        </p>
+        <p className="mt-2 text-gray-500 dark:text-gray-300">
+          Where the API doesn't supply an interval it is approximated from the
+          model's win/loss/tie record (a normal approximation with a small
+          prior, not a bootstrap), so models with few votes get wide bars.
+        </p>
+      </div>
+    </div>
+  )
+}
+
+export default EloIntervalChart
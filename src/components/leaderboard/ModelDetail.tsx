@@ -1,79 +1,102 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { Link, useSearchParams } from 'react-router-dom'
 
 import { ArrowLeft, BarChart3, ChevronRight, MessageSquare } from 'lucide-react'
 
-import { getModelStatistics, getTags } from '../../api/leaderboard'
-import { ModelStatisticsResponse, TagOption } from '../../types/leaderboard'
+import {
+  getLeaderboard,
+  getLeaderboardHistory,
+  getModelStatistics,
+  getTags,
+} from '../../api/leaderboard'
+import {
+  LeaderboardEntry,
+  LeaderboardHistorySeries,
+  ModelStatisticsResponse,
+  TagOption,
+} from '../../types/leaderboard'
+import { DateRange, getDefaultDateRange } from '../../utils/dates'
+import {
+  estimateEloConfidenceInterval,
+  formatRankRange,
+  getEloConfidenceInterval,
+  getRankRanges,
+} from '../../utils/elo'
+import { ExportFormat, exportRows } from '../../utils/export'
+import {
+  DEFAULT_METRIC_NAME,
+  DEFAULT_TEST_SET_NAME,
+  LEADERBOARD_LIMIT,
+  parseMinVotes,
+  parseSortDirection,
+  parseSortField,
+  withParams,
+} from '../../utils/leaderboardParams'
+import ExportMenu from '../ui/ExportMenu'
 import BucketChart from './BucketChart'
+import DateRangePicker from './DateRangePicker'
+import EloHistoryChart from './EloHistoryChart'
+import EloIntervalChart from './EloIntervalChart'
 import PromptLeaderboard from './PromptLeaderboard'
 import { TagSelector } from './selectors'
 
+const SAMPLE_SORT_FIELDS = [
+  'promptName',
+  'eloScore',
+  'winRate',
+  'voteCount',
+] as const
+type SampleSortField = (typeof SAMPLE_SORT_FIELDS)[number]
+
+type ModelDetailTab = 'performance' | 'prompts'
+
 const ModelDetail = () => {
   const [searchParams, setSearchParams] = useSearchParams()
 
   // Get model slug from URL
   const modelSlug = searchParams.get('modelSlug') || undefined
 
-  // Get tag name from URL
-  const tagNameFromURL = searchParams.get('tagName') || undefined
+  // Filters, tab and sort order all live in the URL so the view can be
+  // shared and restored with back/forward
+  const metricName = searchParams.get('metricName') || DEFAULT_METRIC_NAME
+  const testSetName = searchParams.get('testSetName') || DEFAULT_TEST_SET_NAME
+  const currentTagName = searchParams.get('tagName')
+  const minVotes = parseMinVotes(searchParams.get('minVotes'))
+  const activeTab: ModelDetailTab =
+    searchParams.get('tab') === 'prompts' ? 'prompts' : 'performance'
+  const sortField = parseSortField(
+    searchParams.get('sort'),
+    SAMPLE_SORT_FIELDS,
+    'eloScore'
+  )
+  const sortDirection = parseSortDirection(
+    searchParams.get('order'),
+    sortField === 'promptName' ? 'asc' : 'desc'
+  )
 
-  // Get metric name from URL
-  const metricNameFromURL = searchParams.get('metricName') || undefined
+  // Snapshot date pinned on the leaderboard, if any
+  const asOf = searchParams.get('asOf')
 
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [stats, setStats] = useState<ModelStatisticsResponse | null>(null)
-  const [metricName, setMetricName] = useState<string | null>(null)
-  const [testSetName, setTestSetName] = useState<string | null>(null)
   const [tags, setTags] = useState<TagOption[]>([])
-  const [currentTagId, setCurrentTagId] = useState<string | null>(null)
-  const [currentTagName, setCurrentTagName] = useState<string | null>(null)
-
-  // UI state for tab selection
-  const [activeTab, setActiveTab] = useState<'performance' | 'prompts'>(
-    'performance'
+  // The rest of the leaderboard, to place this model's interval among its peers
+  const [peers, setPeers] = useState<LeaderboardEntry[]>([])
+  const [historyRange, setHistoryRange] = useState<DateRange>(() =>
+    getDefaultDateRange()
   )
+  const [history, setHistory] = useState<LeaderboardHistorySeries[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
 
-  // Sorting state for top samples
-  const [sortField, setSortField] = useState<
-    'promptName' | 'eloScore' | 'winRate' | 'voteCount'
-  >('eloScore')
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc')
+  const currentTagId = tags.find((t) => t.name === currentTagName)?.id || null
 
-  // First, load tags and get metric/test set names from URL
+  // Load tags for the tag selector
   useEffect(() => {
     const loadMetadata = async () => {
       try {
-        // Get tags data for the tag selector
         const tagsData = await getTags()
         setTags(tagsData)
-
-        // Set metric name from URL or use default
-        if (metricNameFromURL) {
-          setMetricName(metricNameFromURL)
-        } else {
-          setMetricName('UNQUALIFIED_BETTER') // Default metric
-        }
-
-        // Set test set name from URL or use default
-        const testSetNameParam = searchParams.get('testSetName')
-        if (testSetNameParam) {
-          setTestSetName(testSetNameParam)
-        } else {
-          setTestSetName('Authenticated Test Set') // Default test set
-        }
-
-        // Handle tag name in URL if present
-        if (tagNameFromURL) {
-          const tagByName = tagsData.find(
-            (t: TagOption) => t.name === tagNameFromURL
-          )
-          if (tagByName) {
-            setCurrentTagId(tagByName.id)
-            setCurrentTagName(tagNameFromURL)
-          }
-        }
       } catch (err) {
         console.error('Error loading metadata:', err)
         setError('Failed to load tags and options.')
@@ -87,7 +110,7 @@ const ModelDetail = () => {
 
   // Then, load the model stats once we have the metric and test set names
   useEffect(() => {
-    if (!modelSlug || !metricName || !testSetName) {
+    if (!modelSlug) {
       return
     }
 
@@ -98,7 +121,8 @@ const ModelDetail = () => {
           metricName,
           testSetName,
           modelSlug,
-          currentTagName || undefined
+          currentTagName || undefined,
+          asOf || undefined
         )
         setStats(data)
         setError(null)
@@ -111,93 +135,156 @@ const ModelDetail = () => {
     }
 
     loadModelStats()
-  }, [modelSlug, metricName, testSetName, currentTagName])
-
-  // Construct back link with all relevant parameters
-  const backToLeaderboard = () => {
-    const params = new URLSearchParams()
+  }, [modelSlug, metricName, testSetName, currentTagName, asOf])
 
-    // Add tag name if available
-    if (currentTagName) {
-      params.set('tagName', currentTagName)
+  useEffect(() => {
+    const loadPeers = async () => {
+      try {
+        const data = await getLeaderboard(
+          metricName,
+          testSetName,
+          currentTagName || undefined,
+          LEADERBOARD_LIMIT,
+          minVotes,
+          asOf || undefined
+        )
+        setPeers(data.entries || [])
+      } catch (err) {
+        console.error('Error loading leaderboard for rank range:', err)
+        setPeers([])
+      }
     }
 
-    // Add metric and test set names as query parameters
-    if (metricName) {
-      params.set('metricName', metricName)
+    loadPeers()
+  }, [metricName, testSetName, currentTagName, minVotes, asOf])
+
+  useEffect(() => {
+    if (!modelSlug) {
+      return
     }
 
-    if (testSetName) {
-      params.set('testSetName', testSetName)
+    const loadHistory = async () => {
+      setHistoryLoading(true)
+      try {
+        const data = await getLeaderboardHistory(
+          metricName,
+          testSetName,
+          currentTagName || undefined,
+          historyRange.startDate,
+          historyRange.endDate,
+          [modelSlug]
+        )
+        setHistory(data.series || [])
+      } catch (err) {
+        console.error('Error loading model history:', err)
+        setHistory([])
+      } finally {
+        setHistoryLoading(false)
+      }
     }
 
+    loadHistory()
+  }, [modelSlug, metricName, testSetName, currentTagName, historyRange])
+
+  const eloInterval = stats?.globalStats
+    ? (stats.globalStats.eloConfidenceInterval ??
+      estimateEloConfidenceInterval(
+        stats.globalStats.avgElo,
+        stats.globalStats.totalWins,
+        stats.globalStats.totalLosses,
+        stats.globalStats.totalTies
+      ))
+    : null
+
+  const rankRange = useMemo(() => {
+    const index = peers.findIndex((entry) => entry.model.slug === modelSlug)
+    if (index === -1) return null
+    return getRankRanges(peers.map(getEloConfidenceInterval))[index]
+  }, [peers, modelSlug])
+
+  const handleExportBuckets = (format: ExportFormat) => {
+    if (!stats?.bucketStats) return
+
+    exportRows(
+      `bucket-stats-${stats.model.slug}`,
+      stats.bucketStats,
+      [
+        { header: 'bucket', value: (bucket) => bucket.bucket },
+        { header: 'sampleCount', value: (bucket) => bucket.sampleCount },
+        { header: 'avgElo', value: (bucket) => bucket.avgElo },
+        { header: 'winRate', value: (bucket) => bucket.winRate },
+        { header: 'totalVotes', value: (bucket) => bucket.totalVotes },
+        { header: 'totalWins', value: (bucket) => bucket.totalWins },
+        { header: 'totalLosses', value: (bucket) => bucket.totalLosses },
+        { header: 'totalTies', value: (bucket) => bucket.totalTies },
+      ],
+      {
+        metricName,
+        testSetName,
+        tagName: currentTagName,
+        minVotes,
+        asOf,
+        modelSlug: stats.model.slug,
+      },
+      format
+    )
+  }
+
+  // Back to the leaderboard with the same filters; the tab and sort order
+  // only apply on this page
+  const backToLeaderboard = () => {
+    const params = withParams(searchParams, {
+      modelSlug: null,
+      tab: null,
+      sort: null,
+      order: null,
+      promptSort: null,
+      promptOrder: null,
+    })
+
     const paramString = params.toString()
     return `/leaderboard${paramString ? `?${paramString}` : ''}`
   }
 
+  const updateParams = (
+    updates: Record<string, string | number | null | undefined>
+  ) => {
+    setSearchParams(withParams(searchParams, updates))
+  }
+
   // Handle tag selection change
   const handleTagChange = (newTagId: string) => {
-    setCurrentTagId(newTagId || null)
-
-    // Update URL parameters
-    const newParams = new URLSearchParams(searchParams)
-    if (newTagId) {
-      // Find tag name for the URL
-      const selectedTagObj = tags.find((t) => t.id === newTagId)
-      if (selectedTagObj) {
-        setCurrentTagName(selectedTagObj.name)
-        newParams.set('tagName', selectedTagObj.name)
-      }
-    } else {
-      setCurrentTagName(null)
-      newParams.delete('tagName')
-    }
-
-    // Keep existing parameters
-    if (metricName) {
-      newParams.set('metricName', metricName)
-    }
-
-    if (testSetName) {
-      newParams.set('testSetName', testSetName)
-    }
-
-    setSearchParams(newParams)
+    updateParams({ tagName: tags.find((t) => t.id === newTagId)?.name })
   }
 
   // Reset tag filter
   const resetTagFilter = () => {
-    setCurrentTagId(null)
-    setCurrentTagName(null)
-
-    // Update URL by removing tag parameter
-    const newParams = new URLSearchParams(searchParams)
-    newParams.delete('tagName')
-
-    // Keep existing parameters
-    if (metricName) {
-      newParams.set('metricName', metricName)
-    }
-
-    if (testSetName) {
-      newParams.set('testSetName', testSetName)
-    }
+    updateParams({ tagName: null })
+  }
 
-    setSearchParams(newParams)
+  const handleTabChange = (tab: ModelDetailTab) => {
+    updateParams({ tab: tab === 'performance' ? null : tab })
   }
 
   // Handle sorting for top samples
-  const handleSortChange = (
-    field: 'promptName' | 'eloScore' | 'winRate' | 'voteCount'
-  ) => {
-    if (sortField === field) {
-      // If already sorting by this field, toggle direction
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')
-    } else {
-      // Otherwise, set the new field and default to descending for numerical values, ascending for text
-      setSortField(field)
-      setSortDirection(field === 'promptName' ? 'asc' : 'desc')
-    }
+  const handleSortChange = (field: SampleSortField) => {
+    // Toggle direction on the current field, otherwise default to descending
+    // for numerical values, ascending for text
+    const direction =
+      sortField === field
+        ? sortDirection === 'asc'
+          ? 'desc'
+          : 'asc'
+        : field === 'promptName'
+          ? 'asc'
+          : 'desc'
+
+    // Keep the default order out of the URL
+    const isDefault = field === 'eloScore' && direction === 'desc'
+    updateParams({
+      sort: isDefault ? null : field,
+      order: isDefault ? null : direction,
+    })
   }
 
   // Sort top samples based on current sort state
@@ -288,6 +375,11 @@ const ModelDetail = () => {
                 </h1>
                 <p className="text-gray-500 dark:text-gray-400 mt-2">
                   Performance statistics across {stats.sampleCount || 0} samples
+                  {asOf && (
+                    <span className="ml-2 text-amber-600 dark:text-amber-400">
+                      Snapshot as of {asOf}
+                    </span>
+                  )}
                 </p>
               </div>
 
@@ -328,6 +420,13 @@ const ModelDetail = () => {
                   ? Math.round(stats.globalStats.avgElo)
                   : 'N/A'}
               </div>
+              {eloInterval && (
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                  95% CI: {Math.round(eloInterval.lower)}–
+                  {Math.round(eloInterval.upper)}
+                  {rankRange && <> · Rank {formatRankRange(rankRange)}</>}
+                </p>
+              )}
             </div>
 
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
@@ -368,7 +467,7 @@ const ModelDetail = () => {
                       ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400 dark:border-blue-400 font-medium'
                       : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
                   }`}
-                  onClick={() => setActiveTab('performance')}
+                  onClick={() => handleTabChange('performance')}
                 >
                   <BarChart3 className="mr-2 h-5 w-5" />
                   Performance Distribution
@@ -379,7 +478,7 @@ const ModelDetail = () => {
                       ? 'border-b-2 border-blue-500 text-blue-600 dark:text-blue-400 dark:border-blue-400 font-medium'
                       : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300'
                   }`}
-                  onClick={() => setActiveTab('prompts')}
+                  onClick={() => handleTabChange('prompts')}
                 >
                   <MessageSquare className="mr-2 h-5 w-5" />
                   Prompt Performance
@@ -390,9 +489,15 @@ const ModelDetail = () => {
             <div className="p-6">
               {activeTab === 'performance' && (
                 <div>
-                  <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4">
-                    Performance Distribution
-                  </h2>
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+                      Performance Distribution
+                    </h2>
+                    <ExportMenu
+                      onExport={handleExportBuckets}
+                      disabled={!stats.bucketStats?.length}
+                    />
+                  </div>
 
                   {/* Handle case when statistics are not available */}
                   {stats.statistics ? (
@@ -409,26 +514,56 @@ const ModelDetail = () => {
                   )}
 
                   {/* Description already included in the chart component */}
+
+                  <div className="mt-6">
+                    <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-2 mb-4">
+                      <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+                        ELO Over Time
+                      </h2>
+                      <DateRangePicker
+                        value={historyRange}
+                        onChange={setHistoryRange}
+                      />
+                    </div>
+                    {historyLoading ? (
+                      <div className="h-40 flex items-center justify-center text-gray-500 dark:text-gray-400">
+                        Loading history...
+                      </div>
+                    ) : (
+                      <EloHistoryChart series={history} asOf={asOf} />
+                    )}
+                  </div>
+
+                  {peers.length > 0 && (
+                    <div className="mt-6">
+                      <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4">
+                        Rating Uncertainty
+                      </h2>
+                      <EloIntervalChart
+                        entries={peers}
+                        highlightSlug={modelSlug}
+                      />
+                    </div>
+                  )}
                 </div>
               )}
 
-              {activeTab === 'prompts' &&
-                metricName &&
-                testSetName &&
-                modelSlug && (
-                  <div>
-                    <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4">
-                      Prompt Performance
-                    </h2>
+              {activeTab === 'prompts' && modelSlug && (
+                <div>
+                  <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100 mb-4">
+                    Prompt Performance
+                  </h2>
 
-                    <PromptLeaderboard
-                      metricName={metricName}
-                      testSetName={testSetName}
-                      modelSlug={modelSlug}
-                      tagName={currentTagName || undefined}
-                    />
-                  </div>
-                )}
+                  <PromptLeaderboard
+                    metricName={metricName}
+                    testSetName={testSetName}
+                    modelSlug={modelSlug}
+                    tagName={currentTagName || undefined}
+                    minVotes={minVotes}
+                    asOf={asOf || undefined}
+                  />
+                </div>
+              )}
             </div>
           </div>
 
@@ -0,0 +1,581 @@
+import { Fragment, useEffect, useMemo, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+
+import { ArrowLeft, ChevronDown, ChevronRight, Swords } from 'lucide-react'
+
+import {
+  getAllPromptLeaderboardEntries,
+  getLeaderboard,
+  getMetrics,
+  getModelSamples,
+  getTags,
+  getTestSets,
+} from '../../api/leaderboard'
+import {
+  LeaderboardEntry,
+  MetricOption,
+  ModelSampleResponse,
+  PromptLeaderboardEntry,
+  TagOption,
+  TestSetOption,
+} from '../../types/leaderboard'
+import {
+  DEFAULT_METRIC_NAME,
+  DEFAULT_TEST_SET_NAME,
+} from '../../utils/leaderboardParams'
+import { MetricSelector, TagSelector, TestSetSelector } from './selectors'
+
+// Number of prompts with the widest ELO gap that get highlighted
+const DIVERGENCE_HIGHLIGHT_COUNT = 5
+const SAMPLES_PER_PROMPT = 5
+
+interface MatchupRow {
+  promptId: string
+  promptName: string
+  a: PromptLeaderboardEntry | null
+  b: PromptLeaderboardEntry | null
+  eloDiff: number | null
+}
+
+interface PromptSamples {
+  a: ModelSampleResponse[]
+  b: ModelSampleResponse[]
+}
+
+const getWinRate = (entry: PromptLeaderboardEntry) =>
+  entry.voteCount > 0
+    ? `${((entry.winCount / entry.voteCount) * 100).toFixed(1)}%`
+    : 'N/A'
+
+const buildRows = (
+  entriesA: PromptLeaderboardEntry[],
+  entriesB: PromptLeaderboardEntry[]
+): MatchupRow[] => {
+  const rows = new Map<string, MatchupRow>()
+
+  entriesA.forEach((entry) => {
+    rows.set(entry.promptId, {
+      promptId: entry.promptId,
+      promptName: entry.promptName,
+      a: entry,
+      b: null,
+      eloDiff: null,
+    })
+  })
+  entriesB.forEach((entry) => {
+    const row = rows.get(entry.promptId)
+    if (row) {
+      row.b = entry
+      row.eloDiff = (row.a?.eloScore ?? 0) - entry.eloScore
+    } else {
+      rows.set(entry.promptId, {
+        promptId: entry.promptId,
+        promptName: entry.promptName,
+        a: null,
+        b: entry,
+        eloDiff: null,
+      })
+    }
+  })
+
+  // Widest gaps first; prompts only one model has been rated on go last
+  return Array.from(rows.values()).sort((x, y) => {
+    if (x.eloDiff === null && y.eloDiff === null) {
+      return x.promptName.localeCompare(y.promptName)
+    }
+    if (x.eloDiff === null) return 1
+    if (y.eloDiff === null) return -1
+    return Math.abs(y.eloDiff) - Math.abs(x.eloDiff)
+  })
+}
+
+const ModelMatchup = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const slugA = searchParams.get('a') || ''
+  const slugB = searchParams.get('b') || ''
+  const metricName = searchParams.get('metricName') || DEFAULT_METRIC_NAME
+  const testSetName = searchParams.get('testSetName') || DEFAULT_TEST_SET_NAME
+  const tagName = searchParams.get('tagName') || undefined
+
+  const [metrics, setMetrics] = useState<MetricOption[]>([])
+  const [testSets, setTestSets] = useState<TestSetOption[]>([])
+  const [tags, setTags] = useState<TagOption[]>([])
+  const [models, setModels] = useState<LeaderboardEntry[]>([])
+
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [entries, setEntries] = useState<{
+    a: PromptLeaderboardEntry[]
+    b: PromptLeaderboardEntry[]
+  } | null>(null)
+
+  const [expandedPromptId, setExpandedPromptId] = useState<string | null>(null)
+  const [promptSamples, setPromptSamples] = useState<
+    Record<string, PromptSamples>
+  >({})
+  const [loadingSamples, setLoadingSamples] = useState<string | null>(null)
+
+  // Load selector options on mount
+  useEffect(() => {
+    const loadMetadata = async () => {
+      try {
+        const [metricsData, testSetsData, tagsData] = await Promise.all([
+          getMetrics(),
+          getTestSets(),
+          getTags(),
+        ])
+        setMetrics(metricsData)
+        setTestSets(testSetsData)
+        setTags(tagsData)
+      } catch (err) {
+        console.error('Error loading metadata:', err)
+        setError('Failed to load leaderboard options. Please try again.')
+      }
+    }
+
+    loadMetadata()
+  }, [])
+
+  // The model pickers list every model ranked under the current filters
+  useEffect(() => {
+    const loadModels = async () => {
+      try {
+        const data = await getLeaderboard(
+          metricName,
+          testSetName,
+          tagName,
+          100,
+          1
+        )
+        setModels(data.entries || [])
+      } catch (err) {
+        console.error('Error loading models:', err)
+        setModels([])
+      }
+    }
+
+    loadModels()
+  }, [metricName, testSetName, tagName])
+
+  // Load both models' per-prompt standings
+  useEffect(() => {
+    if (!slugA || !slugB) {
+      setEntries(null)
+      return
+    }
+
+    const loadMatchup = async () => {
+      setLoading(true)
+      setError(null)
+      setExpandedPromptId(null)
+      setPromptSamples({})
+
+      try {
+        const [a, b] = await Promise.all([
+          getAllPromptLeaderboardEntries(
+            metricName,
+            testSetName,
+            slugA,
+            1,
+            tagName
+          ),
+          getAllPromptLeaderboardEntries(
+            metricName,
+            testSetName,
+            slugB,
+            1,
+            tagName
+          ),
+        ])
+        setEntries({ a, b })
+      } catch (err) {
+        console.error('Error loading matchup:', err)
+        setError('Failed to load matchup data. Please try again.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadMatchup()
+  }, [slugA, slugB, metricName, testSetName, tagName])
+
+  const rows = useMemo(
+    () => (entries ? buildRows(entries.a, entries.b) : []),
+    [entries]
+  )
+  const sharedRows = rows.filter((row) => row.eloDiff !== null)
+  const highlighted = new Set(
+    sharedRows.slice(0, DIVERGENCE_HIGHLIGHT_COUNT).map((row) => row.promptId)
+  )
+  const aAhead = sharedRows.filter((row) => row.eloDiff! > 0).length
+  const bAhead = sharedRows.filter((row) => row.eloDiff! < 0).length
+
+  const modelA = models.find((m) => m.model.slug === slugA)?.model
+  const modelB = models.find((m) => m.model.slug === slugB)?.model
+  const nameA = modelA?.name || slugA || 'Model A'
+  const nameB = modelB?.name || slugB || 'Model B'
+
+  const updateParam = (key: string, value: string | null) => {
+    const newParams = new URLSearchParams(searchParams)
+    if (value) {
+      newParams.set(key, value)
+    } else {
+      newParams.delete(key)
+    }
+    setSearchParams(newParams)
+  }
+
+  const togglePrompt = async (row: MatchupRow) => {
+    if (expandedPromptId === row.promptId) {
+      setExpandedPromptId(null)
+      return
+    }
+
+    setExpandedPromptId(row.promptId)
+    if (promptSamples[row.promptId]) return
+
+    setLoadingSamples(row.promptId)
+    try {
+      const [a, b] = await Promise.all(
+        [slugA, slugB].map((slug) =>
+          getModelSamples(
+            metricName,
+            testSetName,
+            slug,
+            1,
+            SAMPLES_PER_PROMPT,
+            tagName,
+            row.promptName
+          )
+        )
+      )
+      setPromptSamples((prev) => ({
+        ...prev,
+        [row.promptId]: { a: a.samples, b: b.samples },
+      }))
+    } catch (err) {
+      console.error('Error loading prompt samples:', err)
+    } finally {
+      setLoadingSamples(null)
+    }
+  }
+
+  const backToLeaderboard = () => {
+    const params = new URLSearchParams()
+    if (tagName) params.set('tagName', tagName)
+    params.set('metricName', metricName)
+    params.set('testSetName', testSetName)
+    return `/leaderboard?${params.toString()}`
+  }
+
+  const renderSampleLinks = (
+    samples: ModelSampleResponse[],
+    modelName: string
+  ) => (
+    <div>
+      <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+        {modelName}
+      </div>
+      {samples.length === 0 ? (
+        <div className="text-sm text-gray-400 dark:text-gray-500">
+          No samples
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {samples.map((sample) => (
+            <li key={sample.id} className="text-sm">
+              <Link
+                to={`/share/samples/${sample.id}`}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                ELO {Math.round(sample.eloScore)}
+              </Link>
+              <span className="ml-2 text-gray-500 dark:text-gray-400">
+                {(sample.winRate * 100).toFixed(1)}% · {sample.voteCount} votes
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+
+  const modelSelect = (
+    label: string,
+    value: string,
+    onChange: (slug: string) => void
+  ) => (
+    <div className="flex flex-col gap-1">
+      <label className="text-sm font-medium text-gray-700 dark:text-gray-300">
+        {label}
+      </label>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-3 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-700 rounded-md text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="" disabled>
+          Select a model
+        </option>
+        {models.map((entry) => (
+          <option key={entry.model.id} value={entry.model.slug}>
+            {entry.model.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  )
+
+  return (
+    <div className="max-w-6xl mx-auto p-4 space-y-6">
+      <div>
+        <Link
+          to={backToLeaderboard()}
+          className="inline-flex items-center text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Leaderboard
+        </Link>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Swords className="h-6 w-6 text-blue-500" />
+        <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-100">
+          Head-to-Head
+        </h2>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          {modelSelect('Model A', slugA, (slug) => updateParam('a', slug))}
+          {modelSelect('Model B', slugB, (slug) => updateParam('b', slug))}
+          <MetricSelector
+            options={metrics}
+            value={metrics.find((m) => m.name === metricName)?.id || null}
+            onChange={(id) =>
+              updateParam(
+                'metricName',
+                metrics.find((m) => m.id === id)?.name || null
+              )
+            }
+          />
+          <TestSetSelector
+            options={testSets}
+            value={testSets.find((t) => t.name === testSetName)?.id || null}
+            onChange={(id) =>
+              updateParam(
+                'testSetName',
+                testSets.find((t) => t.id === id)?.name || null
+              )
+            }
+          />
+          <TagSelector
+            options={tags}
+            value={tags.find((t) => t.name === tagName)?.id || ''}
+            onChange={(id) =>
+              updateParam(
+                'tagName',
+                tags.find((t) => t.id === id)?.name || null
+              )
+            }
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4 text-red-800 dark:text-red-300">
+          <p>{error}</p>
+        </div>
+      )}
+
+      {(!slugA || !slugB) && !error && (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          Pick two models to compare them prompt by prompt.
+        </div>
+      )}
+
+      {loading && (
+        <div className="py-20 flex justify-center items-center">
+          <div className="flex flex-col items-center gap-2">
+            <div className="animate-spin h-8 w-8 border-4 border-blue-500 rounded-full border-t-transparent"></div>
+            <span className="text-gray-700 dark:text-gray-300">
+              Loading matchup...
+            </span>
+          </div>
+        </div>
+      )}
+
+      {!loading && !error && entries && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg font-medium text-gray-700 dark:text-gray-300">
+                Shared Prompts
+              </h3>
+              <div className="mt-2 text-3xl font-bold text-gray-900 dark:text-gray-100">
+                {sharedRows.length}
+              </div>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg font-medium text-gray-700 dark:text-gray-300">
+                {nameA} Ahead
+              </h3>
+              <div className="mt-2 text-3xl font-bold text-gray-900 dark:text-gray-100">
+                {aAhead}
+              </div>
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg font-medium text-gray-700 dark:text-gray-300">
+                {nameB} Ahead
+              </h3>
+              <div className="mt-2 text-3xl font-bold text-gray-900 dark:text-gray-100">
+                {bAhead}
+              </div>
+            </div>
+          </div>
+
+          {/* Per-prompt comparison */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border dark:border-gray-700 overflow-hidden">
+            <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+                Per-Prompt Comparison
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Sorted by ELO gap. The {DIVERGENCE_HIGHLIGHT_COUNT} prompts
+                where the models diverge most are highlighted.
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50 dark:bg-gray-700 border-b dark:border-gray-600 text-left">
+                    <th className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                      Prompt
+                    </th>
+                    <th className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider text-right">
+                      {nameA}
+                    </th>
+                    <th className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider text-right">
+                      {nameB}
+                    </th>
+                    <th className="px-6 py-3 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider text-right">
+                      Gap
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {rows.map((row) => (
+                    <Fragment key={row.promptId}>
+                      <tr
+                        className={`cursor-pointer ${
+                          highlighted.has(row.promptId)
+                            ? 'bg-amber-50 dark:bg-amber-900/20 hover:bg-amber-100 dark:hover:bg-amber-900/30'
+                            : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+                        }`}
+                        onClick={() => togglePrompt(row)}
+                      >
+                        <td className="px-6 py-4 text-sm">
+                          <div className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+                            {expandedPromptId === row.promptId ? (
+                              <ChevronDown className="h-4 w-4 text-gray-400" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4 text-gray-400" />
+                            )}
+                            {row.promptName}
+                          </div>
+                        </td>
+                        {[row.a, row.b].map((entry, index) => (
+                          <td
+                            key={index}
+                            className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900 dark:text-gray-100"
+                          >
+                            {entry ? (
+                              <>
+                                <div className="font-medium">
+                                  {Math.round(entry.eloScore)}
+                                </div>
+                                <div className="text-xs text-gray-500 dark:text-gray-400">
+                                  {getWinRate(entry)} · {entry.voteCount} votes
+                                </div>
+                              </>
+                            ) : (
+                              <span className="text-gray-400 dark:text-gray-500">
+                                —
+                              </span>
+                            )}
+                          </td>
+                        ))}
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                          {row.eloDiff === null ? (
+                            <span className="text-gray-400 dark:text-gray-500">
+                              —
+                            </span>
+                          ) : (
+                            <span
+                              className={
+                                row.eloDiff > 0
+                                  ? 'text-green-600 dark:text-green-400'
+                                  : row.eloDiff < 0
+                                    ? 'text-red-600 dark:text-red-400'
+                                    : 'text-gray-500 dark:text-gray-400'
+                              }
+                            >
+                              {row.eloDiff > 0 ? '+' : ''}
+                              {Math.round(row.eloDiff)}
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                      {expandedPromptId === row.promptId && (
+                        <tr className="bg-gray-50 dark:bg-gray-900">
+                          <td colSpan={4} className="px-6 py-4">
+                            {loadingSamples === row.promptId ? (
+                              <div className="text-sm text-gray-500 dark:text-gray-400">
+                                Loading samples...
+                              </div>
+                            ) : promptSamples[row.promptId] ? (
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                {renderSampleLinks(
+                                  promptSamples[row.promptId].a,
+                                  nameA
+                                )}
+                                {renderSampleLinks(
+                                  promptSamples[row.promptId].b,
+                                  nameB
+                                )}
+                              </div>
+                            ) : (
+                              <div className="text-sm text-red-500 dark:text-red-400">
+                                Failed to load samples
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+
+                  {rows.length === 0 && (
+                    <tr>
+                      <td
+                        colSpan={4}
+                        className="px-6 py-8 text-center text-gray-500 dark:text-gray-400"
+                      >
+                        Neither model has rated prompts under the current
+                        filters.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ModelMatchup
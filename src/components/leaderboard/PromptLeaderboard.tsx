@@ -1,30 +1,51 @@
 import React, { useEffect, useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 
 // Removed date-fns import as we no longer display last updated time
 import { ChevronLeft, ChevronRight } from 'lucide-react'
 
-import { getPromptLeaderboard } from '../../api/leaderboard'
+import {
+  getAllPromptLeaderboardEntries,
+  getPromptLeaderboard,
+} from '../../api/leaderboard'
 import type {
   PromptLeaderboardEntry,
   PromptLeaderboardResponse,
 } from '../../types/leaderboard'
+import { ExportFormat, exportRows } from '../../utils/export'
+import {
+  DEFAULT_MIN_VOTES,
+  parseSortDirection,
+  parseSortField,
+  withParams,
+} from '../../utils/leaderboardParams'
+import ExportMenu from '../ui/ExportMenu'
 
 interface PromptLeaderboardProps {
   metricName: string
   testSetName: string
   modelSlug: string
   tagName?: string
+  minVotes?: number
+  // Pin the standings to a past day, as on the main leaderboard
+  asOf?: string
 }
 
+const SORT_FIELDS = ['promptName', 'eloScore', 'winRate', 'voteCount'] as const
+type SortField = (typeof SORT_FIELDS)[number]
+
 export const PromptLeaderboard: React.FC<PromptLeaderboardProps> = ({
   metricName,
   testSetName,
   modelSlug,
   tagName,
+  minVotes = DEFAULT_MIN_VOTES,
+  asOf,
 }) => {
-  // We don't need searchParams here as we're using the passed tagId
   const navigate = useNavigate()
+  // Sort order is kept in the page URL, prefixed so it doesn't clash with the
+  // host page's own sort
+  const [searchParams, setSearchParams] = useSearchParams()
 
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -34,14 +55,17 @@ export const PromptLeaderboard: React.FC<PromptLeaderboardProps> = ({
   // Pagination state
   const [page, setPage] = useState(1)
   const [pageSize, setPageSize] = useState(20)
-  // Set minimum votes to 1 to show all prompts with at least one vote
-  const minVotes = 1
 
   // Client-side sorting state
-  const [sortField, setSortField] = useState<
-    'promptName' | 'eloScore' | 'winRate' | 'voteCount'
-  >('eloScore')
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc')
+  const sortField = parseSortField(
+    searchParams.get('promptSort'),
+    SORT_FIELDS,
+    'eloScore'
+  )
+  const sortDirection = parseSortDirection(
+    searchParams.get('promptOrder'),
+    sortField === 'promptName' ? 'asc' : 'desc'
+  )
 
   // Fetch prompt leaderboard data
   useEffect(() => {
@@ -57,7 +81,8 @@ export const PromptLeaderboard: React.FC<PromptLeaderboardProps> = ({
           page,
           pageSize,
           minVotes,
-          tagName
+          tagName,
+          asOf
         )
 
         setPromptData(data)
@@ -70,7 +95,16 @@ export const PromptLeaderboard: React.FC<PromptLeaderboardProps> = ({
     }
 
     fetchData()
-  }, [metricName, testSetName, modelSlug, page, pageSize, tagName])
+  }, [
+    metricName,
+    testSetName,
+    modelSlug,
+    page,
+    pageSize,
+    minVotes,
+    tagName,
+    asOf,
+  ])
 
   // Handle page changes
   const goToNextPage = () => {
@@ -103,18 +137,61 @@ export const PromptLeaderboard: React.FC<PromptLeaderboardProps> = ({
       : '0.0'
   }
 
+  // Export every page, not just the one on screen
+  const handleExport = async (format: ExportFormat) => {
+    const entries = await getAllPromptLeaderboardEntries(
+      metricName,
+      testSetName,
+      modelSlug,
+      minVotes,
+      tagName,
+      asOf
+    )
+
+    exportRows(
+      `prompt-leaderboard-${modelSlug}`,
+      entries,
+      [
+        { header: 'promptName', value: (entry) => entry.promptName },
+        { header: 'promptId', value: (entry) => entry.promptId },
+        { header: 'tag', value: (entry) => entry.tag?.name },
+        { header: 'eloScore', value: (entry) => entry.eloScore },
+        { header: 'voteCount', value: (entry) => entry.voteCount },
+        { header: 'winCount', value: (entry) => entry.winCount },
+        { header: 'lossCount', value: (entry) => entry.lossCount },
+        { header: 'tieCount', value: (entry) => entry.tieCount },
+        {
+          header: 'winRate',
+          value: (entry) =>
+            entry.voteCount > 0 ? entry.winCount / entry.voteCount : 0,
+        },
+        { header: 'lastUpdated', value: (entry) => entry.lastUpdated },
+      ],
+      { metricName, testSetName, tagName, minVotes, asOf, modelSlug },
+      format
+    )
+  }
+
   // Handle sort click
-  const handleSortChange = (
-    field: 'promptName' | 'eloScore' | 'winRate' | 'voteCount'
-  ) => {
-    if (sortField === field) {
-      // If already sorting by this field, toggle direction
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')
-    } else {
-      // Otherwise, set the new field and default to descending for numerical values, ascending for text
-      setSortField(field)
-      setSortDirection(field === 'promptName' ? 'asc' : 'desc')
-    }
+  const handleSortChange = (field: SortField) => {
+    // Toggle direction on the current field, otherwise default to descending
+    // for numerical values, ascending for text
+    const direction =
+      sortField === field
+        ? sortDirection === 'asc'
+          ? 'desc'
+          : 'asc'
+        : field === 'promptName'
+          ? 'asc'
+          : 'desc'
+
+    const isDefault = field === 'eloScore' && direction === 'desc'
+    setSearchParams(
+      withParams(searchParams, {
+        promptSort: isDefault ? null : field,
+        promptOrder: isDefault ? null : direction,
+      })
+    )
   }
 
   // Get sorted entries
@@ -193,6 +270,10 @@ export const PromptLeaderboard: React.FC<PromptLeaderboardProps> = ({
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <div className="flex justify-end mb-4">
+        <ExportMenu onExport={handleExport} label="Export all pages" />
+      </div>
+
       {/* Table for larger screens */}
       <div className="hidden md:block overflow-x-auto">
         <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
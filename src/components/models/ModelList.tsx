@@ -23,7 +23,9 @@ import {
 import { adminAPI } from '../../api/client'
 import { useAuth } from '../../hooks/useAuth'
 import { Model } from '../../types/models'
+import { toConfigBundle } from '../../utils/configBundle'
 import { hasModelExperimentProposalAccess } from '../../utils/permissions'
+import ConfigBundleActions from '../ui/ConfigBundleActions'
 import ProposeExperimentalModal from '../ui/ProposeExperimentalModal'
 import { getExperimentalStateStyles } from '../ui/StatusStyles'
 
@@ -78,6 +80,8 @@ const ModelList = () => {
   const searchInputRef = useRef<HTMLInputElement>(null)
   const { user } = useAuth()
   const [models, setModels] = useState<Model[]>([])
+  // Models picked for a bundle export
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [searchTerm, setSearchTerm] = useState('')
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -172,6 +176,18 @@ const ModelList = () => {
     fetchExperimentalStates()
   }, [])
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
   const fetchModels = async () => {
     try {
       setLoading(true)
@@ -674,6 +690,22 @@ const ModelList = () => {
         </div>
       </div>
 
+      <ConfigBundleActions
+        kind="models"
+        selectedCount={selectedIds.size}
+        visibleCount={filteredModels.length}
+        onSelectAll={() =>
+          setSelectedIds(new Set(filteredModels.map((model) => model.id)))
+        }
+        onClearSelection={() => setSelectedIds(new Set())}
+        getBundle={() =>
+          toConfigBundle({
+            models: models.filter((model) => selectedIds.has(model.id)),
+          })
+        }
+        onImported={fetchModels}
+      />
+
       <div className="relative grid gap-4">
         {loading && (
           <div className="absolute inset-0 flex items-center justify-center bg-white bg-opacity-60 dark:bg-gray-900 dark:bg-opacity-60 z-10 backdrop-blur-[1px]">
@@ -694,6 +726,13 @@ const ModelList = () => {
               <div className="flex items-center justify-between pb-2">
                 <div className="flex-1">
                   <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(model.id)}
+                      onChange={() => toggleSelected(model.id)}
+                      aria-label={`Select ${model.name || model.slug}`}
+                      className="h-4 w-4 rounded border-gray-300 dark:border-gray-600"
+                    />
                     <h2 className="text-xl font-semibold dark:text-white">
                       {model.name || model.slug}
                     </h2>
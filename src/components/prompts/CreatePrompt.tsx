@@ -1,10 +1,10 @@
 import React, { useEffect, useState } from 'react'
-import { useLocation, useNavigate } from 'react-router-dom'
+import { Link, useLocation, useNavigate } from 'react-router-dom'
 
-import { AlertCircle, Plus, X } from 'lucide-react'
+import { AlertCircle, GitBranch, Plus, X } from 'lucide-react'
 
 import { adminAPI } from '../../api/client'
-import { PromptFormData, Tag } from '../../types/prompts'
+import { BUILD_SIZE_OPTIONS, PromptFormData, Tag } from '../../types/prompts'
 import HelpButton from './HelpButton'
 
 const CreatePrompt = () => {
@@ -19,22 +19,17 @@ const CreatePrompt = () => {
   const [error, setError] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [isCloning, setIsCloning] = useState(false)
+  // Recorded on the new prompt so its lineage can be traced
+  const [parentPrompt, setParentPrompt] = useState<{
+    id: string
+    name: string
+  } | null>(null)
   const [availableTags, setAvailableTags] = useState<Tag[]>([])
   const [tagInput, setTagInput] = useState('')
   const [filteredTags, setFilteredTags] = useState<Tag[]>([])
   const [selectedTagIndex, setSelectedTagIndex] = useState(-1)
   const [showBuildSizeField, setShowBuildSizeField] = useState(false)
 
-  // Build size options
-  const buildSizeOptions = [
-    { label: 'Tiny', value: 'a 5x5x5 bounding box' },
-    { label: 'Small', value: 'a 10x10x10 bounding box' },
-    { label: 'Medium', value: 'a 20x20x20 bounding box' },
-    { label: 'Large', value: 'a 40x40x40 bounding box' },
-    { label: 'Extra Large', value: 'a 60x60x60 bounding box' },
-    { label: 'Massive', value: 'a 80x80x80 bounding box' },
-  ]
-
   // Medium is index 2
   const mediumSizeIndex = 2
 
@@ -82,13 +77,15 @@ const CreatePrompt = () => {
       // Get non-build-size tags from the original prompt
       const nonSizeTags = data.tags
         .filter(
-          (tag: Tag) => !buildSizeOptions.some((opt) => opt.value === tag.name)
+          (tag: Tag) =>
+            !BUILD_SIZE_OPTIONS.some((opt) => opt.value === tag.name)
         )
         .map((tag: Tag) => tag.name)
 
       // If there's a build size, add it as a tag
       const tags = buildSize ? [...nonSizeTags, buildSize] : nonSizeTags
 
+      setParentPrompt({ id: data.id, name: data.name })
       setFormData({
         name: `${data.name} (Copy)`,
         buildSpecification: data.buildSpecification,
@@ -127,7 +124,7 @@ const CreatePrompt = () => {
   const handleBuildSizeChange = (newSize: string) => {
     // Remove any previous build size tags
     const nonSizeTags = formData.tags.filter(
-      (tag) => !buildSizeOptions.some((opt) => opt.value === tag)
+      (tag) => !BUILD_SIZE_OPTIONS.some((opt) => opt.value === tag)
     )
 
     setFormData((prev) => ({
@@ -205,6 +202,7 @@ const CreatePrompt = () => {
         ...formData,
         ...(formData.buildSize === null && { buildSize: undefined }),
         active: true,
+        parentId: parentPrompt?.id,
       }
 
       await adminAPI.post('/prompt', submissionData)
@@ -247,6 +245,22 @@ const CreatePrompt = () => {
         </div>
       )}
 
+      {parentPrompt && (
+        <div className="mb-6 px-4 py-3 rounded-md flex items-center gap-2 text-sm bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300">
+          <GitBranch className="h-4 w-4" />
+          <span>
+            Cloned from{' '}
+            <Link
+              to={`/prompts/${parentPrompt.id}`}
+              className="underline hover:no-underline"
+            >
+              {parentPrompt.name}
+            </Link>
+            . The new prompt will be linked to it in the lineage.
+          </span>
+        </div>
+      )}
+
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
         <form onSubmit={handleSubmit} className="p-6 space-y-6">
           <div className="space-y-2">
@@ -275,7 +289,9 @@ const CreatePrompt = () => {
                 onClick={() => {
                   setShowBuildSizeField(true)
                   // Set to Medium by default
-                  handleBuildSizeChange(buildSizeOptions[mediumSizeIndex].value)
+                  handleBuildSizeChange(
+                    BUILD_SIZE_OPTIONS[mediumSizeIndex].value
+                  )
                 }}
                 className="text-sm text-blue-600 dark:text-blue-400 hover:text-blue-700 dark:hover:text-blue-300 flex items-center gap-1"
               >
@@ -306,7 +322,7 @@ const CreatePrompt = () => {
 
                 <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 bg-gray-50 dark:bg-gray-900">
                   <div className="grid grid-cols-3 gap-2 mb-4">
-                    {buildSizeOptions.map((option, index) => (
+                    {BUILD_SIZE_OPTIONS.map((option, index) => (
                       <button
                         key={index}
                         type="button"
@@ -0,0 +1,381 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+
+import { isAxiosError } from 'axios'
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  Download,
+  Loader2,
+  Upload,
+  XCircle,
+} from 'lucide-react'
+
+import { adminAPI } from '../../api/client'
+import { BUILD_SIZE_OPTIONS, Prompt } from '../../types/prompts'
+import { downloadFile } from '../../utils/export'
+import {
+  PromptImportRow,
+  parsePromptImport,
+  toImportErrorReport,
+  validatePromptImport,
+} from '../../utils/promptImport'
+import { Progress } from '../ui/Progress'
+
+type RowStatus = 'pending' | 'created' | 'failed' | 'skipped'
+
+const getErrorMessage = (err: unknown) => {
+  if (isAxiosError(err) && err.response?.data?.detail) {
+    return String(err.response.data.detail)
+  }
+  return err instanceof Error ? err.message : 'Request failed'
+}
+
+const ImportPrompts = () => {
+  const navigate = useNavigate()
+  const [existingNames, setExistingNames] = useState<Set<string>>(new Set())
+  const [fileName, setFileName] = useState('')
+  const [fileText, setFileText] = useState<string | null>(null)
+  const [rows, setRows] = useState<PromptImportRow[]>([])
+  const [parseError, setParseError] = useState<string | null>(null)
+  const [statuses, setStatuses] = useState<Record<number, RowStatus>>({})
+  const [createErrors, setCreateErrors] = useState<Record<number, string>>({})
+  const [isImporting, setIsImporting] = useState(false)
+  const [isDone, setIsDone] = useState(false)
+  const stopRef = useRef(false)
+
+  useEffect(() => {
+    const fetchPrompts = async () => {
+      try {
+        const { data } = await adminAPI.get('/prompt')
+        setExistingNames(
+          new Set(data.data.map((prompt: Prompt) => prompt.name.toLowerCase()))
+        )
+      } catch (err) {
+        console.error('Error fetching prompts:', err)
+      }
+    }
+
+    fetchPrompts()
+  }, [])
+
+  // Re-validate when the existing prompts arrive after the file was chosen
+  useEffect(() => {
+    if (fileText === null) return
+    const result = parsePromptImport(fileText, fileName)
+    setParseError(result.error)
+    setRows(validatePromptImport(result.rows, existingNames))
+  }, [fileText, fileName, existingNames])
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Let the same file be picked again after fixing it
+    e.target.value = ''
+    if (!file) return
+
+    setStatuses({})
+    setCreateErrors({})
+    setIsDone(false)
+    setFileName(file.name)
+    setFileText(await file.text())
+  }
+
+  const validRows = rows.filter((row) => row.errors.length === 0)
+  const invalidRows = rows.filter((row) => row.errors.length > 0)
+
+  // One prompt at a time so progress is visible and a stop takes effect
+  // between requests
+  const handleImport = async () => {
+    stopRef.current = false
+    setIsImporting(true)
+    setStatuses(
+      Object.fromEntries(validRows.map((row) => [row.line, 'pending']))
+    )
+    setCreateErrors({})
+
+    for (const row of validRows) {
+      if (stopRef.current) {
+        setStatuses((prev) => ({ ...prev, [row.line]: 'skipped' }))
+        continue
+      }
+
+      try {
+        await adminAPI.post('/prompt', {
+          name: row.name,
+          buildSpecification: row.buildSpecification,
+          tags: row.tags,
+          buildSize: row.buildSize ?? undefined,
+          active: true,
+        })
+        setStatuses((prev) => ({ ...prev, [row.line]: 'created' }))
+      } catch (err) {
+        console.error(`Error creating prompt ${row.name}:`, err)
+        setStatuses((prev) => ({ ...prev, [row.line]: 'failed' }))
+        setCreateErrors((prev) => ({
+          ...prev,
+          [row.line]: getErrorMessage(err),
+        }))
+      }
+    }
+
+    setIsImporting(false)
+    setIsDone(true)
+  }
+
+  const handleDownloadReport = () => {
+    const failures = [
+      ...invalidRows.map((row) => ({
+        line: row.line,
+        name: row.name,
+        error: row.errors.join('; '),
+      })),
+      ...validRows
+        .filter((row) => createErrors[row.line])
+        .map((row) => ({
+          line: row.line,
+          name: row.name,
+          error: createErrors[row.line],
+        })),
+    ].sort((a, b) => a.line - b.line)
+
+    const base = fileName.replace(/\.[^.]+$/, '') || 'prompts'
+    downloadFile(
+      `${base}-import-errors.csv`,
+      toImportErrorReport(failures),
+      'text/csv'
+    )
+  }
+
+  const finishedCount = Object.values(statuses).filter(
+    (status) => status !== 'pending'
+  ).length
+  const createdCount = Object.values(statuses).filter(
+    (status) => status === 'created'
+  ).length
+  const failedCount = Object.values(statuses).filter(
+    (status) => status === 'failed'
+  ).length
+  const hasStarted = isImporting || isDone
+
+  return (
+    <div className="max-w-6xl mx-auto p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/prompts')}
+            className="text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            <ArrowLeft size={24} />
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+            Import Prompts
+          </h1>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-6 p-6 space-y-4">
+        <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
+          <p>
+            Upload a CSV with a header row, or JSONL with one object per line.
+            Fields: <code>name</code>, <code>buildSpecification</code>,{' '}
+            <code>tags</code> (a list, or separated by <code>;</code>) and an
+            optional <code>buildSize</code>.
+          </p>
+          <p>
+            Build sizes:{' '}
+            {BUILD_SIZE_OPTIONS.map((option) => option.label).join(', ')}, or
+            the full value such as &quot;{BUILD_SIZE_OPTIONS[2].value}&quot;.
+          </p>
+        </div>
+
+        <label className="inline-flex items-center gap-2 px-4 py-2 text-sm rounded-md cursor-pointer bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">
+          <Upload size={16} />
+          {fileName || 'Choose file'}
+          <input
+            type="file"
+            accept=".csv,.jsonl,.json,text/csv,application/json"
+            onChange={handleFileChange}
+            disabled={isImporting}
+            className="hidden"
+          />
+        </label>
+
+        {parseError && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-md flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            <p>{parseError}</p>
+          </div>
+        )}
+      </div>
+
+      {rows.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm text-gray-700 dark:text-gray-300">
+              {rows.length} rows:{' '}
+              <span className="text-green-600 dark:text-green-400">
+                {validRows.length} ready
+              </span>
+              {invalidRows.length > 0 && (
+                <>
+                  ,{' '}
+                  <span className="text-red-600 dark:text-red-400">
+                    {invalidRows.length} with errors
+                  </span>
+                </>
+              )}
+            </span>
+            <div className="ml-auto flex items-center gap-2">
+              {(invalidRows.length > 0 || failedCount > 0) && (
+                <button
+                  onClick={handleDownloadReport}
+                  disabled={isImporting}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  <Download size={16} />
+                  Error report
+                </button>
+              )}
+              {isImporting ? (
+                <button
+                  onClick={() => {
+                    stopRef.current = true
+                  }}
+                  className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300"
+                >
+                  Stop
+                </button>
+              ) : (
+                !isDone && (
+                  <button
+                    onClick={handleImport}
+                    disabled={validRows.length === 0}
+                    className="px-4 py-1.5 text-sm bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Create {validRows.length} prompt
+                    {validRows.length === 1 ? '' : 's'}
+                  </button>
+                )
+              )}
+            </div>
+          </div>
+
+          {hasStarted && (
+            <Progress
+              value={(finishedCount / Math.max(validRows.length, 1)) * 100}
+              note={`${finishedCount} of ${validRows.length} processed`}
+              animated={isImporting}
+            />
+          )}
+
+          {isDone && (
+            <div
+              className={`p-3 rounded-md text-sm flex items-center gap-2 ${
+                failedCount > 0
+                  ? 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300'
+                  : 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300'
+              }`}
+            >
+              {failedCount > 0 ? (
+                <AlertCircle className="h-4 w-4" />
+              ) : (
+                <CheckCircle className="h-4 w-4" />
+              )}
+              <span>
+                Created {createdCount} prompt{createdCount === 1 ? '' : 's'}
+                {failedCount > 0 && `, ${failedCount} failed`}.{' '}
+                <Link to="/prompts" className="underline hover:no-underline">
+                  Back to prompts
+                </Link>
+              </span>
+            </div>
+          )}
+
+          <div className="overflow-x-auto max-h-[32rem] overflow-y-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
+                <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="px-3 py-2">Line</th>
+                  <th className="px-3 py-2">Name</th>
+                  <th className="px-3 py-2">Build Specification</th>
+                  <th className="px-3 py-2">Tags</th>
+                  <th className="px-3 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {rows.map((row) => {
+                  const status = statuses[row.line]
+                  const error = createErrors[row.line]
+                  return (
+                    <tr
+                      key={row.line}
+                      className={
+                        row.errors.length > 0
+                          ? 'bg-red-50/50 dark:bg-red-900/10'
+                          : ''
+                      }
+                    >
+                      <td className="px-3 py-2 text-gray-500 dark:text-gray-400">
+                        {row.line}
+                      </td>
+                      <td className="px-3 py-2 text-gray-900 dark:text-gray-100">
+                        {row.name}
+                      </td>
+                      <td
+                        className="px-3 py-2 max-w-md truncate text-gray-700 dark:text-gray-300"
+                        title={row.buildSpecification}
+                      >
+                        {row.buildSpecification}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex flex-wrap gap-1">
+                          {row.tags.map((tag) => (
+                            <span
+                              key={tag}
+                              className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                            >
+                              {tag}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.errors.length > 0 ? (
+                          <ul className="text-xs text-red-600 dark:text-red-400 space-y-0.5">
+                            {row.errors.map((message) => (
+                              <li key={message}>{message}</li>
+                            ))}
+                          </ul>
+                        ) : status === 'created' ? (
+                          <CheckCircle className="h-4 w-4 text-green-500" />
+                        ) : status === 'failed' ? (
+                          <div className="flex items-start gap-1 text-xs text-red-600 dark:text-red-400">
+                            <XCircle className="h-4 w-4 shrink-0" />
+                            {error}
+                          </div>
+                        ) : status === 'pending' ? (
+                          <Loader2 className="h-4 w-4 text-gray-400 animate-spin" />
+                        ) : status === 'skipped' ? (
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            Stopped
+                          </span>
+                        ) : (
+                          <span className="text-xs text-green-600 dark:text-green-400">
+                            Ready
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ImportPrompts
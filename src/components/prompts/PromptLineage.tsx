@@ -0,0 +1,352 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+
+import { ChevronDown, CornerDownRight, Loader2 } from 'lucide-react'
+
+import {
+  getAllPromptLeaderboardEntries,
+  getLeaderboard,
+} from '../../api/leaderboard'
+import { getPromptLineage } from '../../api/prompts'
+import {
+  LeaderboardEntry,
+  PromptLeaderboardEntry,
+} from '../../types/leaderboard'
+import { Prompt } from '../../types/prompts'
+import {
+  DEFAULT_METRIC_NAME,
+  DEFAULT_TEST_SET_NAME,
+} from '../../utils/leaderboardParams'
+import { comparePrompts, flattenLineage } from '../../utils/promptLineage'
+import { SideBySideDiff } from '../ui/SideBySideDiff'
+import { getExperimentalStateStyles } from '../ui/StatusStyles'
+
+interface PromptLineageProps {
+  prompt: Prompt
+}
+
+const getWinRate = (entry: PromptLeaderboardEntry) =>
+  entry.voteCount > 0
+    ? `${((entry.winCount / entry.voteCount) * 100).toFixed(1)}%`
+    : '-'
+
+// The clone tree a prompt belongs to, what changed between any prompt in it
+// and this one, and how each performed for a chosen model
+const PromptLineage = ({ prompt }: PromptLineageProps) => {
+  const [lineage, setLineage] = useState<Prompt[]>([])
+  const [expanded, setExpanded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [compareId, setCompareId] = useState('')
+
+  const [models, setModels] = useState<LeaderboardEntry[]>([])
+  const [modelSlug, setModelSlug] = useState('')
+  const [stats, setStats] = useState<Map<string, PromptLeaderboardEntry>>(
+    new Map()
+  )
+  const [loadingStats, setLoadingStats] = useState(false)
+
+  useEffect(() => {
+    const fetchLineage = async () => {
+      try {
+        setError(null)
+        const data = await getPromptLineage(prompt.id)
+        setLineage(data)
+        // Start by comparing against whatever this prompt was cloned from
+        const parent = data.find((p) => p.id === prompt.parentId)
+        setCompareId((parent ?? data.find((p) => p.id !== prompt.id))?.id ?? '')
+      } catch (err) {
+        console.error('Error fetching prompt lineage:', err)
+        setError('Failed to load prompt lineage')
+      }
+    }
+
+    fetchLineage()
+  }, [prompt.id, prompt.parentId])
+
+  // Models are only needed once the section is opened
+  useEffect(() => {
+    if (!expanded || models.length > 0) return
+
+    const fetchModels = async () => {
+      try {
+        const data = await getLeaderboard(
+          DEFAULT_METRIC_NAME,
+          DEFAULT_TEST_SET_NAME,
+          undefined,
+          100,
+          1
+        )
+        setModels(data.entries || [])
+      } catch (err) {
+        console.error('Error loading leaderboard models:', err)
+      }
+    }
+
+    fetchModels()
+  }, [expanded, models.length])
+
+  useEffect(() => {
+    if (!modelSlug) {
+      setStats(new Map())
+      return
+    }
+
+    const fetchStats = async () => {
+      try {
+        setLoadingStats(true)
+        const entries = await getAllPromptLeaderboardEntries(
+          DEFAULT_METRIC_NAME,
+          DEFAULT_TEST_SET_NAME,
+          modelSlug
+        )
+        setStats(new Map(entries.map((entry) => [entry.promptId, entry])))
+      } catch (err) {
+        console.error('Error loading prompt leaderboard:', err)
+        setStats(new Map())
+      } finally {
+        setLoadingStats(false)
+      }
+    }
+
+    fetchStats()
+  }, [modelSlug])
+
+  const nodes = useMemo(() => flattenLineage(lineage), [lineage])
+  const comparePrompt = lineage.find((p) => p.id === compareId)
+  const changes = useMemo(
+    () => (comparePrompt ? comparePrompts(comparePrompt, prompt) : null),
+    [comparePrompt, prompt]
+  )
+
+  if (error) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-6 p-6 text-sm text-red-600 dark:text-red-400">
+        {error}
+      </div>
+    )
+  }
+  // Nothing to show for a prompt that was never cloned
+  if (lineage.length <= 1) return null
+
+  const specificationChanged = changes?.specification.some(
+    (line) => line.kind !== 'same'
+  )
+  const hasChanges =
+    changes &&
+    (specificationChanged ||
+      changes.addedTags.length > 0 ||
+      changes.removedTags.length > 0 ||
+      changes.buildSize)
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full p-6 flex items-center justify-between"
+      >
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            Lineage
+          </h2>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            ({lineage.length} related prompts)
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-5 h-5 text-gray-400 dark:text-gray-500 transition-transform duration-200 ${
+            expanded ? 'transform rotate-180' : ''
+          }`}
+        />
+      </button>
+
+      {expanded && (
+        <div className="px-6 pb-6 space-y-6">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <label
+              htmlFor="lineage-model"
+              className="text-gray-700 dark:text-gray-300"
+            >
+              Leaderboard stats for
+            </label>
+            <select
+              id="lineage-model"
+              value={modelSlug}
+              onChange={(e) => setModelSlug(e.target.value)}
+              className="rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="">Select a model</option>
+              {models.map((entry) => (
+                <option key={entry.model.id} value={entry.model.slug}>
+                  {entry.model.name}
+                </option>
+              ))}
+            </select>
+            {loadingStats && (
+              <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+            )}
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+              <thead>
+                <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  <th className="px-3 py-2">Prompt</th>
+                  <th className="px-3 py-2">State</th>
+                  <th className="px-3 py-2 text-right">Usage</th>
+                  {modelSlug && (
+                    <>
+                      <th className="px-3 py-2 text-right">ELO</th>
+                      <th className="px-3 py-2 text-right">Votes</th>
+                      <th className="px-3 py-2 text-right">Win Rate</th>
+                    </>
+                  )}
+                  <th className="px-3 py-2">Compare</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {nodes.map(({ prompt: node, depth }) => {
+                  const entry = stats.get(node.id)
+                  const isCurrent = node.id === prompt.id
+                  return (
+                    <tr
+                      key={node.id}
+                      className={
+                        isCurrent ? 'bg-blue-50 dark:bg-blue-900/20' : ''
+                      }
+                    >
+                      <td className="px-3 py-2">
+                        <div
+                          className="flex items-center gap-1"
+                          style={{ paddingLeft: `${depth * 1.25}rem` }}
+                        >
+                          {depth > 0 && (
+                            <CornerDownRight className="h-4 w-4 shrink-0 text-gray-400" />
+                          )}
+                          {isCurrent ? (
+                            <span className="font-medium text-gray-900 dark:text-gray-100">
+                              {node.name}
+                            </span>
+                          ) : (
+                            <Link
+                              to={`/prompts/${node.id}`}
+                              className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                            >
+                              {node.name}
+                            </Link>
+                          )}
+                        </div>
+                        <div
+                          className="text-xs text-gray-500 dark:text-gray-400"
+                          style={{ paddingLeft: `${depth * 1.25}rem` }}
+                        >
+                          {node.createdBy} ·{' '}
+                          {new Date(node.created).toLocaleDateString()}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs ${getExperimentalStateStyles(node.experimentalState || 'EXPERIMENTAL')}`}
+                        >
+                          {node.experimentalState || 'EXPERIMENTAL'}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-right text-gray-700 dark:text-gray-300">
+                        {node.usage}
+                      </td>
+                      {modelSlug && (
+                        <>
+                          <td className="px-3 py-2 text-right text-gray-900 dark:text-gray-100">
+                            {entry ? Math.round(entry.eloScore) : '-'}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-700 dark:text-gray-300">
+                            {entry?.voteCount ?? '-'}
+                          </td>
+                          <td className="px-3 py-2 text-right text-gray-700 dark:text-gray-300">
+                            {entry ? getWinRate(entry) : '-'}
+                          </td>
+                        </>
+                      )}
+                      <td className="px-3 py-2">
+                        {isCurrent ? (
+                          <span className="text-xs text-gray-500 dark:text-gray-400">
+                            This prompt
+                          </span>
+                        ) : (
+                          <input
+                            type="radio"
+                            name="lineage-compare"
+                            checked={compareId === node.id}
+                            onChange={() => setCompareId(node.id)}
+                            aria-label={`Compare with ${node.name}`}
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {comparePrompt && changes && (
+            <div className="space-y-3">
+              <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+                Changes from {comparePrompt.name} to this prompt
+              </h3>
+
+              {!hasChanges && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  The build specification, tags and build size are identical.
+                </p>
+              )}
+
+              {changes.buildSize && (
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  Build size:{' '}
+                  <span className="line-through text-red-700 dark:text-red-400">
+                    {changes.buildSize.from ?? 'Not specified'}
+                  </span>{' '}
+                  →{' '}
+                  <span className="text-green-700 dark:text-green-400">
+                    {changes.buildSize.to ?? 'Not specified'}
+                  </span>
+                </p>
+              )}
+
+              {(changes.addedTags.length > 0 ||
+                changes.removedTags.length > 0) && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-gray-700 dark:text-gray-300">
+                    Tags:
+                  </span>
+                  {changes.removedTags.map((name) => (
+                    <span
+                      key={`removed-${name}`}
+                      className="px-2 py-0.5 rounded-full text-xs line-through bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"
+                    >
+                      {name}
+                    </span>
+                  ))}
+                  {changes.addedTags.map((name) => (
+                    <span
+                      key={`added-${name}`}
+                      className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300"
+                    >
+                      {name}
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              {specificationChanged && (
+                <SideBySideDiff lines={changes.specification} />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PromptLineage
@@ -15,13 +15,16 @@ import {
   Plus,
   Search,
   Trash2,
+  Upload,
   XCircle,
 } from 'lucide-react'
 
 import { adminAPI } from '../../api/client'
 import { useAuth } from '../../hooks/useAuth'
 import { Prompt, Tag } from '../../types/prompts'
+import { toConfigBundle } from '../../utils/configBundle'
 import { hasPromptExperimentProposalAccess } from '../../utils/permissions'
+import ConfigBundleActions from '../ui/ConfigBundleActions'
 import ProposeExperimentalModal from '../ui/ProposeExperimentalModal'
 import { SimpleSearchSelect } from '../ui/SimpleSearchSelect'
 import { getExperimentalStateStyles } from '../ui/StatusStyles'
@@ -81,6 +84,8 @@ const PromptList = () => {
   const { user } = useAuth()
   const [searchParams, setSearchParams] = useSearchParams()
   const [prompts, setPrompts] = useState<Prompt[]>([])
+  // Prompts picked for a bundle export
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [activeDropdown, setActiveDropdown] = useState<string | null>(null)
@@ -178,6 +183,18 @@ const PromptList = () => {
     fetchExperimentalStates()
   }, [])
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
   const fetchPrompts = async () => {
     try {
       setLoading(true)
@@ -482,6 +499,13 @@ const PromptList = () => {
             <Filter size={16} />
             Filters
           </button>
+          <Link
+            to="/prompts/import"
+            className="flex items-center gap-2 px-4 py-2 text-sm rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+          >
+            <Upload size={16} />
+            Import
+          </Link>
           <Link
             to="/prompts/new"
             className="flex items-center gap-2 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
@@ -723,6 +747,22 @@ const PromptList = () => {
         </div>
       </div>
 
+      <ConfigBundleActions
+        kind="prompts"
+        selectedCount={selectedIds.size}
+        visibleCount={filteredPrompts.length}
+        onSelectAll={() =>
+          setSelectedIds(new Set(filteredPrompts.map((prompt) => prompt.id)))
+        }
+        onClearSelection={() => setSelectedIds(new Set())}
+        getBundle={() =>
+          toConfigBundle({
+            prompts: prompts.filter((prompt) => selectedIds.has(prompt.id)),
+          })
+        }
+        onImported={fetchPrompts}
+      />
+
       <div className="relative grid gap-4">
         {loading && (
           <div className="absolute inset-0 flex items-center justify-center bg-white bg-opacity-60 dark:bg-gray-900 dark:bg-opacity-60 z-10 backdrop-blur-[1px]">
@@ -742,6 +782,13 @@ const PromptList = () => {
             >
               <div className="flex items-center justify-between pb-2">
                 <div className="flex-1 flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(prompt.id)}
+                    onChange={() => toggleSelected(prompt.id)}
+                    aria-label={`Select ${prompt.name}`}
+                    className="h-4 w-4 rounded border-gray-300 dark:border-gray-600"
+                  />
                   <h2 className="text-xl font-semibold dark:text-white">
                     {prompt.name}
                   </h2>
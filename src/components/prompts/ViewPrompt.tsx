@@ -32,6 +32,7 @@ import {
 import ProposeExperimentalModal from '../ui/ProposeExperimentalModal'
 import { getExperimentalStateStyles, getStatusStyles } from '../ui/StatusStyles'
 import HelpButton from './HelpButton'
+import PromptLineage from './PromptLineage'
 
 type RunPaging = {
   page: number
@@ -698,6 +699,8 @@ const ViewPrompt = () => {
         </div>
       </div>
 
+      <PromptLineage prompt={prompt} />
+
       {showJustificationModal && currentAction === 'PROPOSE' && (
         <ProposeExperimentalModal
           isOpen={showJustificationModal}
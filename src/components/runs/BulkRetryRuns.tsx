@@ -0,0 +1,414 @@
+import { useRef, useState } from 'react'
+
+import { isAxiosError } from 'axios'
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  Loader2,
+  RefreshCw,
+  XCircle,
+} from 'lucide-react'
+
+import { getRunStatus, isRunStatusFinal } from '../../api/runStatus'
+import { listAllRuns, retryRunTasks } from '../../api/runs'
+import { RunResponse } from '../../types/generations'
+import { STAGE_SORT_ORDER } from '../../utils/generationStats'
+import { ConfirmModal } from '../ui/ConfirmModal'
+import { Progress } from '../ui/Progress'
+
+type ItemStatus = 'pending' | 'success' | 'error' | 'skipped'
+type RetrySource = 'selected' | 'filtered'
+
+// Retry each run from whichever stage it failed in
+const FAILED_STAGE = 'FAILED_STAGE'
+
+// Spacing between retry requests, so a big batch doesn't swamp the workers
+const RETRY_INTERVAL_MS = 500
+const RATE_LIMIT_DELAY_MS = 10 * 1000
+const MAX_RATE_LIMIT_RETRIES = 3
+// Cap on how many pages of failed runs "retry all" will gather
+const MAX_RETRY_PAGES = 20
+
+interface BulkRetryRun {
+  id: string
+  label: string
+}
+
+interface BulkRetryRunsProps {
+  // Runs shown on the page, of which the selected failed ones can be retried
+  runs: RunResponse[]
+  selectedIds: Set<string>
+  // Query for the page's current filters; "retry all" narrows it to failures
+  getFilterParams: () => URLSearchParams
+  onClearSelection: () => void
+  // Called once a batch has finished, with the runs that failed to retry
+  onComplete: (failedIds: string[]) => void
+}
+
+// Only failed runs can be retried in bulk
+const isRetryable = (run: RunResponse) =>
+  run.status !== 'COMPLETED' && isRunStatusFinal(run.status)
+
+const toRetryRun = (run: RunResponse): BulkRetryRun => ({
+  id: run.id,
+  label: `${run.model.slug} · ${run.prompt.name}`,
+})
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+const formatStageName = (stage: string) =>
+  stage
+    .split('_')
+    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(' ')
+
+const getErrorMessage = (err: unknown) => {
+  if (isAxiosError(err) && err.response?.data?.detail) {
+    return String(err.response.data.detail)
+  }
+  return err instanceof Error ? err.message : 'Request failed'
+}
+
+// Honour Retry-After when the API sends one
+const getRateLimitDelay = (err: unknown) => {
+  if (!isAxiosError(err) || err.response?.status !== 429) return null
+  const retryAfter = Number(err.response.headers['retry-after'])
+  return retryAfter > 0 ? retryAfter * 1000 : RATE_LIMIT_DELAY_MS
+}
+
+interface RetryRunCheckboxProps {
+  run: RunResponse
+  checked: boolean
+  onToggle: () => void
+}
+
+// Row checkbox for the run lists, only enabled for runs that can be retried
+export const RetryRunCheckbox = ({
+  run,
+  checked,
+  onToggle,
+}: RetryRunCheckboxProps) => (
+  <input
+    type="checkbox"
+    checked={checked}
+    onChange={onToggle}
+    disabled={!isRetryable(run)}
+    aria-label="Select run"
+    className="mr-3 rounded border-gray-300 dark:border-gray-600 disabled:opacity-30"
+  />
+)
+
+const BulkRetryRuns = ({
+  runs,
+  selectedIds,
+  getFilterParams,
+  onClearSelection,
+  onComplete,
+}: BulkRetryRunsProps) => {
+  const [source, setSource] = useState<RetrySource | null>(null)
+  const [stage, setStage] = useState(FAILED_STAGE)
+  // Snapshot of the runs taken when the modal opens
+  const [batch, setBatch] = useState<BulkRetryRun[]>([])
+  const [isLoadingBatch, setIsLoadingBatch] = useState(false)
+  // More failed runs matched than were loaded
+  const [isPartial, setIsPartial] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [statuses, setStatuses] = useState<Record<string, ItemStatus>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [rateLimitedUntil, setRateLimitedUntil] = useState<number | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [isDone, setIsDone] = useState(false)
+  const stopRef = useRef(false)
+
+  const selectedRuns = runs
+    .filter((run) => selectedIds.has(run.id) && isRetryable(run))
+    .map(toRetryRun)
+
+  const openRetry = async (nextSource: RetrySource) => {
+    setSource(nextSource)
+    setStatuses({})
+    setErrors({})
+    setLoadError(null)
+    setIsPartial(false)
+    setIsDone(false)
+
+    if (nextSource === 'selected') {
+      setBatch(selectedRuns)
+      return
+    }
+
+    setBatch([])
+    setIsLoadingBatch(true)
+    try {
+      const params = getFilterParams()
+      params.delete('state')
+      params.append('state', 'FAILED')
+      const { runs: failedRuns, hasMore } = await listAllRuns(
+        params,
+        MAX_RETRY_PAGES
+      )
+      setBatch(failedRuns.map(toRetryRun))
+      setIsPartial(hasMore)
+    } catch (err) {
+      console.error('Error loading failed runs:', err)
+      setLoadError(getErrorMessage(err))
+    } finally {
+      setIsLoadingBatch(false)
+    }
+  }
+
+  const closeRetry = () => {
+    if (isRunning) return
+    const failedIds = batch
+      .filter((run) => statuses[run.id] === 'error')
+      .map((run) => run.id)
+    setSource(null)
+    if (isDone) onComplete(failedIds)
+  }
+
+  const getRetryStage = async (runId: string) => {
+    if (stage !== FAILED_STAGE) return stage
+
+    const { stages = [] } = await getRunStatus(runId)
+    const failedStage = stages.find((runStage) => runStage.state === 'FAILED')
+    if (!failedStage) throw new Error('No failed stage to retry')
+    return failedStage.stage
+  }
+
+  const retryRun = async (runId: string) => {
+    const retryStage = await getRetryStage(runId)
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await retryRunTasks(runId, [retryStage])
+        return
+      } catch (err) {
+        const delay = getRateLimitDelay(err)
+        if (delay === null || attempt >= MAX_RATE_LIMIT_RETRIES) throw err
+
+        setRateLimitedUntil(Date.now() + delay)
+        await wait(delay)
+        setRateLimitedUntil(null)
+      }
+    }
+  }
+
+  // One run at a time, spaced out, so progress is visible and the retry
+  // doesn't land on the workers all at once
+  const runBatch = async () => {
+    stopRef.current = false
+    setIsRunning(true)
+    setStatuses(Object.fromEntries(batch.map((run) => [run.id, 'pending'])))
+    setErrors({})
+
+    for (const [index, run] of batch.entries()) {
+      if (stopRef.current) {
+        setStatuses((prev) => ({ ...prev, [run.id]: 'skipped' }))
+        continue
+      }
+      if (index > 0) await wait(RETRY_INTERVAL_MS)
+
+      try {
+        await retryRun(run.id)
+        setStatuses((prev) => ({ ...prev, [run.id]: 'success' }))
+      } catch (err) {
+        console.error(`Error retrying run ${run.id}:`, err)
+        setStatuses((prev) => ({ ...prev, [run.id]: 'error' }))
+        setErrors((prev) => ({ ...prev, [run.id]: getErrorMessage(err) }))
+      }
+    }
+
+    setIsRunning(false)
+    setIsDone(true)
+  }
+
+  const finishedCount = Object.values(statuses).filter(
+    (status) => status !== 'pending'
+  ).length
+  const succeeded = batch.filter((run) => statuses[run.id] === 'success')
+  const failed = batch.filter((run) => statuses[run.id] === 'error')
+  const skipped = batch.filter((run) => statuses[run.id] === 'skipped')
+  const hasStarted = isRunning || isDone
+
+  return (
+    <>
+      <div className="mb-4 p-3 flex flex-wrap items-center gap-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg">
+        <span className="text-sm font-medium text-gray-700 dark:text-gray-300 mr-2">
+          {selectedRuns.length} failed run
+          {selectedRuns.length === 1 ? '' : 's'} selected
+        </span>
+        <button
+          onClick={() => openRetry('selected')}
+          disabled={selectedRuns.length === 0}
+          className="px-3 py-1 text-sm rounded-md flex items-center gap-1 bg-blue-100 text-blue-800 hover:bg-blue-200 dark:bg-blue-900 dark:text-blue-200 dark:hover:bg-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw className="h-4 w-4" />
+          Retry selected
+        </button>
+        <button
+          onClick={() => openRetry('filtered')}
+          className="px-3 py-1 text-sm rounded-md flex items-center gap-1 bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+        >
+          <RefreshCw className="h-4 w-4" />
+          Retry all failed
+        </button>
+        {selectedRuns.length > 0 && (
+          <button
+            onClick={onClearSelection}
+            className="ml-auto text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+          >
+            Clear selection
+          </button>
+        )}
+      </div>
+
+      <ConfirmModal
+        isOpen={source !== null}
+        onClose={closeRetry}
+        onConfirm={isDone ? closeRetry : runBatch}
+        title="Retry Failed Runs"
+        isSubmitting={isRunning}
+        confirmLabel={isDone ? 'Close' : `Retry ${batch.length}`}
+        submittingLabel={`${finishedCount} / ${batch.length}`}
+        confirmDisabled={!isDone && (isLoadingBatch || batch.length === 0)}
+      >
+        <div className="p-6 space-y-4">
+          {isLoadingBatch && (
+            <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Finding failed runs...
+            </div>
+          )}
+          {loadError && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {loadError}
+            </p>
+          )}
+
+          {!hasStarted && !isLoadingBatch && !loadError && (
+            <>
+              <p className="text-gray-600 dark:text-gray-400">
+                {batch.length === 0
+                  ? 'No failed runs match the current filters.'
+                  : `This will retry ${batch.length} failed run${batch.length === 1 ? '' : 's'}.`}
+              </p>
+
+              {isPartial && (
+                <div className="p-3 rounded-md bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300 flex items-start gap-2">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    More runs failed than can be retried at once. Only the first{' '}
+                    {batch.length} are included; retry again afterwards to pick
+                    up the rest.
+                  </span>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Retry From
+                </label>
+                <select
+                  value={stage}
+                  onChange={(e) => setStage(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200"
+                >
+                  <option value={FAILED_STAGE}>Stage that failed</option>
+                  {STAGE_SORT_ORDER.map((stageName) => (
+                    <option key={stageName} value={stageName}>
+                      {formatStageName(stageName)}
+                    </option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  The chosen stage and every stage after it will run again.
+                </p>
+              </div>
+            </>
+          )}
+
+          {hasStarted && (
+            <>
+              <Progress
+                value={(finishedCount / Math.max(batch.length, 1)) * 100}
+                note={
+                  rateLimitedUntil
+                    ? 'Rate limited, waiting before the next retry...'
+                    : `${finishedCount} of ${batch.length} processed`
+                }
+                animated={isRunning}
+              />
+
+              {isRunning && (
+                <button
+                  onClick={() => {
+                    stopRef.current = true
+                  }}
+                  className="text-sm text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-300"
+                >
+                  Stop after the current run
+                </button>
+              )}
+
+              <ul className="max-h-60 overflow-y-auto divide-y dark:divide-gray-700 text-sm">
+                {batch.map((run) => (
+                  <li
+                    key={run.id}
+                    className="py-1.5 flex items-start gap-2 text-gray-700 dark:text-gray-300"
+                  >
+                    {statuses[run.id] === 'success' && (
+                      <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-500" />
+                    )}
+                    {statuses[run.id] === 'error' && (
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-500" />
+                    )}
+                    {statuses[run.id] === 'skipped' && (
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-gray-400" />
+                    )}
+                    {statuses[run.id] === 'pending' && (
+                      <Loader2 className="h-4 w-4 mt-0.5 shrink-0 text-gray-400 animate-spin" />
+                    )}
+                    <div className="min-w-0">
+                      <div className="truncate">{run.label}</div>
+                      {errors[run.id] && (
+                        <div className="text-xs text-red-600 dark:text-red-400">
+                          {errors[run.id]}
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {isDone && (
+                <div
+                  className={`p-3 rounded-md text-sm flex items-start gap-2 ${
+                    failed.length > 0
+                      ? 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300'
+                      : 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300'
+                  }`}
+                >
+                  {failed.length > 0 ? (
+                    <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  ) : (
+                    <CheckCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  )}
+                  <span>
+                    {succeeded.length} retried
+                    {failed.length > 0 && `, ${failed.length} failed`}
+                    {skipped.length > 0 && `, ${skipped.length} stopped`}.
+                    {failed.length > 0 &&
+                      ' Runs that failed to retry stay selected.'}
+                  </span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </ConfirmModal>
+    </>
+  )
+}
+
+export default BulkRetryRuns
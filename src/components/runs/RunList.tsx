@@ -16,15 +16,22 @@ import {
 } from 'lucide-react'
 
 import { adminAPI } from '../../api/client'
+import { isRunStatusFinal, withRunStatus } from '../../api/runStatus'
 import { useAuth } from '../../hooks/useAuth'
+import { useFilterPresets } from '../../hooks/useFilterPresets'
+import { useRunStatuses } from '../../hooks/useRunStatus'
+import { useSelection } from '../../hooks/useSelection'
 import { RunResponse } from '../../types/generations'
 import { Model } from '../../types/models'
 import { Prompt } from '../../types/prompts'
 import { RunData } from '../../types/runs'
 import { Template } from '../../types/templates'
+import FilterPresetMenu, { PinnedFilterPresets } from '../ui/FilterPresetMenu'
 import RunControls from '../ui/RunControls'
 import { SearchSelect } from '../ui/SearchSelect'
 import { getStatusStyles } from '../ui/StatusStyles'
+import { TemplateVersionBadge } from '../ui/TemplateVersionBadge'
+import BulkRetryRuns, { RetryRunCheckbox } from './BulkRetryRuns'
 
 // Define filter state interface
 interface FilterState {
@@ -90,6 +97,7 @@ const hasActiveFilters = (filters: FilterState): boolean => {
 const RunList = () => {
   const { user } = useAuth()
   const [searchParams, setSearchParams] = useSearchParams()
+  const filterPresets = useFilterPresets('runs')
   const searchInputRef = useRef<HTMLInputElement>(null)
   const [searchTerm, setSearchTerm] = useState('')
   const [error, setError] = useState<string | null>(null)
@@ -101,6 +109,7 @@ const RunList = () => {
     [key: string]: boolean
   }>({})
   const [showFilters, setShowFilters] = useState(false)
+  const { selectedIds, setSelectedIds, toggleSelected } = useSelection()
 
   // Add state for filter options
   const [models, setModels] = useState<Model[]>([])
@@ -175,49 +184,56 @@ const RunList = () => {
       ? parseInt(searchParams.get('page') || '1', 10)
       : 1
     setCurrentPage(page)
+    setSelectedIds(new Set())
 
     // Fetch runs with the filters from URL
     fetchRuns(page)
   }, [searchParams])
 
+  // Server-side query params for the filters currently applied
+  const getFilterParams = () => {
+    const params = new URLSearchParams()
+
+    // Add all filter parameters
+    if (appliedFilters.modelId.length) {
+      appliedFilters.modelId.forEach((id) => params.append('model_id', id))
+    }
+    if (appliedFilters.templateId.length) {
+      appliedFilters.templateId.forEach((id) =>
+        params.append('template_id', id)
+      )
+    }
+    if (appliedFilters.promptId.length) {
+      appliedFilters.promptId.forEach((id) => params.append('prompt_id', id))
+    }
+    if (appliedFilters.states.length) {
+      appliedFilters.states.forEach((state) => params.append('state', state))
+    }
+    if (appliedFilters.completedStages.length) {
+      appliedFilters.completedStages.forEach((stage) =>
+        params.append('completed_stage', stage)
+      )
+    }
+    if (appliedFilters.inProgressStages.length) {
+      appliedFilters.inProgressStages.forEach((stage) =>
+        params.append('in_progress_stage', stage)
+      )
+    }
+    if (appliedFilters.username) {
+      params.append('username', appliedFilters.username)
+    }
+
+    return params
+  }
+
   // Updated fetch runs function that uses the filter state but doesn't depend on initialized flag
   const fetchRuns = async (page: number = 1) => {
     try {
       setRunsData((prev) => ({ ...prev, loading: true }))
 
-      const params = new URLSearchParams({
-        page: page.toString(),
-        page_size: '50',
-      })
-
-      // Add all filter parameters
-      if (appliedFilters.modelId.length) {
-        appliedFilters.modelId.forEach((id) => params.append('model_id', id))
-      }
-      if (appliedFilters.templateId.length) {
-        appliedFilters.templateId.forEach((id) =>
-          params.append('template_id', id)
-        )
-      }
-      if (appliedFilters.promptId.length) {
-        appliedFilters.promptId.forEach((id) => params.append('prompt_id', id))
-      }
-      if (appliedFilters.states.length) {
-        appliedFilters.states.forEach((state) => params.append('state', state))
-      }
-      if (appliedFilters.completedStages.length) {
-        appliedFilters.completedStages.forEach((stage) =>
-          params.append('completed_stage', stage)
-        )
-      }
-      if (appliedFilters.inProgressStages.length) {
-        appliedFilters.inProgressStages.forEach((stage) =>
-          params.append('in_progress_stage', stage)
-        )
-      }
-      if (appliedFilters.username) {
-        params.append('username', appliedFilters.username)
-      }
+      const params = getFilterParams()
+      params.set('page', page.toString())
+      params.set('page_size', '50')
 
       const { data } = await adminAPI.get(`/run?${params.toString()}`)
 
@@ -468,6 +484,13 @@ const RunList = () => {
     setSearchParams(newParams)
   }
 
+  // Apply a saved preset's filters, or clear them for an empty query
+  const handleApplyPreset = (query: string) => {
+    const newParams = new URLSearchParams(query)
+    newParams.set('page', '1')
+    setSearchParams(newParams)
+  }
+
   // Update pagination to use URL params
   const handlePageChange = (newPage: number) => {
     const newParams = new URLSearchParams(searchParams)
@@ -492,6 +515,22 @@ const RunList = () => {
     )
   })
 
+  // Live stage updates for the visible runs that are still going
+  const liveStatuses = useRunStatuses(
+    filteredRuns
+      .filter((run) => !isRunStatusFinal(run.status))
+      .map((run) => run.id)
+  )
+  const visibleRuns = filteredRuns.map((run) =>
+    withRunStatus(run, liveStatuses[run.id])
+  )
+
+  // Keep failures selected for another attempt and refresh the list
+  const handleBulkRetryComplete = (failedIds: string[]) => {
+    setSelectedIds(new Set(failedIds))
+    fetchRuns(currentPage)
+  }
+
   // Create temporary state for filter form values
   const [filterFormState, setFilterFormState] = useState<FilterState>({
     modelId: [],
@@ -532,6 +571,11 @@ const RunList = () => {
               Clear Filters
             </button>
           )}
+          <FilterPresetMenu
+            filterPresets={filterPresets}
+            searchParams={searchParams}
+            onApply={handleApplyPreset}
+          />
           <button
             onClick={() => setShowFilters(!showFilters)}
             className={`flex items-center gap-2 px-4 py-2 text-sm rounded-md ${
@@ -806,6 +850,11 @@ const RunList = () => {
             Completed
           </button>
         </div>
+        <PinnedFilterPresets
+          filterPresets={filterPresets}
+          searchParams={searchParams}
+          onApply={handleApplyPreset}
+        />
       </div>
 
       <div className="mb-6">
@@ -827,6 +876,13 @@ const RunList = () => {
 
       <div className="space-y-8">
         <div>
+          <BulkRetryRuns
+            runs={visibleRuns}
+            selectedIds={selectedIds}
+            getFilterParams={getFilterParams}
+            onClearSelection={() => setSelectedIds(new Set())}
+            onComplete={handleBulkRetryComplete}
+          />
           <div className="bg-white rounded-lg shadow-sm border border-gray-200 dark:bg-gray-800 dark:border-gray-700">
             {runsData.loading && (
               <div className="absolute inset-0 bg-white/50 dark:bg-gray-800/50 flex items-center justify-center z-10">
@@ -835,9 +891,14 @@ const RunList = () => {
             )}
             <div className="divide-y divide-gray-200 dark:divide-gray-700 relative min-h-[100px]">
               {filteredRuns.length > 0 ? (
-                filteredRuns.map((run) => (
+                visibleRuns.map((run) => (
                   <div key={run.id} className="p-4">
                     <div className="flex items-center">
+                      <RetryRunCheckbox
+                        run={run}
+                        checked={selectedIds.has(run.id)}
+                        onToggle={() => toggleSelected(run.id)}
+                      />
                       <button
                         className="mr-2"
                         onClick={() => toggleRun(run.id)}
@@ -866,6 +927,11 @@ const RunList = () => {
                           <span className="dark:text-gray-200">
                             {run.template.name}
                           </span>
+                          {run.templateVersion && (
+                            <TemplateVersionBadge
+                              version={run.templateVersion.version}
+                            />
+                          )}
                         </div>
                         <div className="flex flex-col gap-1">
                           <div>
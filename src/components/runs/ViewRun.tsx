@@ -17,9 +17,11 @@ import {
   User,
   XCircle,
 } from 'lucide-react'
+import * as THREE from 'three'
 
 import { adminAPI } from '../../api/client'
 import { useAuth } from '../../hooks/useAuth'
+import { useRunStatus } from '../../hooks/useRunStatus'
 import { useTheme } from '../../hooks/useTheme'
 import { RunData } from '../../types/runs'
 import { THEME_MODES } from '../../types/theme'
@@ -28,9 +30,11 @@ import {
   getDisplayArtifactKind,
   getDisplayFileName,
 } from '../../utils/artifacts'
+import { ModelMetadata, cleanupComparison } from '../../utils/modelCache'
 import { hasSampleAccess } from '../../utils/permissions'
-import { ModelViewContainer, cleanupComparison } from '../ModelUtils'
+import { ModelViewContainer } from '../ModelUtils'
 import Background from '../background.tsx'
+import { BuildInspector } from '../ui/BuildInspector'
 import Carousel from '../ui/Carousel'
 import RunControls from '../ui/RunControls.tsx'
 import { RunResources } from '../ui/RunResources'
@@ -47,8 +51,6 @@ const isInProgress = (status: string) => {
   return !status.includes('FAILED') && status !== 'COMPLETED'
 }
 
-const POLLING_INTERVAL = 5000 // 5 seconds
-
 const getStatusStyles = (status: string) => {
   switch (status) {
     case 'COMPLETED':
@@ -105,6 +107,11 @@ const ViewRun = () => {
   const [expandedResources, setExpandedResources] = useState(false)
   const [showRaw, setShowRaw] = useState(false)
   const [viewMode, setViewMode] = useState<string | null>(null)
+  const [inspectedModel, setInspectedModel] = useState<THREE.Object3D | null>(
+    null
+  )
+  const [inspectedMetadata, setInspectedMetadata] =
+    useState<ModelMetadata | null>(null)
   const [showScreenshotModal, setShowScreenshotModal] = useState(false)
   const modelViewerRef = useRef<HTMLDivElement>(null)
   const dimensionsRef = useRef<{ width: number; height: number }>()
@@ -115,6 +122,14 @@ const ViewRun = () => {
   const { theme } = useTheme()
   const isDarkMode = theme === THEME_MODES.DARK
 
+  const handleModelReady = useCallback(
+    (model: THREE.Object3D, metadata: ModelMetadata) => {
+      setInspectedModel(model)
+      setInspectedMetadata(metadata)
+    },
+    []
+  )
+
   // Handle orthogonal view changes
   const handleViewChange = (position: string) => {
     // Special case for reset
@@ -194,49 +209,34 @@ const ViewRun = () => {
   }, [id, selectedGltf])
 
   useEffect(() => {
-    let pollInterval: number | null = null
     let isComponentMounted = true
 
-    const startPolling = async () => {
-      if (!isComponentMounted) return
-
+    const loadRun = async () => {
       setLoading(true)
-      const initialData = await fetchRun()
-
-      if (!isComponentMounted) return
-      setLoading(false)
-
-      if (initialData && isInProgress(initialData.status)) {
-        pollInterval = window.setInterval(async () => {
-          if (!isComponentMounted) {
-            if (pollInterval) {
-              window.clearInterval(pollInterval)
-            }
-            return
-          }
-
-          const updatedData = await fetchRun()
-          if (updatedData && !isInProgress(updatedData.status)) {
-            if (pollInterval) {
-              window.clearInterval(pollInterval)
-              pollInterval = null
-            }
-          }
-        }, POLLING_INTERVAL)
-      }
+      await fetchRun()
+      if (isComponentMounted) setLoading(false)
     }
 
-    startPolling()
+    loadRun()
 
     return () => {
       isComponentMounted = false
-      if (pollInterval) {
-        window.clearInterval(pollInterval)
-        pollInterval = null
-      }
     }
   }, [fetchRun])
 
+  // Finished runs don't change, so only follow the run while it's going and
+  // reload it whenever its status moves on
+  const runStatus = run?.status
+  const { status: liveStatus } = useRunStatus(
+    runStatus && isInProgress(runStatus) ? id : undefined
+  )
+
+  useEffect(() => {
+    if (liveStatus && runStatus && liveStatus.status !== runStatus) {
+      fetchRun()
+    }
+  }, [liveStatus, runStatus, fetchRun])
+
   // Update the effect to set the most recent sample when run data is loaded
   useEffect(() => {
     if (run && run.samples.length > 0 && selectedSample === -1) {
@@ -383,6 +383,7 @@ const ViewRun = () => {
           <RunResources
             model={run.model}
             template={run.template}
+            templateVersion={run.templateVersion}
             prompt={run.prompt}
             isExpanded={expandedResources}
             onToggle={() => setExpandedResources(!expandedResources)}
@@ -671,12 +672,21 @@ const ViewRun = () => {
                       onFullscreen={handleFullscreen}
                       showFullscreenButton={true}
                       className="h-full w-full"
+                      onModelReady={handleModelReady}
+                      showSectionControls={true}
                     >
                       <Background />
                     </ModelViewContainer>
                   </div>
                 )}
 
+                {selectedGltf && (
+                  <BuildInspector
+                    model={inspectedModel}
+                    metadata={inspectedMetadata}
+                  />
+                )}
+
                 {/* Screenshot Modal */}
                 {showScreenshotModal && (
                   <ScreenshotShare
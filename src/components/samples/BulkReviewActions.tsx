@@ -0,0 +1,365 @@
+import { useEffect, useState } from 'react'
+
+import { isAxiosError } from 'axios'
+import {
+  AlertCircle,
+  CheckCircle,
+  CheckSquare,
+  FlaskConical,
+  Loader2,
+  XCircle,
+  XSquare,
+} from 'lucide-react'
+
+import { adminAPI } from '../../api/client'
+import {
+  DEFAULT_SAMPLE_ACTION_NOTES,
+  getSampleExperimentalStates,
+  proposeSampleExperimentalState,
+  submitSampleAction,
+} from '../../api/samples'
+import { TestSet } from '../../types/sample'
+import { ConfirmModal } from '../ui/ConfirmModal'
+import { Progress } from '../ui/Progress'
+
+type BulkActionType = 'APPROVE' | 'REJECT' | 'EXPERIMENTAL_STATE'
+type ItemStatus = 'pending' | 'success' | 'error'
+
+export interface BulkReviewSample {
+  id: string
+  label: string
+  experimentalState: string | null
+}
+
+interface BulkReviewActionsProps {
+  samples: BulkReviewSample[]
+  onClearSelection: () => void
+  // Called once a batch has finished, with the samples that failed
+  onComplete: (failedIds: string[]) => void
+}
+
+const ACTION_TITLES: Record<BulkActionType, string> = {
+  APPROVE: 'Approve Samples',
+  REJECT: 'Reject Samples',
+  EXPERIMENTAL_STATE: 'Propose Experimental State',
+}
+
+const NOTE_PLACEHOLDERS: Record<BulkActionType, string> = {
+  APPROVE: DEFAULT_SAMPLE_ACTION_NOTES.APPROVE,
+  REJECT: DEFAULT_SAMPLE_ACTION_NOTES.REJECT,
+  EXPERIMENTAL_STATE: 'Proposed state change',
+}
+
+const getErrorMessage = (err: unknown) => {
+  if (isAxiosError(err) && err.response?.data?.detail) {
+    return String(err.response.data.detail)
+  }
+  return err instanceof Error ? err.message : 'Request failed'
+}
+
+const BulkReviewActions = ({
+  samples,
+  onClearSelection,
+  onComplete,
+}: BulkReviewActionsProps) => {
+  const [action, setAction] = useState<BulkActionType | null>(null)
+  const [note, setNote] = useState('')
+  const [testSets, setTestSets] = useState<TestSet[]>([])
+  const [testSetId, setTestSetId] = useState('')
+  const [availableExperimentalStates, setAvailableExperimentalStates] =
+    useState<{ id: string; name: string }[]>([])
+  const [experimentalState, setExperimentalState] = useState('')
+  // Snapshot of the selection taken when the batch starts
+  const [batch, setBatch] = useState<BulkReviewSample[]>([])
+  const [statuses, setStatuses] = useState<Record<string, ItemStatus>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [isRunning, setIsRunning] = useState(false)
+  const [isDone, setIsDone] = useState(false)
+
+  // Approvals need a test set, so load them the first time one is started
+  useEffect(() => {
+    if (action !== 'APPROVE' || testSets.length > 0) return
+
+    const fetchTestSets = async () => {
+      try {
+        const { data } = await adminAPI.get('/test-set')
+        setTestSets(data)
+      } catch (err) {
+        console.error('Error fetching test sets:', err)
+      }
+    }
+
+    fetchTestSets()
+  }, [action, testSets.length])
+
+  useEffect(() => {
+    if (
+      action !== 'EXPERIMENTAL_STATE' ||
+      availableExperimentalStates.length > 0
+    ) {
+      return
+    }
+
+    const fetchExperimentalStates = async () => {
+      try {
+        setAvailableExperimentalStates(await getSampleExperimentalStates())
+      } catch (err) {
+        console.error('Failed to fetch experimental states:', err)
+      }
+    }
+
+    fetchExperimentalStates()
+  }, [action, availableExperimentalStates.length])
+
+  const openAction = (type: BulkActionType) => {
+    setAction(type)
+    setNote('')
+    setExperimentalState('')
+    setBatch(samples)
+    setStatuses({})
+    setErrors({})
+    setIsDone(false)
+  }
+
+  const closeAction = () => {
+    if (isRunning) return
+    const failedIds = batch
+      .filter((sample) => statuses[sample.id] === 'error')
+      .map((sample) => sample.id)
+    setAction(null)
+    if (isDone) onComplete(failedIds)
+  }
+
+  const submitSample = async (
+    sample: BulkReviewSample,
+    type: BulkActionType
+  ) => {
+    if (type === 'EXPERIMENTAL_STATE') {
+      await proposeSampleExperimentalState(
+        sample.id,
+        sample.experimentalState || 'EXPERIMENTAL',
+        experimentalState,
+        note.trim()
+      )
+    } else {
+      await submitSampleAction(sample.id, type, note.trim(), testSetId)
+    }
+  }
+
+  // One request at a time so progress is visible and the API isn't flooded
+  const runBatch = async () => {
+    if (!action) return
+
+    setIsRunning(true)
+    setStatuses(
+      Object.fromEntries(batch.map((sample) => [sample.id, 'pending']))
+    )
+    setErrors({})
+
+    for (const sample of batch) {
+      try {
+        await submitSample(sample, action)
+        setStatuses((prev) => ({ ...prev, [sample.id]: 'success' }))
+      } catch (err) {
+        console.error(`Error performing ${action} on ${sample.id}:`, err)
+        setStatuses((prev) => ({ ...prev, [sample.id]: 'error' }))
+        setErrors((prev) => ({ ...prev, [sample.id]: getErrorMessage(err) }))
+      }
+    }
+
+    setIsRunning(false)
+    setIsDone(true)
+  }
+
+  const finishedCount = Object.values(statuses).filter(
+    (status) => status !== 'pending'
+  ).length
+  const failed = batch.filter((sample) => statuses[sample.id] === 'error')
+  const hasStarted = isRunning || isDone
+
+  if (samples.length === 0 && !action) return null
+
+  return (
+    <>
+      <div className="mb-4 p-3 flex flex-wrap items-center gap-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
+        <span className="text-sm font-medium text-blue-800 dark:text-blue-200 mr-2">
+          {samples.length} selected
+        </span>
+        <button
+          onClick={() => openAction('APPROVE')}
+          className="px-3 py-1 text-sm rounded-md flex items-center gap-1 bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-900 dark:text-green-200 dark:hover:bg-green-800"
+        >
+          <CheckSquare className="h-4 w-4" />
+          Approve
+        </button>
+        <button
+          onClick={() => openAction('REJECT')}
+          className="px-3 py-1 text-sm rounded-md flex items-center gap-1 bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900 dark:text-red-200 dark:hover:bg-red-800"
+        >
+          <XSquare className="h-4 w-4" />
+          Reject
+        </button>
+        <button
+          onClick={() => openAction('EXPERIMENTAL_STATE')}
+          className="px-3 py-1 text-sm rounded-md flex items-center gap-1 bg-amber-100 text-amber-800 hover:bg-amber-200 dark:bg-amber-900 dark:text-amber-200 dark:hover:bg-amber-800"
+        >
+          <FlaskConical className="h-4 w-4" />
+          Propose State
+        </button>
+        <button
+          onClick={onClearSelection}
+          className="ml-auto text-sm text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+        >
+          Clear selection
+        </button>
+      </div>
+
+      <ConfirmModal
+        isOpen={action !== null}
+        onClose={closeAction}
+        onConfirm={isDone ? closeAction : runBatch}
+        title={action ? ACTION_TITLES[action] : ''}
+        isSubmitting={isRunning}
+        confirmLabel={isDone ? 'Close' : `Apply to ${batch.length}`}
+        submittingLabel={`${finishedCount} / ${batch.length}`}
+        confirmDisabled={
+          !isDone &&
+          batch.length > 0 &&
+          ((action === 'APPROVE' && !testSetId) ||
+            (action === 'EXPERIMENTAL_STATE' && !experimentalState))
+        }
+      >
+        <div className="p-6 space-y-4">
+          {!hasStarted && (
+            <>
+              <p className="text-gray-600 dark:text-gray-400">
+                This will apply to {batch.length} sample
+                {batch.length === 1 ? '' : 's'}.
+              </p>
+
+              {action === 'APPROVE' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Test Set
+                  </label>
+                  <select
+                    value={testSetId}
+                    onChange={(e) => setTestSetId(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200"
+                  >
+                    <option value="">Select a test set</option>
+                    {testSets.map((testSet) => (
+                      <option key={testSet.id} value={testSet.id}>
+                        {testSet.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {action === 'EXPERIMENTAL_STATE' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Proposed State
+                  </label>
+                  <select
+                    value={experimentalState}
+                    onChange={(e) => setExperimentalState(e.target.value)}
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200"
+                  >
+                    <option value="">Select a state</option>
+                    {availableExperimentalStates.map((state) => (
+                      <option key={state.id} value={state.name}>
+                        {state.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Each sample gets a proposal that takes effect once it is
+                    approved.
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Note
+                </label>
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder={action ? NOTE_PLACEHOLDERS[action] : ''}
+                  rows={3}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Shared by every selected sample.
+                </p>
+              </div>
+            </>
+          )}
+
+          {hasStarted && (
+            <>
+              <Progress
+                value={(finishedCount / Math.max(batch.length, 1)) * 100}
+                note={`${finishedCount} of ${batch.length} processed`}
+                animated={isRunning}
+              />
+
+              <ul className="max-h-60 overflow-y-auto divide-y dark:divide-gray-700 text-sm">
+                {batch.map((sample) => (
+                  <li
+                    key={sample.id}
+                    className="py-1.5 flex items-start gap-2 text-gray-700 dark:text-gray-300"
+                  >
+                    {statuses[sample.id] === 'success' && (
+                      <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-500" />
+                    )}
+                    {statuses[sample.id] === 'error' && (
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-500" />
+                    )}
+                    {statuses[sample.id] === 'pending' && (
+                      <Loader2 className="h-4 w-4 mt-0.5 shrink-0 text-gray-400 animate-spin" />
+                    )}
+                    <div className="min-w-0">
+                      <div className="truncate">{sample.label}</div>
+                      {errors[sample.id] && (
+                        <div className="text-xs text-red-600 dark:text-red-400">
+                          {errors[sample.id]}
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {isDone && (
+                <div
+                  className={`p-3 rounded-md text-sm flex items-start gap-2 ${
+                    failed.length > 0
+                      ? 'bg-red-50 text-red-800 dark:bg-red-900/20 dark:text-red-300'
+                      : 'bg-green-50 text-green-800 dark:bg-green-900/20 dark:text-green-300'
+                  }`}
+                >
+                  {failed.length > 0 ? (
+                    <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  ) : (
+                    <CheckCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  )}
+                  <span>
+                    {batch.length - failed.length} succeeded
+                    {failed.length > 0 &&
+                      `, ${failed.length} failed. Failed samples stay selected so you can retry.`}
+                  </span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </ConfirmModal>
+    </>
+  )
+}
+
+export default BulkReviewActions
@@ -0,0 +1,396 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+
+import { AlertCircle, ExternalLink, Link2, Link2Off } from 'lucide-react'
+
+import { getSample } from '../../api/samples'
+import { SampleDetailResponse } from '../../types/sample'
+import { getGltfUrl } from '../../utils/artifacts'
+import { createCameraSyncChannel } from '../../utils/cameraSync'
+import { diffLines } from '../../utils/diff'
+import { cleanupComparison, preloadModel } from '../../utils/modelCache'
+import { ModelViewContainer } from '../ModelUtils'
+import Background from '../background'
+import { SideBySideDiff } from '../ui/SideBySideDiff'
+
+type Side = 'A' | 'B'
+
+const SIDES: Side[] = ['A', 'B']
+
+const getCacheKey = (sample: SampleDetailResponse) => `compare-${sample.id}`
+
+const CompareSamples = () => {
+  const [searchParams] = useSearchParams()
+  const ids = useMemo(
+    () =>
+      (searchParams.get('ids') || '')
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean),
+    [searchParams]
+  )
+  const [samples, setSamples] = useState<SampleDetailResponse[] | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [modelsReady, setModelsReady] = useState<Record<Side, boolean>>({
+    A: false,
+    B: false,
+  })
+  const [viewMode, setViewMode] = useState<Record<Side, string | null>>({
+    A: null,
+    B: null,
+  })
+  const [camerasLinked, setCamerasLinked] = useState(true)
+
+  const idA = ids[0]
+  const idB = ids[1]
+  const hasValidIds = ids.length === 2 && idA !== idB
+
+  useEffect(() => {
+    if (!hasValidIds) {
+      setLoading(false)
+      return
+    }
+
+    const fetchSamples = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        setSamples(await Promise.all([idA, idB].map((id) => getSample(id))))
+      } catch (err) {
+        console.error('Error fetching samples:', err)
+        setError(err instanceof Error ? err.message : 'Failed to fetch samples')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSamples()
+  }, [hasValidIds, idA, idB])
+
+  // Load both builds up front so neither viewer pops in long after the other
+  useEffect(() => {
+    if (!samples) return
+
+    setModelsReady({ A: false, B: false })
+    samples.forEach((sample, index) => {
+      const url = getGltfUrl(sample.artifacts)
+      if (!url) return
+
+      preloadModel(getCacheKey(sample), url)
+        .then(() =>
+          setModelsReady((prev) => ({ ...prev, [SIDES[index]]: true }))
+        )
+        .catch((err) => console.error('Error preloading model:', err))
+    })
+
+    return () => {
+      samples.forEach((sample) => cleanupComparison(getCacheKey(sample)))
+    }
+  }, [samples])
+
+  const cameraSync = useMemo(
+    () => (camerasLinked && samples ? createCameraSyncChannel('A') : null),
+    [camerasLinked, samples]
+  )
+
+  const codeDiff = useMemo(
+    () =>
+      samples
+        ? diffLines(
+            samples[0].resultCodeText || '',
+            samples[1].resultCodeText || ''
+          )
+        : [],
+    [samples]
+  )
+  const addedCount = codeDiff.filter((line) => line.kind === 'added').length
+  const removedCount = codeDiff.filter((line) => line.kind === 'removed').length
+
+  const handleViewChange = (side: Side, position: string) => {
+    // Linked cameras mirror the selected view onto both viewers
+    const sides = camerasLinked ? SIDES : [side]
+    const mode =
+      position === 'reset-view-from-button'
+        ? position
+        : `${position}-${Date.now()}`
+
+    setViewMode((prev) => ({
+      ...prev,
+      ...Object.fromEntries(sides.map((s) => [s, mode])),
+    }))
+  }
+
+  if (!hasValidIds)
+    return (
+      <div className="max-w-6xl mx-auto p-4 text-gray-500 dark:text-gray-400">
+        Provide two different sample ids to compare, e.g.{' '}
+        <code>/samples/compare?ids=a,b</code>
+      </div>
+    )
+  if (loading)
+    return (
+      <div className="flex justify-center p-8">
+        <div className="flex flex-col items-center gap-2">
+          <div className="animate-spin h-8 w-8 border-4 border-blue-500 rounded-full border-t-transparent"></div>
+          <span className="text-gray-700 dark:text-gray-300">
+            Loading samples...
+          </span>
+        </div>
+      </div>
+    )
+  if (error)
+    return <div className="text-red-500 dark:text-red-400 p-4">{error}</div>
+  if (!samples)
+    return (
+      <div className="text-gray-500 dark:text-gray-400 p-4">
+        Samples not found
+      </div>
+    )
+
+  const [sampleA, sampleB] = samples
+  const samePrompt = sampleA.run.prompt.id === sampleB.run.prompt.id
+
+  const resourceRows = [
+    {
+      label: 'Model',
+      values: samples.map((s) => s.run.model.name),
+      links: samples.map((s) => `/models/${s.run.model.id}`),
+    },
+    {
+      label: 'Template',
+      values: samples.map((s) => s.run.template.name),
+      links: samples.map((s) => `/templates/${s.run.template.id}`),
+    },
+    {
+      label: 'Prompt',
+      values: samples.map((s) => s.run.prompt.name),
+      links: samples.map((s) => `/prompts/${s.run.prompt.id}`),
+    },
+    {
+      label: 'Run',
+      values: samples.map((s) => s.run.id),
+      links: samples.map((s) => `/runs/${s.run.id}`),
+    },
+  ]
+
+  const textSections = [
+    {
+      label: 'Inspiration',
+      values: samples.map((s) => s.resultInspirationText),
+    },
+    {
+      label: 'Description',
+      values: samples.map((s) => s.resultDescriptionText),
+    },
+  ]
+
+  return (
+    <div className="max-w-7xl mx-auto p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
+          Compare Samples
+        </h1>
+        <Link
+          to="/samples"
+          className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300"
+        >
+          Back to Samples
+        </Link>
+      </div>
+
+      {!samePrompt && (
+        <div className="flex items-center gap-2 mb-6 p-3 rounded-md bg-amber-50 text-amber-800 border border-amber-200 dark:bg-amber-900/20 dark:text-amber-200 dark:border-amber-800">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          These samples were generated from different prompts.
+        </div>
+      )}
+
+      {/* Builds */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-medium dark:text-white">Builds</h2>
+            <button
+              onClick={() => setCamerasLinked((prev) => !prev)}
+              className={`flex items-center gap-1 text-sm ${
+                camerasLinked
+                  ? 'text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300'
+                  : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200'
+              }`}
+              title="Mirror rotation, zoom and views between both builds"
+            >
+              {camerasLinked ? (
+                <Link2 className="h-4 w-4" />
+              ) : (
+                <Link2Off className="h-4 w-4" />
+              )}
+              <span>{camerasLinked ? 'Cameras linked' : 'Link cameras'}</span>
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {samples.map((sample, index) => {
+              const side = SIDES[index]
+              const gltfUrl = getGltfUrl(sample.artifacts)
+              return (
+                <div key={sample.id} className="space-y-2">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-gray-900 dark:text-gray-100">
+                      {side}: {sample.run.model.name}
+                    </span>
+                    <Link
+                      to={`/samples/${sample.id}`}
+                      className="flex items-center gap-1 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                      View Sample
+                    </Link>
+                  </div>
+                  <div className="aspect-square bg-gray-50 dark:bg-gray-900 overflow-hidden relative">
+                    {!gltfUrl ? (
+                      <div className="absolute inset-0 flex items-center justify-center text-gray-500 dark:text-gray-400">
+                        No 3D model for this sample
+                      </div>
+                    ) : modelsReady[side] ? (
+                      <ModelViewContainer
+                        modelPath={gltfUrl}
+                        cacheKey={getCacheKey(sample)}
+                        initialCameraPosition={[30, 5, 30]}
+                        initialViewMode={viewMode[side]}
+                        onViewChange={(position: string) =>
+                          handleViewChange(side, position)
+                        }
+                        cameraSync={cameraSync}
+                        viewerId={side}
+                        className="h-full w-full"
+                      >
+                        <Background />
+                      </ModelViewContainer>
+                    ) : (
+                      <div className="absolute inset-0 flex items-center justify-center bg-gray-800 bg-opacity-75">
+                        <div className="flex flex-col items-center gap-2">
+                          <div className="animate-spin h-8 w-8 border-4 border-white rounded-full border-t-transparent"></div>
+                          <span className="text-white">
+                            Loading 3D model...
+                          </span>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Runs */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+        <div className="p-6">
+          <h2 className="text-lg font-medium mb-4 dark:text-white">Runs</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                <th className="py-2 pr-4 w-32"></th>
+                <th className="py-2 pr-4">A</th>
+                <th className="py-2">B</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {resourceRows.map((row) => {
+                const differs = row.values[0] !== row.values[1]
+                return (
+                  <tr key={row.label}>
+                    <td className="py-2 pr-4 text-gray-500 dark:text-gray-400">
+                      {row.label}
+                    </td>
+                    {row.values.map((value, index) => (
+                      <td
+                        key={index}
+                        className={`py-2 pr-4 ${
+                          differs
+                            ? 'font-medium text-gray-900 dark:text-gray-100'
+                            : 'text-gray-500 dark:text-gray-400'
+                        }`}
+                      >
+                        <Link
+                          to={row.links[index]}
+                          className="hover:text-blue-600 dark:hover:text-blue-400"
+                        >
+                          {value}
+                        </Link>
+                      </td>
+                    ))}
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Inspiration and description */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+        <div className="p-6 space-y-6">
+          {textSections.map((section) => (
+            <div key={section.label} className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                {section.label}
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {section.values.map((value, index) => (
+                  <div
+                    key={index}
+                    className="bg-gray-50 dark:bg-gray-900 rounded-md p-4 border border-gray-200 dark:border-gray-700 text-left text-gray-900 dark:text-gray-100"
+                  >
+                    <div className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                      {SIDES[index]}
+                    </div>
+                    <p className="whitespace-pre-wrap text-left">
+                      {value || (
+                        <span className="text-gray-400 dark:text-gray-500">
+                          None
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Code diff */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-medium dark:text-white">
+              Generated Code
+            </h2>
+            <div className="text-sm">
+              <span className="text-green-600 dark:text-green-400">
+                +{addedCount}
+              </span>{' '}
+              <span className="text-red-600 dark:text-red-400">
+                -{removedCount}
+              </span>
+              <span className="text-gray-500 dark:text-gray-400 ml-2">
+                (A → B)
+              </span>
+            </div>
+          </div>
+          {sampleA.resultCodeText || sampleB.resultCodeText ? (
+            <SideBySideDiff lines={codeDiff} language="javascript" />
+          ) : (
+            <div className="text-gray-500 dark:text-gray-400">
+              Neither sample has generated code
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CompareSamples
@@ -6,7 +6,9 @@ import {
   CheckCircle,
   CheckSquare,
   CircleEllipsis,
+  ClipboardCheck,
   Clock,
+  Columns2,
   ExternalLink,
   FileCode,
   Filter,
@@ -20,11 +22,15 @@ import {
 
 import { adminAPI } from '../../api/client'
 import { useAuth } from '../../hooks/useAuth'
+import { useFilterPresets } from '../../hooks/useFilterPresets'
 import { Model } from '../../types/models'
 import { Prompt, Tag } from '../../types/prompts'
 import { SampleApprovalState } from '../../types/sample'
 import { Template } from '../../types/templates'
+import { hasSampleReviewAccess } from '../../utils/permissions'
+import FilterPresetMenu, { PinnedFilterPresets } from '../ui/FilterPresetMenu'
 import { SearchSelect } from '../ui/SearchSelect'
+import BulkReviewActions from './BulkReviewActions'
 
 interface SampleResponse {
   id: string
@@ -165,6 +171,7 @@ const QUICK_FILTERS = {
 const ListSamples = () => {
   const { user } = useAuth()
   const [searchParams, setSearchParams] = useSearchParams()
+  const filterPresets = useFilterPresets('samples')
   const [models, setModels] = useState<Model[]>([])
   const [templates, setTemplates] = useState<Template[]>([])
   const [prompts, setPrompts] = useState<Prompt[]>([])
@@ -178,6 +185,8 @@ const ListSamples = () => {
   const [promptSearch, setPromptSearch] = useState('')
   const [tagSearch, setTagSearch] = useState('')
   const [showFilters, setShowFilters] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const canReviewSamples = hasSampleReviewAccess(user?.scopes || [])
 
   // Pagination state - remove currentPage since we use paging.page now
   // We're keeping setCurrentPage for compatibility with any existing code
@@ -250,6 +259,9 @@ const ListSamples = () => {
 
     // Fetch data with filters from URL
     fetchData()
+
+    // Selection only covers the page being shown
+    setSelectedIds(new Set())
   }, [searchParams])
 
   // Fetch all filter options once on component mount
@@ -600,6 +612,48 @@ const ListSamples = () => {
     setSearchParams(newParams)
   }
 
+  // Apply a saved preset's filters, or clear them for an empty query
+  const handleApplyPreset = (query: string) => {
+    const newParams = new URLSearchParams(query)
+    newParams.set('page', '1')
+    setSearchParams(newParams)
+  }
+
+  // Only finished samples can be reviewed or compared
+  const isSelectable = (sample: SampleResponse) =>
+    sample.isComplete && !sample.isPending
+
+  const selectableSamples = samples.filter(isSelectable)
+  const allSelected =
+    selectableSamples.length > 0 &&
+    selectableSamples.every((sample) => selectedIds.has(sample.id))
+
+  const toggleSelected = (sampleId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(sampleId)) {
+        next.delete(sampleId)
+      } else {
+        next.add(sampleId)
+      }
+      return next
+    })
+  }
+
+  const toggleSelectAll = () => {
+    setSelectedIds(
+      allSelected
+        ? new Set()
+        : new Set(selectableSamples.map((sample) => sample.id))
+    )
+  }
+
+  // Keep failures selected for a retry and refresh the review states
+  const handleBulkComplete = (failedIds: string[]) => {
+    setSelectedIds(new Set(failedIds))
+    fetchData()
+  }
+
   // Update pagination to use URL params directly
   const handlePageChange = (newPage: number) => {
     const newParams = new URLSearchParams(searchParams)
@@ -627,6 +681,20 @@ const ListSamples = () => {
               Clear Filters
             </button>
           )}
+          {canReviewSamples && (
+            <Link
+              to="/samples/review"
+              className="flex items-center gap-2 px-4 py-2 text-sm rounded-md bg-blue-500 text-white hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700"
+            >
+              <ClipboardCheck className="h-4 w-4" />
+              Review Queue
+            </Link>
+          )}
+          <FilterPresetMenu
+            filterPresets={filterPresets}
+            searchParams={searchParams}
+            onApply={handleApplyPreset}
+          />
           <button
             onClick={() => setShowFilters(!showFilters)}
             className={`flex items-center gap-2 px-4 py-2 text-sm rounded-md ${
@@ -992,6 +1060,11 @@ const ListSamples = () => {
               {QUICK_FILTERS.pending.label}
             </button>
           </div>
+          <PinnedFilterPresets
+            filterPresets={filterPresets}
+            searchParams={searchParams}
+            onApply={handleApplyPreset}
+          />
         </div>
       </div>
 
@@ -1003,10 +1076,58 @@ const ListSamples = () => {
         </div>
       ) : (
         <>
+          {selectedIds.size === 2 && (
+            <div className="mb-4 flex justify-end">
+              <Link
+                to={`/samples/compare?ids=${Array.from(selectedIds).join(',')}`}
+                className="flex items-center gap-2 px-4 py-2 text-sm rounded-md bg-blue-500 text-white hover:bg-blue-600 dark:bg-blue-600 dark:hover:bg-blue-700"
+              >
+                <Columns2 className="h-4 w-4" />
+                Compare Selected
+              </Link>
+            </div>
+          )}
+          {canReviewSamples && (
+            <>
+              <BulkReviewActions
+                samples={samples
+                  .filter((sample) => selectedIds.has(sample.id))
+                  .map((sample) => ({
+                    id: sample.id,
+                    label: `${sample.run.model.slug} · ${sample.run.prompt.name}`,
+                    experimentalState: sample.experimentalState,
+                  }))}
+                onClearSelection={() => setSelectedIds(new Set())}
+                onComplete={handleBulkComplete}
+              />
+              {selectableSamples.length > 0 && (
+                <label className="mb-2 flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={toggleSelectAll}
+                    className="rounded border-gray-300 dark:border-gray-600"
+                  />
+                  Select all reviewable samples on this page
+                </label>
+              )}
+            </>
+          )}
+
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border divide-y dark:divide-gray-700">
             {samples.map((sample) => (
               <div key={sample.id} className="p-4">
                 <div className="flex justify-between">
+                  <div className="pr-4 pt-0.5">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.has(sample.id)}
+                      onChange={() => toggleSelected(sample.id)}
+                      disabled={!isSelectable(sample)}
+                      aria-label="Select sample"
+                      className="rounded border-gray-300 dark:border-gray-600 disabled:opacity-30"
+                    />
+                  </div>
                   <div className="flex-1">
                     <div className="space-y-2">
                       <div className="flex items-center gap-2">
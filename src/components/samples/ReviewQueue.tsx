@@ -0,0 +1,603 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
+import {
+  oneDark,
+  oneLight,
+} from 'react-syntax-highlighter/dist/esm/styles/prism'
+
+import {
+  CheckCircle,
+  ExternalLink,
+  HelpCircle,
+  Loader2,
+  SkipForward,
+  X,
+  XCircle,
+} from 'lucide-react'
+
+import { adminAPI } from '../../api/client'
+import { getSample, submitSampleAction } from '../../api/samples'
+import { useAuth } from '../../hooks/useAuth'
+import { useTheme } from '../../hooks/useTheme'
+import { SampleDetailResponse, TestSet } from '../../types/sample'
+import { THEME_MODES } from '../../types/theme'
+import { getGltfUrl } from '../../utils/artifacts'
+import { isTypingTarget } from '../../utils/keyboard'
+import { cleanupComparison, preloadModel } from '../../utils/modelCache'
+import { hasSampleReviewAccess } from '../../utils/permissions'
+import { ModelViewContainer } from '../ModelUtils'
+import Background from '../background'
+import KeyboardShortcutsModal, {
+  KeyboardShortcutGroup,
+} from '../ui/KeyboardShortcutsModal'
+
+const QUEUE_PAGE_SIZE = 20
+
+// Samples that are finished, released and still waiting on a decision
+const QUEUE_FILTERS = {
+  approval_state: 'PENDING_APPROVAL',
+  pending: 'false',
+  complete: 'true',
+  experimental_state: 'RELEASED',
+}
+
+const SHORTCUT_GROUPS: KeyboardShortcutGroup[] = [
+  {
+    title: 'Review',
+    shortcuts: [
+      { keys: ['A'], description: 'Approve sample' },
+      { keys: ['R'], description: 'Reject sample (note required)' },
+      { keys: ['S', '→'], description: 'Skip sample' },
+    ],
+  },
+  {
+    title: 'Rejection note',
+    shortcuts: [
+      { keys: ['Enter'], description: 'Submit rejection' },
+      { keys: ['Shift+Enter'], description: 'New line' },
+      { keys: ['Esc'], description: 'Cancel rejection' },
+    ],
+  },
+  {
+    title: 'General',
+    shortcuts: [{ keys: ['?'], description: 'Show this help' }],
+  },
+]
+
+interface QueueListResponse {
+  data: { id: string }[]
+  paging: { hasNext: boolean }
+}
+
+interface SessionCounts {
+  approved: number
+  rejected: number
+  skipped: number
+}
+
+const getCacheKey = (sampleId: string) => `review-${sampleId}`
+
+const ReviewQueue = () => {
+  const { user } = useAuth()
+  const canReviewSamples = hasSampleReviewAccess(user?.scopes || [])
+  const { theme } = useTheme()
+  const isDarkMode = theme === THEME_MODES.DARK
+
+  const [queue, setQueue] = useState<string[]>([])
+  const [isQueueLoading, setIsQueueLoading] = useState(false)
+  const [isExhausted, setIsExhausted] = useState(false)
+  // Samples decided or skipped this session, so they aren't served again
+  const seenRef = useRef<Set<string>>(new Set())
+
+  const [sample, setSample] = useState<SampleDetailResponse | null>(null)
+  const [isSampleLoading, setIsSampleLoading] = useState(false)
+  const [isModelReady, setIsModelReady] = useState(false)
+  const [viewMode, setViewMode] = useState<string | null>(null)
+
+  const [testSets, setTestSets] = useState<TestSet[]>([])
+  const [testSetId, setTestSetId] = useState('')
+  const [isRejecting, setIsRejecting] = useState(false)
+  const [rejectNote, setRejectNote] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [showShortcuts, setShowShortcuts] = useState(false)
+  const [counts, setCounts] = useState<SessionCounts>({
+    approved: 0,
+    rejected: 0,
+    skipped: 0,
+  })
+
+  const currentId = queue[0] ?? null
+
+  // Reviewed samples drop out of the pending list, so walk it from the first
+  // page and take the first batch we haven't seen yet
+  const loadQueue = useCallback(async () => {
+    setIsQueueLoading(true)
+    try {
+      for (let page = 1; ; page++) {
+        const params = new URLSearchParams({
+          ...QUEUE_FILTERS,
+          page: String(page),
+          page_size: String(QUEUE_PAGE_SIZE),
+        })
+        const { data } = await adminAPI.get<QueueListResponse>(
+          `/sample?${params.toString()}`
+        )
+        const fresh = data.data
+          .map((item) => item.id)
+          .filter((id) => !seenRef.current.has(id))
+
+        if (fresh.length > 0) {
+          setQueue(fresh)
+          return
+        }
+        if (!data.paging.hasNext) {
+          setIsExhausted(true)
+          return
+        }
+      }
+    } catch (err) {
+      console.error('Error loading review queue:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load queue')
+      setIsExhausted(true)
+    } finally {
+      setIsQueueLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!canReviewSamples) return
+    if (queue.length === 0 && !isExhausted && !isQueueLoading) {
+      loadQueue()
+    }
+  }, [canReviewSamples, queue.length, isExhausted, isQueueLoading, loadQueue])
+
+  useEffect(() => {
+    if (!canReviewSamples) return
+
+    const fetchTestSets = async () => {
+      try {
+        const { data } = await adminAPI.get('/test-set')
+        setTestSets(data)
+      } catch (err) {
+        console.error('Error fetching test sets:', err)
+      }
+    }
+
+    fetchTestSets()
+  }, [canReviewSamples])
+
+  // Load the sample at the head of the queue along with its build
+  useEffect(() => {
+    if (!currentId) {
+      setSample(null)
+      return
+    }
+
+    let cancelled = false
+    // Drop the previous sample so nothing can act on it while this one loads
+    setSample(null)
+    setIsSampleLoading(true)
+    setIsModelReady(false)
+    setIsRejecting(false)
+    setRejectNote('')
+    setViewMode(null)
+
+    const loadSample = async () => {
+      try {
+        const data = await getSample(currentId)
+        if (cancelled) return
+        setSample(data)
+
+        const url = getGltfUrl(data.artifacts)
+        if (url) {
+          await preloadModel(getCacheKey(currentId), url)
+          if (!cancelled) setIsModelReady(true)
+        }
+      } catch (err) {
+        console.error('Error loading sample for review:', err)
+        if (!cancelled) setError('Failed to load sample')
+      } finally {
+        if (!cancelled) setIsSampleLoading(false)
+      }
+    }
+
+    loadSample()
+
+    return () => {
+      cancelled = true
+      cleanupComparison(getCacheKey(currentId))
+    }
+  }, [currentId])
+
+  const advance = () => {
+    if (!currentId) return
+    seenRef.current.add(currentId)
+    setQueue((prev) => prev.slice(1))
+    setError(null)
+  }
+
+  const approveTestSetId = sample?.testSetId || testSetId
+  const isCurrentSample = sample !== null && sample.id === currentId
+
+  const handleApprove = async () => {
+    if (!sample || !isCurrentSample || isSubmitting) return
+    if (!approveTestSetId) {
+      setError('Choose a test set for approvals first.')
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await submitSampleAction(
+        sample.id,
+        'APPROVE',
+        undefined,
+        approveTestSetId
+      )
+      setCounts((prev) => ({ ...prev, approved: prev.approved + 1 }))
+      advance()
+    } catch (err) {
+      console.error('Error approving sample:', err)
+      setError('Failed to approve sample.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleReject = async () => {
+    if (!sample || !isCurrentSample || isSubmitting || !rejectNote.trim()) {
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      await submitSampleAction(sample.id, 'REJECT', rejectNote.trim())
+      setCounts((prev) => ({ ...prev, rejected: prev.rejected + 1 }))
+      advance()
+    } catch (err) {
+      console.error('Error rejecting sample:', err)
+      setError('Failed to reject sample.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  // Also allowed when the sample failed to load, so the queue can move on
+  const handleSkip = () => {
+    if (!currentId || isSubmitting || isSampleLoading) return
+    setCounts((prev) => ({ ...prev, skipped: prev.skipped + 1 }))
+    advance()
+  }
+
+  const handleViewChange = (position: string) => {
+    setViewMode(
+      position === 'reset-view-from-button'
+        ? position
+        : `${position}-${Date.now()}`
+    )
+  }
+
+  // Re-bound on every render so the handler sees the current sample
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return
+
+      if (e.key === '?') {
+        e.preventDefault()
+        setShowShortcuts((prev) => !prev)
+        return
+      }
+
+      if (showShortcuts || !isCurrentSample || isSampleLoading || isRejecting) {
+        return
+      }
+
+      switch (e.key) {
+        case 'a':
+        case 'A':
+          e.preventDefault()
+          handleApprove()
+          return
+        case 'r':
+        case 'R':
+          e.preventDefault()
+          setIsRejecting(true)
+          return
+        case 's':
+        case 'S':
+        case 'ArrowRight':
+          e.preventDefault()
+          handleSkip()
+          return
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  })
+
+  if (!canReviewSamples) {
+    return (
+      <div className="max-w-6xl mx-auto p-4 text-red-500 dark:text-red-400">
+        You don't have permission to review samples.
+      </div>
+    )
+  }
+
+  const modelUrl = sample ? getGltfUrl(sample.artifacts) : null
+  const reviewedCount = counts.approved + counts.rejected + counts.skipped
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-gray-100 dark:bg-gray-900">
+      {/* Top bar */}
+      <div className="flex flex-wrap items-center gap-4 px-4 py-3 bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <h1 className="text-lg font-bold text-gray-900 dark:text-gray-100">
+          Review Queue
+        </h1>
+
+        <div className="flex items-center gap-3 text-sm">
+          <span className="flex items-center gap-1 text-green-700 dark:text-green-400">
+            <CheckCircle className="h-4 w-4" />
+            {counts.approved} approved
+          </span>
+          <span className="flex items-center gap-1 text-red-700 dark:text-red-400">
+            <XCircle className="h-4 w-4" />
+            {counts.rejected} rejected
+          </span>
+          <span className="flex items-center gap-1 text-gray-600 dark:text-gray-400">
+            <SkipForward className="h-4 w-4" />
+            {counts.skipped} skipped
+          </span>
+          <span className="text-gray-500 dark:text-gray-400">
+            ({reviewedCount} this session)
+          </span>
+        </div>
+
+        <div className="ml-auto flex items-center gap-3">
+          <select
+            value={testSetId}
+            onChange={(e) => setTestSetId(e.target.value)}
+            className="rounded-md border border-gray-300 px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200"
+            title="Test set for samples without one"
+          >
+            <option value="">Test set for approvals…</option>
+            {testSets.map((testSet) => (
+              <option key={testSet.id} value={testSet.id}>
+                {testSet.name}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowShortcuts(true)}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            title="Keyboard shortcuts (?)"
+          >
+            <HelpCircle className="h-5 w-5" />
+          </button>
+          <Link
+            to="/samples"
+            className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white"
+          >
+            <X className="h-4 w-4" />
+            Exit
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-4 py-2 bg-red-50 dark:bg-red-900/20 text-sm text-red-800 dark:text-red-300 border-b border-red-200 dark:border-red-800">
+          {error}
+        </div>
+      )}
+
+      {/* Body */}
+      {!sample && (isQueueLoading || isSampleLoading) && (
+        <div className="flex-1 flex items-center justify-center">
+          <div className="animate-spin h-8 w-8 border-4 border-blue-500 rounded-full border-t-transparent"></div>
+        </div>
+      )}
+
+      {!sample && currentId && !isSampleLoading && (
+        <div className="flex-1 flex flex-col items-center justify-center gap-2 text-gray-600 dark:text-gray-300">
+          <p>This sample couldn't be loaded.</p>
+          <button
+            onClick={handleSkip}
+            disabled={isSubmitting}
+            className="flex items-center gap-2 px-4 py-2 text-sm border rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800 dark:border-gray-700"
+          >
+            <SkipForward className="h-4 w-4" />
+            Skip to the next sample
+          </button>
+        </div>
+      )}
+
+      {!sample && isExhausted && !isQueueLoading && (
+        <div className="flex-1 flex flex-col items-center justify-center gap-2 text-gray-600 dark:text-gray-300">
+          <CheckCircle className="h-10 w-10 text-green-500" />
+          <p className="text-lg font-medium">
+            No more samples waiting for review.
+          </p>
+          <Link
+            to="/samples"
+            className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+          >
+            Back to Samples
+          </Link>
+        </div>
+      )}
+
+      {sample && (
+        <div className="flex-1 min-h-0 grid grid-cols-1 lg:grid-cols-3">
+          {/* Build viewer */}
+          <div className="relative lg:col-span-2 min-h-[50vh] bg-gray-200 dark:bg-gray-950">
+            {modelUrl && isModelReady ? (
+              <ModelViewContainer
+                key={sample.id}
+                modelPath={modelUrl}
+                cacheKey={getCacheKey(sample.id)}
+                initialCameraPosition={[30, 5, 30]}
+                initialViewMode={viewMode}
+                onViewChange={handleViewChange}
+                className="h-full w-full"
+                showSectionControls={true}
+              >
+                <Background />
+              </ModelViewContainer>
+            ) : (
+              <div className="absolute inset-0 flex items-center justify-center text-gray-500 dark:text-gray-400">
+                {modelUrl ? (
+                  <Loader2 className="h-8 w-8 animate-spin" />
+                ) : (
+                  'No rendered build for this sample'
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Details and actions */}
+          <div className="min-h-0 flex flex-col bg-white dark:bg-gray-800 border-l border-gray-200 dark:border-gray-700">
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+              <div className="space-y-1 text-sm">
+                <div className="font-medium text-gray-900 dark:text-gray-100">
+                  {sample.run.model.slug}
+                </div>
+                <div className="text-gray-600 dark:text-gray-400">
+                  {sample.run.prompt.name}
+                </div>
+                <div className="text-gray-500 dark:text-gray-500">
+                  {sample.run.template.name}
+                </div>
+                <Link
+                  to={`/samples/${sample.id}`}
+                  target="_blank"
+                  className="inline-flex items-center gap-1 text-blue-500 hover:text-blue-600"
+                >
+                  <ExternalLink size={14} />
+                  Open sample
+                </Link>
+              </div>
+
+              {sample.run.prompt.buildSpecification && (
+                <div className="space-y-1">
+                  <label className="block text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                    Prompt
+                  </label>
+                  <p className="text-sm whitespace-pre-wrap text-gray-900 dark:text-gray-100">
+                    {sample.run.prompt.buildSpecification}
+                  </p>
+                </div>
+              )}
+
+              {sample.resultDescriptionText && (
+                <div className="space-y-1">
+                  <label className="block text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                    Description
+                  </label>
+                  <p className="text-sm whitespace-pre-wrap text-gray-900 dark:text-gray-100">
+                    {sample.resultDescriptionText}
+                  </p>
+                </div>
+              )}
+
+              {sample.resultCodeText && (
+                <div className="space-y-1">
+                  <label className="block text-xs font-medium uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                    Code
+                  </label>
+                  <SyntaxHighlighter
+                    language="javascript"
+                    style={isDarkMode ? oneDark : oneLight}
+                    className="rounded-md border border-gray-200 dark:border-gray-700 text-xs"
+                  >
+                    {sample.resultCodeText}
+                  </SyntaxHighlighter>
+                </div>
+              )}
+            </div>
+
+            <div className="p-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+              {isRejecting ? (
+                <div className="space-y-2">
+                  <textarea
+                    value={rejectNote}
+                    onChange={(e) => setRejectNote(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault()
+                        handleReject()
+                      } else if (e.key === 'Escape') {
+                        setIsRejecting(false)
+                        setRejectNote('')
+                      }
+                    }}
+                    placeholder="Why is this sample being rejected?"
+                    rows={3}
+                    autoFocus
+                    className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      onClick={handleReject}
+                      disabled={!rejectNote.trim() || isSubmitting}
+                      className="flex-1 px-4 py-2 text-sm font-medium text-white bg-red-500 rounded-md hover:bg-red-600 dark:bg-red-600 dark:hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isSubmitting ? 'Submitting...' : 'Reject'}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setIsRejecting(false)
+                        setRejectNote('')
+                      }}
+                      className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-3 gap-2">
+                  <button
+                    onClick={handleApprove}
+                    disabled={isSubmitting || isSampleLoading}
+                    className="px-3 py-2 text-sm font-medium rounded-md bg-green-500 text-white hover:bg-green-600 dark:bg-green-600 dark:hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Approve <kbd className="ml-1 text-xs opacity-75">A</kbd>
+                  </button>
+                  <button
+                    onClick={() => setIsRejecting(true)}
+                    disabled={isSubmitting || isSampleLoading}
+                    className="px-3 py-2 text-sm font-medium rounded-md bg-red-500 text-white hover:bg-red-600 dark:bg-red-600 dark:hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Reject <kbd className="ml-1 text-xs opacity-75">R</kbd>
+                  </button>
+                  <button
+                    onClick={handleSkip}
+                    disabled={isSubmitting || isSampleLoading}
+                    className="px-3 py-2 text-sm font-medium rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    Skip <kbd className="ml-1 text-xs opacity-75">S</kbd>
+                  </button>
+                </div>
+              )}
+              {!approveTestSetId && !isRejecting && (
+                <p className="text-xs text-amber-600 dark:text-amber-400">
+                  This sample has no test set. Pick one above to approve it.
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <KeyboardShortcutsModal
+        isOpen={showShortcuts}
+        onClose={() => setShowShortcuts(false)}
+        groups={SHORTCUT_GROUPS}
+      />
+    </div>
+  )
+}
+
+export default ReviewQueue
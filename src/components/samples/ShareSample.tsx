@@ -12,11 +12,8 @@ import { Camera, Check, Copy, Share2 } from 'lucide-react'
 import { getSample } from '../../api/leaderboard'
 import { SampleResponse } from '../../types/leaderboard'
 import { getArtifactUrl, getDisplayFileName } from '../../utils/artifacts'
-import {
-  ModelViewContainer,
-  cleanupComparison,
-  preloadModel,
-} from '../ModelUtils'
+import { cleanupComparison, preloadModel } from '../../utils/modelCache'
+import { ModelViewContainer } from '../ModelUtils'
 import Background from '../background'
 import Carousel from '../ui/Carousel'
 import Modal from '../ui/Modal'
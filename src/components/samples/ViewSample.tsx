@@ -19,8 +19,10 @@ import {
   User,
   XCircle,
 } from 'lucide-react'
+import * as THREE from 'three'
 
 import { adminAPI } from '../../api/client'
+import { submitSampleAction } from '../../api/samples'
 import { useAuth } from '../../hooks/useAuth'
 import { EXPERIMENTAL_STATES } from '../../types/common'
 import { SampleDetailResponse, TestSet } from '../../types/sample'
@@ -29,18 +31,20 @@ import {
   getDisplayArtifactKind,
   getDisplayFileName,
 } from '../../utils/artifacts'
+import {
+  ModelMetadata,
+  cleanupComparison,
+  preloadModel,
+} from '../../utils/modelCache'
 import {
   hasGenerationAccess,
   hasRunAccess,
   hasSampleReviewAccess,
   hasVotingAdminAccess,
 } from '../../utils/permissions'
-import {
-  ModelViewContainer,
-  cleanupComparison,
-  preloadModel,
-} from '../ModelUtils'
+import { ModelViewContainer } from '../ModelUtils'
 import Background from '../background'
+import { BuildInspector } from '../ui/BuildInspector'
 import Carousel from '../ui/Carousel'
 import { RunResources } from '../ui/RunResources'
 import ScreenshotShare from '../ui/ScreenshotShare'
@@ -73,6 +77,11 @@ const ViewSample = () => {
     window.matchMedia('(prefers-color-scheme: dark)').matches
   )
   const [viewMode, setViewMode] = useState<string | null>(null)
+  const [inspectedModel, setInspectedModel] = useState<THREE.Object3D | null>(
+    null
+  )
+  const [inspectedMetadata, setInspectedMetadata] =
+    useState<ModelMetadata | null>(null)
   const [currentAction, setCurrentAction] = useState<
     'APPROVE' | 'REJECT' | 'OBSERVE' | null
   >(null)
@@ -239,6 +248,14 @@ const ViewSample = () => {
     }
   }, [])
 
+  const handleModelReady = useCallback(
+    (model: THREE.Object3D, metadata: ModelMetadata) => {
+      setInspectedModel(model)
+      setInspectedMetadata(metadata)
+    },
+    []
+  )
+
   // Handle orthogonal view changes
   const handleViewChange = (position: string) => {
     // Special case for reset
@@ -293,25 +310,7 @@ const ViewSample = () => {
 
     setIsSubmitting(true)
     try {
-      let endpoint = ''
-      const payload: { note?: string; testSetId?: string } = {}
-
-      if (type === 'APPROVE') {
-        endpoint = `/sample/${sample.id}/approve`
-        // Always include a note, use default if none provided
-        payload.note = justification || 'Sample Approved'
-        if (testSetId) {
-          payload.testSetId = testSetId
-        }
-      } else if (type === 'REJECT') {
-        endpoint = `/sample/${sample.id}/reject`
-        payload.note = justification || 'Rejected from voting'
-      } else if (type === 'OBSERVE') {
-        endpoint = `/sample/${sample.id}/observe`
-        payload.note = justification || ''
-      }
-
-      await adminAPI.post(endpoint, payload)
+      await submitSampleAction(sample.id, type, justification, testSetId)
 
       // Reload the sample data after action
       await fetchSample()
@@ -1065,12 +1064,22 @@ const ViewSample = () => {
                     onFullscreen={handleFullscreen}
                     showFullscreenButton={true}
                     className="h-full w-full"
+                    onModelReady={handleModelReady}
+                    showSectionControls={true}
                   >
                     <Background />
                   </ModelViewContainer>
                 </div>
               )}
             </div>
+            {selectedGltf && !isModelLoading && !modelError && (
+              <div className="mt-4">
+                <BuildInspector
+                  model={inspectedModel}
+                  metadata={inspectedMetadata}
+                />
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -1,12 +1,16 @@
-import React, { useState } from 'react'
-import { useNavigate } from 'react-router-dom'
+import React, { useEffect, useState } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
 
-import { AlertCircle } from 'lucide-react'
+import { AlertCircle, GitBranch } from 'lucide-react'
 
 import { adminAPI } from '../../api/client'
+import { getTemplateVersion } from '../../api/templates'
+import { TemplateVersionRef } from '../../types/templates'
+import TemplatePreview from './TemplatePreview'
 
 const CreateTemplate = () => {
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
   const [formData, setFormData] = useState({
     name: '',
     description: '',
@@ -14,6 +18,37 @@ const CreateTemplate = () => {
   })
   const [error, setError] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  // Set when starting from a version of another template, to keep lineage
+  const [forkedFrom, setForkedFrom] = useState<TemplateVersionRef | null>(null)
+
+  const forkTemplateId = searchParams.get('fork')
+  const forkVersionId = searchParams.get('version')
+
+  useEffect(() => {
+    if (!forkTemplateId || !forkVersionId) return
+
+    const fetchForkedVersion = async () => {
+      try {
+        const version = await getTemplateVersion(forkTemplateId, forkVersionId)
+        setFormData({
+          name: `${version.name} (fork of v${version.version})`,
+          description: version.description,
+          content: version.content,
+        })
+        setForkedFrom({
+          id: version.id,
+          templateId: forkTemplateId,
+          version: version.version,
+        })
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to load template version'
+        )
+      }
+    }
+
+    fetchForkedVersion()
+  }, [forkTemplateId, forkVersionId])
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
@@ -34,6 +69,7 @@ const CreateTemplate = () => {
       await adminAPI.post('/template', {
         ...formData,
         active: true,
+        forkedFromVersionId: forkedFrom?.id,
       })
       navigate('/templates')
     } catch (err) {
@@ -64,6 +100,22 @@ const CreateTemplate = () => {
         </div>
       )}
 
+      {forkedFrom && (
+        <div className="mb-6 px-4 py-3 rounded-md flex items-center gap-2 text-sm bg-blue-50 dark:bg-blue-900/20 text-blue-800 dark:text-blue-300">
+          <GitBranch className="h-4 w-4" />
+          <span>
+            Forking v{forkedFrom.version} of{' '}
+            <Link
+              to={`/templates/${forkedFrom.templateId}`}
+              className="underline hover:no-underline"
+            >
+              the original template
+            </Link>
+            . The new template will record where it came from.
+          </span>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         <div className="space-y-2">
           <label
@@ -122,6 +174,8 @@ const CreateTemplate = () => {
           />
         </div>
 
+        <TemplatePreview content={formData.content} />
+
         <div className="flex justify-end gap-4">
           <button
             type="button"
@@ -5,6 +5,8 @@ import { AlertCircle, CheckCircle, Clock, User, XCircle } from 'lucide-react'
 
 import { adminAPI } from '../../api/client'
 import { Template } from '../../types/templates'
+import { getTemplateEditBlocker } from '../../utils/templateEditing'
+import TemplatePreview from './TemplatePreview'
 
 const EditTemplate = () => {
   const { id } = useParams()
@@ -17,6 +19,8 @@ const EditTemplate = () => {
   const [originalTemplate, setOriginalTemplate] = useState<Template | null>(
     null
   )
+  // Saved with the new version so the history says why it changed
+  const [versionNote, setVersionNote] = useState('')
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -56,8 +60,10 @@ const EditTemplate = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    if (!originalTemplate || originalTemplate.usage > 0) {
-      setError('Cannot edit a template that is in use')
+    if (!originalTemplate) return
+    const editBlocker = getTemplateEditBlocker(originalTemplate)
+    if (editBlocker) {
+      setError(editBlocker)
       return
     }
 
@@ -68,6 +74,7 @@ const EditTemplate = () => {
       await adminAPI.patch(`/template/${id}`, {
         ...formData,
         active: originalTemplate.active,
+        versionNote: versionNote.trim() || undefined,
       })
       navigate(`/templates/${id}`)
     } catch (err) {
@@ -86,11 +93,12 @@ const EditTemplate = () => {
   if (error) return <div className="text-red-500 p-4">{error}</div>
   if (!originalTemplate)
     return <div className="text-gray-500 p-4">Template not found</div>
-  if (originalTemplate.usage > 0) {
+  const editBlocker = getTemplateEditBlocker(originalTemplate)
+  if (editBlocker) {
     return (
       <div className="max-w-3xl mx-auto p-6">
         <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-md">
-          This template cannot be edited because it is currently in use.
+          {editBlocker}
         </div>
       </div>
     )
@@ -196,7 +204,7 @@ const EditTemplate = () => {
                 {originalTemplate?.usage ?? 0}
                 {originalTemplate?.usage && originalTemplate.usage > 0 && (
                   <span className="ml-2 text-xs text-gray-600 dark:text-gray-400">
-                    (cannot be edited or deleted)
+                    (runs keep the version they used)
                   </span>
                 )}
               </span>
@@ -263,6 +271,31 @@ const EditTemplate = () => {
             />
           </div>
 
+          <TemplatePreview content={formData.content ?? ''} />
+
+          <div className="space-y-2">
+            <label
+              htmlFor="versionNote"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              Change Note
+            </label>
+            <input
+              id="versionNote"
+              type="text"
+              value={versionNote}
+              onChange={(e) => setVersionNote(e.target.value)}
+              className="w-full rounded-md border border-gray-300 dark:border-gray-600 px-4 py-2 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="What changed in this version?"
+            />
+            {originalTemplate.version !== undefined && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Saving creates v{originalTemplate.version + 1}. Existing runs
+                stay linked to the version they used.
+              </p>
+            )}
+          </div>
+
           <div className="flex justify-end gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
             <button
               type="button"
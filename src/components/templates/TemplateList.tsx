@@ -22,7 +22,10 @@ import {
 import { adminAPI } from '../../api/client'
 import { useAuth } from '../../hooks/useAuth'
 import { Template } from '../../types/templates'
+import { toConfigBundle } from '../../utils/configBundle'
 import { hasTemplateExperimentProposalAccess } from '../../utils/permissions'
+import { canEditTemplate } from '../../utils/templateEditing'
+import ConfigBundleActions from '../ui/ConfigBundleActions'
 import ProposeExperimentalModal from '../ui/ProposeExperimentalModal'
 import { getExperimentalStateStyles } from '../ui/StatusStyles'
 
@@ -76,6 +79,8 @@ const TemplateList = () => {
   const searchInputRef = useRef<HTMLInputElement>(null)
   const { user } = useAuth()
   const [templates, setTemplates] = useState<Template[]>([])
+  // Templates picked for a bundle export
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
   const [searchTerm, setSearchTerm] = useState('')
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -170,6 +175,18 @@ const TemplateList = () => {
     fetchExperimentalStates()
   }, [])
 
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
   const fetchTemplates = async () => {
     try {
       setLoading(true)
@@ -682,6 +699,26 @@ const TemplateList = () => {
         </div>
       )}
 
+      <ConfigBundleActions
+        kind="templates"
+        selectedCount={selectedIds.size}
+        visibleCount={filteredTemplates.length}
+        onSelectAll={() =>
+          setSelectedIds(
+            new Set(filteredTemplates.map((template) => template.id))
+          )
+        }
+        onClearSelection={() => setSelectedIds(new Set())}
+        getBundle={() =>
+          toConfigBundle({
+            templates: templates.filter((template) =>
+              selectedIds.has(template.id)
+            ),
+          })
+        }
+        onImported={fetchTemplates}
+      />
+
       <div className="relative grid gap-4">
         {loading && (
           <div className="absolute inset-0 flex items-center justify-center bg-white bg-opacity-60 dark:bg-gray-900 dark:bg-opacity-60 z-10 backdrop-blur-[1px]">
@@ -701,6 +738,13 @@ const TemplateList = () => {
             >
               <div className="flex items-center justify-between pb-2">
                 <div className="flex-1 flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(template.id)}
+                    onChange={() => toggleSelected(template.id)}
+                    aria-label={`Select ${template.name}`}
+                    className="h-4 w-4 rounded border-gray-300 dark:border-gray-600"
+                  />
                   <h2 className="text-xl font-semibold dark:text-white">
                     {template.name}
                   </h2>
@@ -776,7 +820,7 @@ const TemplateList = () => {
                             <FileText size={16} /> Propose Release
                           </button>
                         )}
-                        {template.usage === 0 && (
+                        {canEditTemplate(template) && (
                           <Link
                             to={`/templates/${template.id}/edit`}
                             className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-gray-200 flex items-center gap-2"
@@ -0,0 +1,181 @@
+import { useEffect, useMemo, useState } from 'react'
+
+import { AlertCircle, AlertTriangle, Eye } from 'lucide-react'
+
+import { adminAPI } from '../../api/client'
+import { Prompt } from '../../types/prompts'
+import { estimateTokens } from '../../utils/generationEstimate'
+import {
+  TEMPLATE_VARIABLES,
+  parseTemplateVariables,
+  renderTemplate,
+  validateTemplateVariables,
+} from '../../utils/templateVariables'
+
+interface TemplatePreviewProps {
+  content: string
+}
+
+// Variable checks and a rendered preview of the template against a prompt,
+// shown under the content field in the template editors
+const TemplatePreview = ({ content }: TemplatePreviewProps) => {
+  const [prompts, setPrompts] = useState<Prompt[]>([])
+  const [promptId, setPromptId] = useState('')
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchPrompts = async () => {
+      try {
+        const { data } = await adminAPI.get('/prompt')
+        const activePrompts = data.data.filter((p: Prompt) => p.active)
+        setPrompts(activePrompts)
+        setPromptId((current) => current || activePrompts[0]?.id || '')
+      } catch (err) {
+        console.error('Error fetching prompts:', err)
+        setLoadError('Failed to load prompts for the preview')
+      }
+    }
+
+    fetchPrompts()
+  }, [])
+
+  const usedVariables = useMemo(
+    () => new Set(parseTemplateVariables(content).map((p) => p.name)),
+    [content]
+  )
+  const issues = useMemo(() => validateTemplateVariables(content), [content])
+  const selectedPrompt = prompts.find((prompt) => prompt.id === promptId)
+  const segments = useMemo(
+    () => (selectedPrompt ? renderTemplate(content, selectedPrompt) : []),
+    [content, selectedPrompt]
+  )
+  const renderedText = segments.map((segment) => segment.text).join('')
+  // Known variables the selected prompt has no value for
+  const unresolved = Array.from(
+    new Set(
+      segments.flatMap(({ variable, unresolved }) =>
+        variable && unresolved && !issues.unknown.includes(variable)
+          ? [variable]
+          : []
+      )
+    )
+  )
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Variables
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {TEMPLATE_VARIABLES.map((variable) => (
+            <span
+              key={variable.name}
+              title={variable.description}
+              className={`px-2 py-1 rounded-md font-mono text-xs ${
+                usedVariables.has(variable.name)
+                  ? 'bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300'
+                  : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-400'
+              }`}
+            >
+              {`{{ ${variable.name} }}`}
+              {variable.required && ' *'}
+            </span>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Highlighted variables are used in the template. * marks required ones.
+        </p>
+      </div>
+
+      {issues.unknown.length > 0 && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-400 flex items-start gap-2">
+          <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            Unknown variable{issues.unknown.length === 1 ? '' : 's'}:{' '}
+            <span className="font-mono">{issues.unknown.join(', ')}</span>.
+            These won&apos;t be filled in when the template runs.
+          </span>
+        </div>
+      )}
+      {issues.missing.length > 0 && (
+        <div className="p-3 rounded-md bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300 flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            Missing required variable
+            {issues.missing.length === 1 ? '' : 's'}:{' '}
+            <span className="font-mono">{issues.missing.join(', ')}</span>
+          </span>
+        </div>
+      )}
+
+      <div className="border border-gray-200 dark:border-gray-700 rounded-md">
+        <div className="px-4 py-2 flex flex-wrap items-center gap-3 border-b border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50">
+          <Eye className="h-4 w-4 text-gray-500 dark:text-gray-400" />
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            Preview with
+          </span>
+          <select
+            value={promptId}
+            onChange={(e) => setPromptId(e.target.value)}
+            disabled={prompts.length === 0}
+            className="flex-1 min-w-0 rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 text-sm bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          >
+            {prompts.length === 0 && <option value="">No prompts</option>}
+            {prompts.map((prompt) => (
+              <option key={prompt.id} value={prompt.id}>
+                {prompt.name}
+              </option>
+            ))}
+          </select>
+          {selectedPrompt && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              ~{estimateTokens(renderedText).toLocaleString()} tokens
+            </span>
+          )}
+        </div>
+
+        {loadError && (
+          <p className="p-4 text-sm text-red-600 dark:text-red-400">
+            {loadError}
+          </p>
+        )}
+        {selectedPrompt && unresolved.length > 0 && (
+          <p className="px-4 pt-3 text-xs text-amber-700 dark:text-amber-400">
+            This prompt has no value for{' '}
+            <span className="font-mono">{unresolved.join(', ')}</span>.
+          </p>
+        )}
+        {selectedPrompt && (
+          <pre className="p-4 max-h-96 overflow-auto whitespace-pre-wrap break-words text-sm font-mono text-gray-900 dark:text-gray-100">
+            {content ? (
+              segments.map((segment, index) =>
+                segment.variable ? (
+                  <mark
+                    key={index}
+                    title={segment.variable}
+                    className={
+                      segment.unresolved
+                        ? 'rounded bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300'
+                        : 'rounded bg-blue-100 text-gray-900 dark:bg-blue-900/40 dark:text-gray-100'
+                    }
+                  >
+                    {segment.text}
+                  </mark>
+                ) : (
+                  <span key={index}>{segment.text}</span>
+                )
+              )
+            ) : (
+              <span className="text-gray-400 dark:text-gray-500">
+                Template content will be previewed here.
+              </span>
+            )}
+          </pre>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default TemplatePreview
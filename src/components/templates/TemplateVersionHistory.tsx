@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+
+import { ChevronDown, Clock, GitBranch, GitCompare, User } from 'lucide-react'
+
+import { getTemplateVersions } from '../../api/templates'
+import { Template, TemplateVersion } from '../../types/templates'
+import { diffLines } from '../../utils/diff'
+import { SideBySideDiff } from '../ui/SideBySideDiff'
+
+interface TemplateVersionHistoryProps {
+  template: Template
+}
+
+// Every saved version of a template, with a side-by-side diff between any two
+// and a way to start a new template from one
+const TemplateVersionHistory = ({ template }: TemplateVersionHistoryProps) => {
+  const [versions, setVersions] = useState<TemplateVersion[]>([])
+  const [expanded, setExpanded] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [fromId, setFromId] = useState('')
+  const [toId, setToId] = useState('')
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      try {
+        setError(null)
+        const data = await getTemplateVersions(template.id)
+        setVersions(data)
+        // Default to what the latest save changed
+        setToId(data[0]?.id ?? '')
+        setFromId(data[1]?.id ?? data[0]?.id ?? '')
+      } catch (err) {
+        console.error('Error fetching template versions:', err)
+        setError('Failed to load version history')
+      }
+    }
+
+    fetchVersions()
+  }, [template.id, template.lastModified])
+
+  const fromVersion = versions.find((version) => version.id === fromId)
+  const toVersion = versions.find((version) => version.id === toId)
+  const diff = useMemo(
+    () =>
+      fromVersion && toVersion
+        ? diffLines(fromVersion.content, toVersion.content)
+        : [],
+    [fromVersion, toVersion]
+  )
+  const addedCount = diff.filter((line) => line.kind === 'added').length
+  const removedCount = diff.filter((line) => line.kind === 'removed').length
+
+  const compareWithPrevious = (index: number) => {
+    setToId(versions[index].id)
+    setFromId((versions[index + 1] ?? versions[index]).id)
+  }
+
+  if (error) {
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-6 p-6 text-sm text-red-600 dark:text-red-400">
+        {error}
+      </div>
+    )
+  }
+  if (versions.length === 0) return null
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full p-6 flex items-center justify-between"
+      >
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-gray-100">
+            Version History
+          </h2>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            ({versions.length} {versions.length === 1 ? 'version' : 'versions'})
+          </span>
+        </div>
+        <ChevronDown
+          className={`w-5 h-5 text-gray-400 dark:text-gray-500 transition-transform duration-200 ${
+            expanded ? 'transform rotate-180' : ''
+          }`}
+        />
+      </button>
+
+      {expanded && (
+        <div className="px-6 pb-6 space-y-6">
+          <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+            {versions.map((version, index) => (
+              <li key={version.id} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white dark:border-gray-800 bg-gray-300 dark:bg-gray-600" />
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="px-2 py-0.5 rounded-full font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300">
+                    v{version.version}
+                  </span>
+                  {index === 0 && (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">
+                      Current
+                    </span>
+                  )}
+                  <span className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                    <User className="h-3.5 w-3.5 text-gray-400" />
+                    {version.createdBy}
+                  </span>
+                  <span className="flex items-center gap-1 text-gray-500 dark:text-gray-400">
+                    <Clock className="h-3.5 w-3.5" />
+                    {new Date(version.created).toLocaleString()}
+                  </span>
+                  <div className="ml-auto flex items-center gap-3">
+                    {index < versions.length - 1 && (
+                      <button
+                        onClick={() => compareWithPrevious(index)}
+                        className="flex items-center gap-1 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        <GitCompare className="h-4 w-4" />
+                        Changes
+                      </button>
+                    )}
+                    <Link
+                      to={`/templates/new?fork=${template.id}&version=${version.id}`}
+                      className="flex items-center gap-1 text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      <GitBranch className="h-4 w-4" />
+                      Fork
+                    </Link>
+                  </div>
+                </div>
+                {version.note && (
+                  <p className="mt-1 text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line">
+                    {version.note}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+
+          {versions.length > 1 && (
+            <div>
+              <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+                <span className="font-medium text-gray-700 dark:text-gray-300">
+                  Compare
+                </span>
+                {[
+                  { value: fromId, onChange: setFromId },
+                  { value: toId, onChange: setToId },
+                ].map(({ value, onChange }, index) => (
+                  <select
+                    key={index}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className="rounded-md border border-gray-300 dark:border-gray-600 px-2 py-1 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  >
+                    {versions.map((version) => (
+                      <option key={version.id} value={version.id}>
+                        v{version.version}
+                      </option>
+                    ))}
+                  </select>
+                ))}
+                <span className="ml-auto">
+                  <span className="text-green-600 dark:text-green-400">
+                    +{addedCount}
+                  </span>{' '}
+                  <span className="text-red-600 dark:text-red-400">
+                    -{removedCount}
+                  </span>
+                </span>
+              </div>
+
+              {fromVersion &&
+                toVersion &&
+                (fromVersion.name !== toVersion.name ||
+                  fromVersion.description !== toVersion.description) && (
+                  <p className="mb-3 text-xs text-gray-500 dark:text-gray-400">
+                    {fromVersion.name !== toVersion.name &&
+                      `Renamed from "${fromVersion.name}" to "${toVersion.name}". `}
+                    {fromVersion.description !== toVersion.description &&
+                      'Description changed.'}
+                  </p>
+                )}
+
+              {addedCount === 0 && removedCount === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  The content of these versions is identical.
+                </p>
+              ) : (
+                <SideBySideDiff lines={diff} />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TemplateVersionHistory
@@ -12,6 +12,7 @@ import {
   Edit,
   ExternalLink,
   FileText,
+  GitBranch,
   Loader2,
   Terminal,
   User,
@@ -27,7 +28,10 @@ import {
   hasTemplateExperimentProposalAccess,
   hasTemplateReviewAccess,
 } from '../../utils/permissions'
+import { canEditTemplate } from '../../utils/templateEditing'
 import { getExperimentalStateStyles, getStatusStyles } from '../ui/StatusStyles'
+import { TemplateVersionBadge } from '../ui/TemplateVersionBadge'
+import TemplateVersionHistory from './TemplateVersionHistory'
 
 type RunPaging = {
   page: number
@@ -307,6 +311,11 @@ const ViewTemplate = () => {
               <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">
                 {template.name}
               </h1>
+              {template.version !== undefined && (
+                <span className="px-2 py-1 rounded-full text-sm font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300">
+                  v{template.version}
+                </span>
+              )}
               <div className="flex items-center gap-2">
                 <span
                   className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-sm ${
@@ -352,7 +361,7 @@ const ViewTemplate = () => {
                   {isActionsOpen && (
                     <div className="absolute right-0 mt-2 w-72 rounded-md shadow-lg bg-white dark:bg-gray-800 ring-1 ring-black ring-opacity-5 z-10">
                       <div className="py-1" role="menu">
-                        {template.usage === 0 && (
+                        {canEditTemplate(template) && (
                           <>
                             <button
                               onClick={() => {
@@ -409,6 +418,19 @@ const ViewTemplate = () => {
             </div>
           </div>
 
+          {template.forkedFrom && (
+            <p className="mb-4 flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+              <GitBranch className="h-4 w-4" />
+              Forked from{' '}
+              <Link
+                to={`/templates/${template.forkedFrom.templateId}`}
+                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                v{template.forkedFrom.version} of another template
+              </Link>
+            </p>
+          )}
+
           {/* Metadata grid with vertical dividers */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-0 text-sm divide-x divide-gray-200 dark:divide-gray-700">
             <div className="px-4 first:pl-0 last:pr-0">
@@ -769,6 +791,8 @@ const ViewTemplate = () => {
         </div>
       )}
 
+      <TemplateVersionHistory template={template} />
+
       {/* Template Description Section */}
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 mb-6">
         <div className="p-6">
@@ -847,11 +871,18 @@ const ViewTemplate = () => {
                             <span>Prompt: {run.prompt.name}</span>
                           </div>
                           <div className="flex items-center justify-between">
-                            <span
-                              className={`px-2 py-1 text-sm rounded-full ${getStatusStyles(run.status)}`}
-                            >
-                              {run.status}
-                            </span>
+                            <div className="flex items-center gap-2">
+                              <span
+                                className={`px-2 py-1 text-sm rounded-full ${getStatusStyles(run.status)}`}
+                              >
+                                {run.status}
+                              </span>
+                              {run.templateVersion && (
+                                <TemplateVersionBadge
+                                  version={run.templateVersion.version}
+                                />
+                              )}
+                            </div>
                             <Link
                               to={`/runs/${run.id}`}
                               className="text-blue-600 hover:text-blue-800 flex items-center gap-1"
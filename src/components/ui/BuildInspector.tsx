@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+
+import { ChevronDown, ChevronUp, Eye, EyeOff, Layers } from 'lucide-react'
+import * as THREE from 'three'
+
+import { ModelMetadata } from '../../utils/modelCache'
+
+interface BuildInspectorProps {
+  model: THREE.Object3D | null
+  metadata: ModelMetadata | null
+}
+
+interface MaterialGroup {
+  key: string
+  name: string
+  color: string | null
+  count: number
+  meshes: THREE.Mesh[]
+  materials: THREE.Material[]
+}
+
+const DIMMED_OPACITY = 0.15
+
+const getMaterialName = (material: THREE.Material) => {
+  if (material.name) return material.name.replace(/^minecraft:/, '')
+
+  const map = (material as THREE.MeshStandardMaterial).map
+  if (map?.name) return map.name.replace(/^minecraft:/, '')
+
+  return `Unnamed (${material.uuid.slice(0, 8)})`
+}
+
+const getMaterialColor = (material: THREE.Material) => {
+  const color = (material as THREE.MeshStandardMaterial).color
+  return color instanceof THREE.Color ? `#${color.getHexString()}` : null
+}
+
+// Group everything on screen by material name; instanced meshes count once
+// per instance, so counts reflect placed elements rather than draw calls
+const collectMaterialGroups = (model: THREE.Object3D): MaterialGroup[] => {
+  const groups = new Map<string, MaterialGroup>()
+
+  model.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) return
+
+    const materials = Array.isArray(object.material)
+      ? object.material
+      : [object.material]
+    const count = object instanceof THREE.InstancedMesh ? object.count : 1
+
+    materials.forEach((material: THREE.Material) => {
+      const name = getMaterialName(material)
+      if (!groups.has(name)) {
+        groups.set(name, {
+          key: name,
+          name,
+          color: getMaterialColor(material),
+          count: 0,
+          meshes: [],
+          materials: [],
+        })
+      }
+
+      const group = groups.get(name)!
+      group.count += count
+      if (!group.meshes.includes(object)) group.meshes.push(object)
+      if (!group.materials.includes(material)) group.materials.push(material)
+    })
+  })
+
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count)
+}
+
+export const BuildInspector = ({ model, metadata }: BuildInspectorProps) => {
+  const [isExpanded, setIsExpanded] = useState(true)
+  const [hidden, setHidden] = useState<Set<string>>(new Set())
+  const [hovered, setHovered] = useState<string | null>(null)
+  const originalOpacity = useRef(
+    new Map<THREE.Material, { transparent: boolean; opacity: number }>()
+  )
+
+  const groups = useMemo(
+    () => (model ? collectMaterialGroups(model) : []),
+    [model]
+  )
+  const totalCount = groups.reduce((sum, group) => sum + group.count, 0)
+
+  // Start fresh whenever a different model is inspected
+  useEffect(() => {
+    setHidden(new Set())
+    setHovered(null)
+  }, [model])
+
+  // Apply visibility toggles to the meshes on screen
+  useEffect(() => {
+    groups.forEach((group) => {
+      group.meshes.forEach((mesh) => {
+        mesh.visible = !hidden.has(group.key)
+      })
+    })
+  }, [groups, hidden])
+
+  // Highlight the hovered material by fading out everything else
+  useEffect(() => {
+    const originals = originalOpacity.current
+    if (!hovered) return
+
+    groups.forEach((group) => {
+      if (group.key === hovered) return
+      group.materials.forEach((material) => {
+        if (!originals.has(material)) {
+          originals.set(material, {
+            transparent: material.transparent,
+            opacity: material.opacity,
+          })
+        }
+        material.transparent = true
+        material.opacity = DIMMED_OPACITY
+        material.needsUpdate = true
+      })
+    })
+
+    return () => {
+      originals.forEach((original, material) => {
+        material.transparent = original.transparent
+        material.opacity = original.opacity
+        material.needsUpdate = true
+      })
+      originals.clear()
+    }
+  }, [groups, hovered])
+
+  const toggleHidden = (key: string) => {
+    setHidden((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  if (!model) return null
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="flex items-center gap-2 font-medium text-gray-900 dark:text-gray-100">
+          <Layers className="h-4 w-4" />
+          Build Inspector
+        </span>
+        {isExpanded ? (
+          <ChevronUp className="h-4 w-4 text-gray-500" />
+        ) : (
+          <ChevronDown className="h-4 w-4 text-gray-500" />
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="px-4 pb-4 space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+            {metadata && (
+              <>
+                <div>
+                  <div className="text-gray-500 dark:text-gray-400">Width</div>
+                  <div className="font-medium text-gray-900 dark:text-gray-100">
+                    {Math.round(metadata.dimensions.x)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-500 dark:text-gray-400">Height</div>
+                  <div className="font-medium text-gray-900 dark:text-gray-100">
+                    {Math.round(metadata.dimensions.y)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-500 dark:text-gray-400">Depth</div>
+                  <div className="font-medium text-gray-900 dark:text-gray-100">
+                    {Math.round(metadata.dimensions.z)}
+                  </div>
+                </div>
+              </>
+            )}
+            <div>
+              <div className="text-gray-500 dark:text-gray-400">Materials</div>
+              <div className="font-medium text-gray-900 dark:text-gray-100">
+                {groups.length}
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-500 dark:text-gray-400">
+              {totalCount.toLocaleString()} elements
+            </span>
+            {hidden.size > 0 && (
+              <button
+                onClick={() => setHidden(new Set())}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Show all
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {groups.map((group) => {
+              const isHidden = hidden.has(group.key)
+              return (
+                <div
+                  key={group.key}
+                  onMouseEnter={() => !isHidden && setHovered(group.key)}
+                  onMouseLeave={() => setHovered(null)}
+                  className={`flex items-center gap-3 py-2 px-2 text-sm ${
+                    hovered === group.key
+                      ? 'bg-blue-50 dark:bg-blue-900/20'
+                      : ''
+                  }`}
+                >
+                  <button
+                    onClick={() => toggleHidden(group.key)}
+                    className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                    title={isHidden ? 'Show material' : 'Hide material'}
+                  >
+                    {isHidden ? (
+                      <EyeOff className="h-4 w-4" />
+                    ) : (
+                      <Eye className="h-4 w-4" />
+                    )}
+                  </button>
+                  <span
+                    className="h-4 w-4 rounded-sm border border-gray-300 dark:border-gray-600 shrink-0"
+                    style={{ backgroundColor: group.color ?? 'transparent' }}
+                  />
+                  <span
+                    className={`flex-1 truncate ${
+                      isHidden
+                        ? 'text-gray-400 dark:text-gray-500 line-through'
+                        : 'text-gray-900 dark:text-gray-100'
+                    }`}
+                    title={group.name}
+                  >
+                    {group.name}
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400 tabular-nums">
+                    {group.count.toLocaleString()}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
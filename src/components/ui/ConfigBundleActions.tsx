@@ -0,0 +1,430 @@
+import React, { useState } from 'react'
+
+import { isAxiosError } from 'axios'
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle,
+  Download,
+  Loader2,
+  Upload,
+  XCircle,
+} from 'lucide-react'
+
+import {
+  getExistingConfig,
+  importBundleModel,
+  importBundlePrompt,
+  importBundleTemplate,
+} from '../../api/configBundle'
+import {
+  BundleConflict,
+  BundleItem,
+  BundleKind,
+  BundleModel,
+  ConfigBundle,
+  REDACTED_VALUE,
+  getBundleFilename,
+  getBundleItems,
+  hasRedactedValue,
+  parseConfigBundle,
+} from '../../utils/configBundle'
+import { downloadFile } from '../../utils/export'
+import { ConfirmModal } from './ConfirmModal'
+import { Progress } from './Progress'
+
+type ItemStatus = 'pending' | 'created' | 'failed'
+
+const KIND_LABELS: Record<BundleKind, string> = {
+  prompts: 'Prompt',
+  templates: 'Template',
+  models: 'Model',
+}
+
+interface ConfigBundleActionsProps {
+  kind: BundleKind
+  selectedCount: number
+  visibleCount: number
+  onSelectAll: () => void
+  onClearSelection: () => void
+  // Bundle of the currently selected items
+  getBundle: () => ConfigBundle
+  // Called after an import created anything, so the list can refresh
+  onImported: () => void
+}
+
+const getErrorMessage = (err: unknown) => {
+  if (isAxiosError(err) && err.response?.data?.detail) {
+    return String(err.response.data.detail)
+  }
+  return err instanceof Error ? err.message : 'Request failed'
+}
+
+const CONFLICT_MESSAGES: Record<BundleConflict, string> = {
+  exists: 'Already exists here',
+  duplicate: 'Appears earlier in the bundle',
+}
+
+const getItemId = (item: BundleItem) => `${item.kind}:${item.index}`
+
+const getSecretId = (item: BundleItem, providerIndex: number) =>
+  `${getItemId(item)}:${providerIndex}`
+
+// A provider config typed in on import, or null while it isn't valid JSON or
+// still holds redacted values
+const parseSecretConfig = (text: string | undefined) => {
+  if (text === undefined) return null
+  try {
+    const config = JSON.parse(text)
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      return null
+    }
+    return hasRedactedValue(config) ? null : (config as Record<string, unknown>)
+  } catch {
+    return null
+  }
+}
+
+// Export the selected items as a portable bundle, or import one produced in
+// another environment
+const ConfigBundleActions = ({
+  kind,
+  selectedCount,
+  visibleCount,
+  onSelectAll,
+  onClearSelection,
+  getBundle,
+  onImported,
+}: ConfigBundleActionsProps) => {
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [bundle, setBundle] = useState<ConfigBundle | null>(null)
+  const [items, setItems] = useState<BundleItem[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [statuses, setStatuses] = useState<Record<string, ItemStatus>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  // Provider configs with redacted secrets, as JSON for the user to complete
+  const [secretConfigs, setSecretConfigs] = useState<Record<string, string>>({})
+  const [isRunning, setIsRunning] = useState(false)
+  const [isDone, setIsDone] = useState(false)
+
+  const handleExport = () => {
+    downloadFile(
+      getBundleFilename(kind),
+      JSON.stringify(getBundle(), null, 2),
+      'application/json'
+    )
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setIsImportOpen(true)
+    setBundle(null)
+    setItems([])
+    setStatuses({})
+    setErrors({})
+    setSecretConfigs({})
+    setLoadError(null)
+    setIsDone(false)
+    setIsLoading(true)
+
+    try {
+      const parsed = parseConfigBundle(await file.text())
+      const existing = await getExistingConfig()
+      const bundleItems = getBundleItems(parsed, existing)
+      setBundle(parsed)
+      setItems(bundleItems)
+
+      const configs: Record<string, string> = {}
+      bundleItems
+        .filter((item) => item.redacted && !item.conflict)
+        .forEach((item) => {
+          parsed.models[item.index].providers.forEach((provider, index) => {
+            if (hasRedactedValue(provider.config)) {
+              configs[getSecretId(item, index)] = JSON.stringify(
+                provider.config,
+                null,
+                2
+              )
+            }
+          })
+        })
+      setSecretConfigs(configs)
+    } catch (err) {
+      console.error('Error reading bundle:', err)
+      setLoadError(getErrorMessage(err))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  // The model with its redacted provider configs replaced by what the user
+  // filled in, or null while any are incomplete
+  const getCompletedModel = (item: BundleItem): BundleModel | null => {
+    if (!bundle) return null
+    const model = bundle.models[item.index]
+    if (!item.redacted) return model
+
+    const providers = model.providers.map((provider, index) => {
+      if (!hasRedactedValue(provider.config)) return provider
+      const config = parseSecretConfig(secretConfigs[getSecretId(item, index)])
+      return config ? { ...provider, config } : null
+    })
+    if (providers.some((provider) => provider === null)) return null
+    return { ...model, providers: providers as BundleModel['providers'] }
+  }
+
+  const needsSecrets = (item: BundleItem) =>
+    item.kind === 'models' && item.redacted && !getCompletedModel(item)
+
+  const newItems = items.filter((item) => !item.conflict && !needsSecrets(item))
+  const conflicts = items.filter((item) => item.conflict)
+  const incompleteModels = items.filter(
+    (item) => !item.conflict && needsSecrets(item)
+  )
+
+  const importItem = async (item: BundleItem) => {
+    if (!bundle) return
+    if (item.kind === 'prompts') {
+      await importBundlePrompt(bundle.prompts[item.index])
+    } else if (item.kind === 'templates') {
+      await importBundleTemplate(bundle.templates[item.index])
+    } else {
+      const model = getCompletedModel(item)
+      if (!model) throw new Error('Provider secrets are missing')
+      await importBundleModel(model)
+    }
+  }
+
+  // Conflicting and incomplete items are left alone; everything else is
+  // created in order
+  const runImport = async () => {
+    setIsRunning(true)
+    setStatuses(
+      Object.fromEntries(newItems.map((item) => [getItemId(item), 'pending']))
+    )
+    setErrors({})
+
+    for (const item of newItems) {
+      const id = getItemId(item)
+      try {
+        await importItem(item)
+        setStatuses((prev) => ({ ...prev, [id]: 'created' }))
+      } catch (err) {
+        console.error(`Error importing ${id}:`, err)
+        setStatuses((prev) => ({ ...prev, [id]: 'failed' }))
+        setErrors((prev) => ({ ...prev, [id]: getErrorMessage(err) }))
+      }
+    }
+
+    setIsRunning(false)
+    setIsDone(true)
+  }
+
+  const closeImport = () => {
+    if (isRunning) return
+    setIsImportOpen(false)
+    if (Object.values(statuses).includes('created')) onImported()
+  }
+
+  const finishedCount = Object.values(statuses).filter(
+    (status) => status !== 'pending'
+  ).length
+  const failedCount = Object.values(statuses).filter(
+    (status) => status === 'failed'
+  ).length
+  const hasStarted = isRunning || isDone
+
+  return (
+    <>
+      <div className="mb-4 p-3 flex flex-wrap items-center gap-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm">
+        <span className="font-medium text-gray-700 dark:text-gray-300 mr-2">
+          {selectedCount} selected
+        </span>
+        <button
+          onClick={onSelectAll}
+          disabled={visibleCount === 0}
+          className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50"
+        >
+          Select all {visibleCount} shown
+        </button>
+        {selectedCount > 0 && (
+          <button
+            onClick={onClearSelection}
+            className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+          >
+            Clear
+          </button>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={handleExport}
+            disabled={selectedCount === 0}
+            className="px-3 py-1 rounded-md flex items-center gap-1 bg-blue-100 text-blue-800 hover:bg-blue-200 dark:bg-blue-900 dark:text-blue-200 dark:hover:bg-blue-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4" />
+            Export bundle
+          </button>
+          <label className="px-3 py-1 rounded-md flex items-center gap-1 cursor-pointer bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600">
+            <Upload className="h-4 w-4" />
+            Import bundle
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+        </div>
+      </div>
+
+      <ConfirmModal
+        isOpen={isImportOpen}
+        onClose={closeImport}
+        onConfirm={isDone ? closeImport : runImport}
+        title="Import Bundle"
+        isSubmitting={isRunning}
+        confirmLabel={isDone ? 'Close' : `Import ${newItems.length}`}
+        submittingLabel={`${finishedCount} / ${newItems.length}`}
+        confirmDisabled={!isDone && (isLoading || newItems.length === 0)}
+      >
+        <div className="p-6 space-y-4">
+          {isLoading && (
+            <div className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking the bundle for conflicts...
+            </div>
+          )}
+          {loadError && (
+            <p className="text-sm text-red-600 dark:text-red-400">
+              {loadError}
+            </p>
+          )}
+
+          {bundle && !hasStarted && (
+            <p className="text-gray-600 dark:text-gray-400">
+              {items.length === 0
+                ? 'The bundle is empty.'
+                : `${newItems.length} ready to import, ${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'} will be skipped.`}
+              {bundle.exportedAt &&
+                ` Exported ${new Date(bundle.exportedAt).toLocaleString()}.`}
+            </p>
+          )}
+
+          {bundle && !hasStarted && incompleteModels.length > 0 && (
+            <div className="p-3 rounded-md bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300 flex items-start gap-2">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>
+                Provider secrets were redacted on export. Replace every{' '}
+                <code>{REDACTED_VALUE}</code> below to import{' '}
+                {incompleteModels.map((item) => item.key).join(', ')}; models
+                left incomplete are skipped.
+              </span>
+            </div>
+          )}
+
+          {hasStarted && (
+            <Progress
+              value={(finishedCount / Math.max(newItems.length, 1)) * 100}
+              note={`${finishedCount} of ${newItems.length} imported`}
+              animated={isRunning}
+            />
+          )}
+
+          {items.length > 0 && (
+            <ul className="max-h-60 overflow-y-auto divide-y dark:divide-gray-700 text-sm">
+              {items.map((item) => {
+                const id = getItemId(item)
+                const status = statuses[id]
+                return (
+                  <li
+                    key={id}
+                    className="py-1.5 flex items-start gap-2 text-gray-700 dark:text-gray-300"
+                  >
+                    {item.conflict ? (
+                      <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-amber-500" />
+                    ) : status === 'created' ? (
+                      <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-500" />
+                    ) : status === 'failed' ? (
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-500" />
+                    ) : status === 'pending' ? (
+                      <Loader2 className="h-4 w-4 mt-0.5 shrink-0 text-gray-400 animate-spin" />
+                    ) : (
+                      <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-gray-300 dark:text-gray-600" />
+                    )}
+                    <div className="min-w-0">
+                      <div className="truncate">
+                        <span className="text-xs text-gray-500 dark:text-gray-400 mr-1">
+                          {KIND_LABELS[item.kind]}
+                        </span>
+                        {item.key}
+                      </div>
+                      {item.conflict && (
+                        <div className="text-xs text-amber-700 dark:text-amber-400">
+                          {CONFLICT_MESSAGES[item.conflict]}
+                        </div>
+                      )}
+                      {!hasStarted &&
+                        !item.conflict &&
+                        item.redacted &&
+                        bundle?.models[item.index].providers.map(
+                          (provider, index) => {
+                            const secretId = getSecretId(item, index)
+                            if (!(secretId in secretConfigs)) return null
+                            const isComplete = Boolean(
+                              parseSecretConfig(secretConfigs[secretId])
+                            )
+                            return (
+                              <label key={secretId} className="block mt-2">
+                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                  {provider.name} config
+                                  {!isComplete && ' (incomplete)'}
+                                </span>
+                                <textarea
+                                  value={secretConfigs[secretId]}
+                                  onChange={(e) =>
+                                    setSecretConfigs((prev) => ({
+                                      ...prev,
+                                      [secretId]: e.target.value,
+                                    }))
+                                  }
+                                  rows={4}
+                                  spellCheck={false}
+                                  className={`w-full mt-1 rounded-md border px-2 py-1 font-mono text-xs dark:bg-gray-700 dark:text-gray-200 ${
+                                    isComplete
+                                      ? 'border-gray-300 dark:border-gray-600'
+                                      : 'border-amber-400 dark:border-amber-600'
+                                  }`}
+                                />
+                              </label>
+                            )
+                          }
+                        )}
+                      {errors[id] && (
+                        <div className="text-xs text-red-600 dark:text-red-400">
+                          {errors[id]}
+                        </div>
+                      )}
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+
+          {isDone && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {failedCount > 0 && `${failedCount} failed to import. `}
+              Imported items start in the experimental state.
+            </p>
+          )}
+        </div>
+      </ConfirmModal>
+    </>
+  )
+}
+
+export default ConfigBundleActions
@@ -1,14 +1,16 @@
+import { ReactNode } from 'react'
+
 interface ConfirmModalProps {
   isOpen: boolean
   onClose: () => void
   onConfirm: () => void
   title: string
-  templateCount: number
-  promptCount: number
-  modelCount: number
+  // Body of the modal, between the title and the buttons
+  children: ReactNode
   isSubmitting?: boolean
-  numSamples: number
-  testSetName?: string
+  confirmLabel?: string
+  submittingLabel?: string
+  confirmDisabled?: boolean
 }
 
 export function ConfirmModal({
@@ -16,19 +18,14 @@ export function ConfirmModal({
   onClose,
   onConfirm,
   title,
-  templateCount,
-  promptCount,
-  modelCount,
+  children,
   isSubmitting,
-  numSamples,
-  testSetName,
+  confirmLabel = 'Confirm',
+  submittingLabel = 'Creating...',
+  confirmDisabled = false,
 }: ConfirmModalProps) {
   if (!isOpen) return null
 
-  const totalCombinations =
-    templateCount * promptCount * modelCount * numSamples
-  const showWarning = totalCombinations > 100
-
   return (
     <div className="fixed inset-0 bg-black/60 dark:bg-black/70 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-gray-900 rounded-lg max-w-md w-full mx-4 shadow-xl">
@@ -38,58 +35,7 @@ export function ConfirmModal({
           </h2>
         </div>
 
-        <div className="p-8 text-center space-y-6">
-          <p className="text-gray-600 dark:text-gray-400">
-            Are you sure you want to create a run with:
-          </p>
-          <div className="grid grid-cols-[1fr,auto] gap-x-8 gap-y-3 max-w-[270px] mx-auto text-lg">
-            <div className="text-left text-gray-700 dark:text-gray-300">
-              templates
-            </div>
-            <div className="text-right font-medium text-gray-900 dark:text-gray-100">
-              {templateCount}
-            </div>
-            <div className="text-left text-gray-700 dark:text-gray-300">
-              prompts
-            </div>
-            <div className="text-right font-medium text-gray-900 dark:text-gray-100">
-              {promptCount}
-            </div>
-            <div className="text-left text-gray-700 dark:text-gray-300">
-              models
-            </div>
-            <div className="text-right font-medium text-gray-900 dark:text-gray-100">
-              {modelCount}
-            </div>
-            <div className="text-left text-gray-700 dark:text-gray-300">
-              samples each
-            </div>
-            <div className="text-right font-medium text-gray-900 dark:text-gray-100">
-              {numSamples}
-            </div>
-          </div>
-          <div className="space-y-2">
-            <p className="text-gray-600 dark:text-gray-400">
-              Total combinations: {totalCombinations}
-            </p>
-            {showWarning && (
-              <p className="text-amber-600 dark:text-amber-400 text-sm">
-                Warning: This will create a large number of combinations. This
-                may take a significant amount of time to process.
-              </p>
-            )}
-            {testSetName && (
-              <div className="mt-4">
-                <p className="text-gray-600 dark:text-gray-400 mb-1">
-                  Default test set:
-                </p>
-                <span className="inline-flex items-center bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-300 px-2 py-1 rounded-md text-sm font-medium">
-                  {testSetName}
-                </span>
-              </div>
-            )}
-          </div>
-        </div>
+        {children}
 
         <div className="border-t dark:border-gray-800 p-4 flex justify-center gap-4">
           <button
@@ -101,7 +47,7 @@ export function ConfirmModal({
           </button>
           <button
             onClick={onConfirm}
-            disabled={isSubmitting}
+            disabled={isSubmitting || confirmDisabled}
             className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 min-w-[120px] dark:bg-blue-600 dark:hover:bg-blue-700"
           >
             {isSubmitting ? (
@@ -122,10 +68,10 @@ export function ConfirmModal({
                     d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"
                   />
                 </svg>
-                Creating...
+                {submittingLabel}
               </>
             ) : (
-              'Confirm'
+              confirmLabel
             )}
           </button>
         </div>
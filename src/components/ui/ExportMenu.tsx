@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from 'react'
+
+import { ChevronDown, Download } from 'lucide-react'
+
+import { ExportFormat } from '../../utils/export'
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void> | void
+  disabled?: boolean
+  label?: string
+}
+
+const ExportMenu = ({
+  onExport,
+  disabled = false,
+  label = 'Export',
+}: ExportMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false)
+    setIsExporting(true)
+    setError(null)
+    try {
+      await onExport(format)
+    } catch (err) {
+      console.error('Error exporting data:', err)
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <div className="relative inline-block" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || isExporting}
+        className="flex items-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Download className="h-4 w-4 mr-1" />
+        {isExporting ? 'Exporting...' : label}
+        <ChevronDown className="h-4 w-4 ml-1" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-36 rounded-md shadow-lg bg-white dark:bg-gray-800 ring-1 ring-black ring-opacity-5 z-50">
+          <div className="py-1">
+            <button
+              onClick={() => handleExport('csv')}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              CSV
+            </button>
+            <button
+              onClick={() => handleExport('json')}
+              className="block w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              JSON
+            </button>
+          </div>
+        </div>
+      )}
+      {error && (
+        <div className="absolute right-0 mt-1 text-xs text-red-600 dark:text-red-400 whitespace-nowrap">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ExportMenu
@@ -0,0 +1,287 @@
+import { useEffect, useRef, useState } from 'react'
+
+import {
+  Bookmark,
+  Check,
+  ChevronDown,
+  Link2,
+  Pencil,
+  Pin,
+  PinOff,
+  Trash2,
+} from 'lucide-react'
+
+import {
+  FilterPresetsState,
+  getPresetQuery,
+} from '../../hooks/useFilterPresets'
+import { FilterPreset } from '../../types/filterPresets'
+
+const ACTIVE_BUTTON_CLASSES =
+  'bg-blue-100 border-blue-300 text-blue-700 hover:bg-blue-200 dark:bg-blue-900 dark:border-blue-700 dark:text-blue-200 dark:hover:bg-blue-800'
+const INACTIVE_BUTTON_CLASSES =
+  'hover:bg-gray-50 dark:hover:bg-gray-700 dark:text-gray-300 dark:border-gray-600'
+const ICON_BUTTON_CLASSES =
+  'p-1 rounded text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:bg-gray-700'
+
+// Link that reapplies a preset's filters, with its name so the recipient can
+// save it under the same name
+const getShareUrl = (preset: FilterPreset) => {
+  const params = new URLSearchParams(preset.query)
+  params.set('preset', preset.name)
+  return `${window.location.origin}${window.location.pathname}?${params.toString()}`
+}
+
+interface FilterPresetMenuProps {
+  filterPresets: FilterPresetsState
+  searchParams: URLSearchParams
+  onApply: (query: string) => void
+}
+
+interface FilterPresetMenuLabels {
+  saveLabel?: string
+  emptyHint?: string
+}
+
+// Pinned presets, shown alongside a page's quick filters
+export const PinnedFilterPresets = ({
+  filterPresets,
+  searchParams,
+  onApply,
+}: FilterPresetMenuProps) => {
+  const pinned = filterPresets.presets.filter((preset) => preset.pinned)
+  if (pinned.length === 0) return null
+
+  const currentQuery = getPresetQuery(searchParams)
+
+  return (
+    <>
+      <div className="h-6 w-px bg-gray-300 dark:bg-gray-600 mx-2" />
+      <div className="flex items-center gap-2">
+        {pinned.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() =>
+              onApply(preset.query === currentQuery ? '' : preset.query)
+            }
+            className={`px-3 py-1 text-sm border rounded-md flex items-center gap-1 whitespace-nowrap transition-colors ${
+              preset.query === currentQuery
+                ? ACTIVE_BUTTON_CLASSES
+                : INACTIVE_BUTTON_CLASSES
+            }`}
+          >
+            <Bookmark className="h-4 w-4 mr-1" />
+            {preset.name}
+          </button>
+        ))}
+      </div>
+    </>
+  )
+}
+
+const FilterPresetMenu = ({
+  filterPresets,
+  searchParams,
+  onApply,
+  saveLabel = 'Save current filters',
+  emptyHint = 'Apply some filters to save them as a preset.',
+}: FilterPresetMenuProps & FilterPresetMenuLabels) => {
+  const {
+    presets,
+    syncError,
+    createPreset,
+    renamePreset,
+    togglePinned,
+    deletePreset,
+  } = filterPresets
+  const [isOpen, setIsOpen] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editingName, setEditingName] = useState('')
+  const [copiedId, setCopiedId] = useState<string | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  const currentQuery = getPresetQuery(searchParams)
+  // Name carried by a shared preset link
+  const sharedName = searchParams.get('preset')
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setIsOpen(false)
+        setEditingId(null)
+      }
+    }
+
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  const handleOpen = () => {
+    if (!isOpen && !newName && sharedName) setNewName(sharedName)
+    setIsOpen(!isOpen)
+  }
+
+  const handleCreate = () => {
+    if (!newName.trim() || !currentQuery) return
+    createPreset(newName, currentQuery)
+    setNewName('')
+  }
+
+  const handleRename = (id: string) => {
+    if (editingName.trim()) renamePreset(id, editingName)
+    setEditingId(null)
+  }
+
+  const handleCopyLink = async (preset: FilterPreset) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(preset))
+      setCopiedId(preset.id)
+      setTimeout(() => setCopiedId(null), 2000)
+    } catch (err) {
+      console.error('Failed to copy preset link:', err)
+    }
+  }
+
+  return (
+    <div className="relative inline-block" ref={menuRef}>
+      <button
+        onClick={handleOpen}
+        className="flex items-center gap-2 px-4 py-2 text-sm rounded-md bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600"
+      >
+        <Bookmark size={16} />
+        Presets
+        <ChevronDown className="h-4 w-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 rounded-md shadow-lg bg-white dark:bg-gray-800 ring-1 ring-black ring-opacity-5 z-50">
+          <div className="p-3 border-b dark:border-gray-700">
+            <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+              {saveLabel}
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder="Preset name"
+                disabled={!currentQuery}
+                className="flex-1 min-w-0 px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200 disabled:opacity-50"
+              />
+              <button
+                onClick={handleCreate}
+                disabled={!newName.trim() || !currentQuery}
+                className="px-3 py-1 text-sm bg-blue-500 dark:bg-blue-600 text-white rounded-md hover:bg-blue-600 dark:hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Save
+              </button>
+            </div>
+            {!currentQuery && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {emptyHint}
+              </p>
+            )}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto py-1">
+            {presets.length === 0 && (
+              <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">
+                No saved presets yet.
+              </p>
+            )}
+            {presets.map((preset) => (
+              <div
+                key={preset.id}
+                className="flex items-center gap-1 px-3 py-1 hover:bg-gray-50 dark:hover:bg-gray-700/50"
+              >
+                {editingId === preset.id ? (
+                  <input
+                    type="text"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(preset.id)
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    onBlur={() => handleRename(preset.id)}
+                    autoFocus
+                    className="flex-1 min-w-0 px-2 py-0.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-200"
+                  />
+                ) : (
+                  <button
+                    onClick={() => {
+                      onApply(preset.query)
+                      setIsOpen(false)
+                    }}
+                    className={`flex-1 min-w-0 text-left text-sm truncate ${
+                      preset.query === currentQuery
+                        ? 'font-medium text-blue-700 dark:text-blue-300'
+                        : 'text-gray-700 dark:text-gray-200'
+                    }`}
+                    title={preset.query}
+                  >
+                    {preset.name}
+                  </button>
+                )}
+                <button
+                  onClick={() => togglePinned(preset.id)}
+                  className={ICON_BUTTON_CLASSES}
+                  title={preset.pinned ? 'Unpin' : 'Pin next to quick filters'}
+                >
+                  {preset.pinned ? (
+                    <PinOff className="h-4 w-4" />
+                  ) : (
+                    <Pin className="h-4 w-4" />
+                  )}
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingId(preset.id)
+                    setEditingName(preset.name)
+                  }}
+                  className={ICON_BUTTON_CLASSES}
+                  title="Rename"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => handleCopyLink(preset)}
+                  className={ICON_BUTTON_CLASSES}
+                  title="Copy link"
+                >
+                  {copiedId === preset.id ? (
+                    <Check className="h-4 w-4 text-green-600 dark:text-green-400" />
+                  ) : (
+                    <Link2 className="h-4 w-4" />
+                  )}
+                </button>
+                <button
+                  onClick={() => deletePreset(preset.id)}
+                  className={`${ICON_BUTTON_CLASSES} hover:text-red-600 dark:hover:text-red-400`}
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {syncError && (
+            <p className="px-3 py-2 border-t dark:border-gray-700 text-xs text-amber-600 dark:text-amber-400">
+              {syncError}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default FilterPresetMenu
@@ -0,0 +1,71 @@
+import React from 'react'
+
+import Modal from './Modal'
+
+export interface KeyboardShortcut {
+  keys: string[]
+  description: string
+}
+
+export interface KeyboardShortcutGroup {
+  title: string
+  shortcuts: KeyboardShortcut[]
+}
+
+interface KeyboardShortcutsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  groups: KeyboardShortcutGroup[]
+}
+
+const KeyboardShortcutsModal: React.FC<KeyboardShortcutsModalProps> = ({
+  isOpen,
+  onClose,
+  groups,
+}) => {
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} maxWidth="lg">
+      <h3 className="text-xl font-semibold mb-4 text-gray-900 dark:text-white">
+        Keyboard Shortcuts
+      </h3>
+      <div className="space-y-5 font-mono">
+        {groups.map((group) => (
+          <div key={group.title}>
+            <h4 className="text-xs uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-2">
+              {group.title}
+            </h4>
+            <div className="space-y-1.5">
+              {group.shortcuts.map((shortcut) => (
+                <div
+                  key={shortcut.description}
+                  className="flex items-center justify-between gap-4 text-sm"
+                >
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {shortcut.description}
+                  </span>
+                  <span className="flex items-center gap-1 shrink-0">
+                    {shortcut.keys.map((key, index) => (
+                      <React.Fragment key={key}>
+                        {index > 0 && (
+                          <span className="text-xs text-gray-400">/</span>
+                        )}
+                        <kbd className="px-2 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200 text-xs">
+                          {key}
+                        </kbd>
+                      </React.Fragment>
+                    ))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="mt-5 text-xs text-gray-500 dark:text-gray-400">
+        Press <kbd className="px-1">?</kbd> at any time to toggle this list.
+      </p>
+    </Modal>
+  )
+}
+
+export default KeyboardShortcutsModal
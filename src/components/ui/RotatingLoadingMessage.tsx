@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react'
+
+// Loading message component with rotating messages
+const RotatingLoadingMessage: React.FC = () => {
+  const messages = [
+    'Building blocky castles...',
+    'Generating Minecraft builds...',
+    'Comparing AI architects...',
+    'Crafting digital blocks...',
+    'Rendering cubes and voxels...',
+    'Assembling block masterpieces...',
+  ]
+
+  const [messageIndex, setMessageIndex] = useState(0)
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setMessageIndex((prev) => (prev + 1) % messages.length)
+    }, 3000)
+
+    return () => clearInterval(interval)
+  }, [])
+
+  return (
+    <div className="text-lg font-mono dark:text-gray-200">
+      {messages[messageIndex]}
+    </div>
+  )
+}
+
+export default RotatingLoadingMessage
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react'
+import { useState } from 'react'
 
 import {
   CheckCircle,
@@ -9,7 +9,8 @@ import {
   RefreshCw,
 } from 'lucide-react'
 
-import { adminAPI } from '../../api/client'
+import { retryRunTasks } from '../../api/runs'
+import { useRunStatus } from '../../hooks/useRunStatus'
 import { RunData } from '../../types/runs'
 import { Card, CardContent } from './Card'
 import { Progress } from './Progress'
@@ -28,67 +29,17 @@ const RunControls = ({
   const [isExpanded, setIsExpanded] = useState(startExpanded)
   const [selectedTask, setSelectedTask] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [stageStatus, setStageStatus] = useState<any>(null)
+  const { status: stageStatus, refresh: refreshStatus } = useRunStatus(runId)
 
   const sampleCount = Math.max(1, run?.samples?.length || 0)
   const sampleLabel = `Sample ${sampleCount}`
 
-  const pollStatus = async () => {
-    try {
-      const { data } = await adminAPI.get(`run/${runId}/status`)
-      setStageStatus(data)
-      return data.status !== 'COMPLETED' && !data.status.includes('FAILED')
-    } catch (error) {
-      console.error('Failed to fetch status:', error)
-      return false
-    }
-  }
-
-  useEffect(() => {
-    let interval: number | null = null
-    let isComponentMounted = true
-
-    const startPolling = async () => {
-      if (!isComponentMounted) return
-
-      const shouldContinue = await pollStatus()
-      if (shouldContinue && isComponentMounted) {
-        interval = window.setInterval(async () => {
-          if (!isComponentMounted) {
-            if (interval) {
-              clearInterval(interval)
-            }
-            return
-          }
-
-          const shouldContinuePolling = await pollStatus()
-          if (!shouldContinuePolling && interval) {
-            clearInterval(interval)
-            interval = null
-          }
-        }, 5000)
-      }
-    }
-
-    startPolling()
-
-    return () => {
-      isComponentMounted = false
-      if (interval) {
-        clearInterval(interval)
-        interval = null
-      }
-    }
-  }, [runId])
-
   const handleRetry = async () => {
-    if (!selectedTask) return
+    if (!selectedTask || !runId) return
     setIsSubmitting(true)
     try {
-      await adminAPI.post(`/run/${runId}/task-retry`, {
-        tasks: [selectedTask.toUpperCase()],
-      })
-      await pollStatus()
+      await retryRunTasks(runId, [selectedTask])
+      await refreshStatus()
       onRetryComplete?.()
     } catch (error) {
       console.error('Failed to retry task:', error)
@@ -128,7 +79,7 @@ const RunControls = ({
 
         {isExpanded && stageStatus?.stages && (
           <div className="mt-4 space-y-4">
-            {stageStatus.stages.map((stage: any) => (
+            {stageStatus.stages.map((stage) => (
               <div key={stage.id} className="flex items-center gap-4">
                 <div className="flex items-center gap-2 w-48">
                   {getStageIcon(stage.state)}
@@ -152,7 +103,7 @@ const RunControls = ({
                 <div className="flex-1">
                   <Progress
                     value={stage.progress * 100}
-                    note={stage.note}
+                    note={stage.note ?? undefined}
                     animated={stage.state === 'IN_PROGRESS'}
                   />
                 </div>
@@ -8,6 +8,9 @@ import {
   Terminal,
 } from 'lucide-react'
 
+import { TemplateVersionRef } from '../../types/templates'
+import { TemplateVersionBadge } from './TemplateVersionBadge'
+
 interface RunResource {
   id: string
   name?: string
@@ -24,6 +27,8 @@ interface RunResource {
 interface RunResourcesProps {
   model: RunResource
   template: RunResource
+  // The exact template version the run used, when known
+  templateVersion?: TemplateVersionRef | null
   prompt: RunResource
   isExpanded: boolean
   onToggle: () => void
@@ -33,6 +38,7 @@ interface RunResourcesProps {
 export const RunResources = ({
   model,
   template,
+  templateVersion,
   prompt,
   isExpanded,
   onToggle,
@@ -82,6 +88,9 @@ export const RunResources = ({
             <div className="flex items-center gap-2">
               <Terminal className="h-4 w-4 text-gray-400 dark:text-gray-500" />
               <span className="truncate">{template.name}</span>
+              {templateVersion && (
+                <TemplateVersionBadge version={templateVersion.version} />
+              )}
             </div>
           </div>
         </div>
@@ -131,6 +140,9 @@ export const RunResources = ({
                   <p>Usage: {template.usage}</p>
                 </>
               )}
+              {templateVersion && (
+                <p>Version used: v{templateVersion.version}</p>
+              )}
             </div>
           </div>
 
@@ -0,0 +1,98 @@
+import { useMemo } from 'react'
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter'
+import {
+  oneDark,
+  oneLight,
+} from 'react-syntax-highlighter/dist/esm/styles/prism'
+
+import { useTheme } from '../../hooks/useTheme'
+import { THEME_MODES } from '../../types/theme'
+import { DiffLine, toSideBySide } from '../../utils/diff'
+
+const LINE_STYLES: Record<DiffLine['kind'], string> = {
+  same: 'text-gray-800 dark:text-gray-200',
+  added: 'bg-green-50 text-green-900 dark:bg-green-900/20 dark:text-green-200',
+  removed: 'bg-red-50 text-red-900 dark:bg-red-900/20 dark:text-red-200',
+}
+
+// Lets the row's diff colour show through the highlighted code
+const HIGHLIGHT_STYLE = {
+  margin: 0,
+  padding: 0,
+  background: 'transparent',
+  fontSize: 'inherit',
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-all',
+} as const
+
+interface SideBySideDiffProps {
+  lines: DiffLine[]
+  // Highlights each line as this language when set
+  language?: string
+}
+
+interface DiffCellProps {
+  line: DiffLine | null
+  side: 'left' | 'right'
+  language?: string
+  isDarkMode: boolean
+}
+
+const DiffCell = ({ line, side, language, isDarkMode }: DiffCellProps) => (
+  <>
+    <td className="w-10 px-2 text-right align-top select-none text-gray-400 dark:text-gray-500 border-r border-gray-200 dark:border-gray-700">
+      {side === 'left' ? line?.leftNumber : line?.rightNumber}
+    </td>
+    <td
+      className={`px-2 align-top whitespace-pre-wrap break-all ${
+        line ? LINE_STYLES[line.kind] : 'bg-gray-50 dark:bg-gray-900/40'
+      }`}
+    >
+      {line && language ? (
+        <SyntaxHighlighter
+          language={language}
+          style={isDarkMode ? oneDark : oneLight}
+          customStyle={HIGHLIGHT_STYLE}
+          codeTagProps={{ style: { background: 'transparent' } }}
+          PreTag="div"
+        >
+          {line.text}
+        </SyntaxHighlighter>
+      ) : (
+        line?.text
+      )}
+    </td>
+  </>
+)
+
+// Old text on the left, new on the right, changed lines lined up
+export const SideBySideDiff = ({ lines, language }: SideBySideDiffProps) => {
+  const { theme } = useTheme()
+  const isDarkMode = theme === THEME_MODES.DARK
+  const rows = useMemo(() => toSideBySide(lines), [lines])
+
+  return (
+    <div className="overflow-x-auto rounded-md border border-gray-200 dark:border-gray-700">
+      <table className="w-full table-fixed font-mono text-xs">
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index}>
+              <DiffCell
+                line={row.left}
+                side="left"
+                language={language}
+                isDarkMode={isDarkMode}
+              />
+              <DiffCell
+                line={row.right}
+                side="right"
+                language={language}
+                isDarkMode={isDarkMode}
+              />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,15 @@
+interface TemplateVersionBadgeProps {
+  version: number
+}
+
+// Marks which template version a run was generated from
+export const TemplateVersionBadge = ({
+  version,
+}: TemplateVersionBadgeProps) => (
+  <span
+    className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300"
+    title="Template version used by this run"
+  >
+    v{version}
+  </span>
+)
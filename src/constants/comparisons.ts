@@ -0,0 +1,3 @@
+// Comparison tokens handed out by /comparison/batch stop being accepted
+// by /comparison/result after this long
+export const COMPARISON_EXPIRY = 50 * 60 * 1000 // 50 minutes in milliseconds
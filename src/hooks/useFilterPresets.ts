@@ -0,0 +1,194 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { isAxiosError } from 'axios'
+
+import { adminAPI } from '../api/client'
+import {
+  FilterPreset,
+  FilterPresetListResponse,
+  FilterPresetScope,
+  FilterPresetUpdateRequest,
+} from '../types/filterPresets'
+import { useAuth } from './useAuth'
+
+// Constants
+const STORAGE_KEY_PREFIX = 'mcbench_filter_presets'
+const SYNC_ERROR = 'Presets are only saved in this browser'
+
+// Params that describe the page view rather than the filters
+const NON_FILTER_PARAMS = ['page', 'preset']
+
+// Normalised filter query, so the same filters always compare equal
+export const getPresetQuery = (searchParams: URLSearchParams) => {
+  const params = new URLSearchParams(searchParams)
+  NON_FILTER_PARAMS.forEach((key) => params.delete(key))
+  params.sort()
+  return params.toString()
+}
+
+const getStorageKey = (scope: FilterPresetScope, username?: string) =>
+  `${STORAGE_KEY_PREFIX}_${scope}_${username || 'anonymous'}`
+
+const readPresets = (storageKey: string): FilterPreset[] => {
+  try {
+    const raw = localStorage.getItem(storageKey)
+    return raw ? (JSON.parse(raw) as FilterPreset[]) : []
+  } catch (err) {
+    console.error('Failed to read filter presets:', err)
+    return []
+  }
+}
+
+const writePresets = (storageKey: string, presets: FilterPreset[]) => {
+  if (presets.length === 0) {
+    localStorage.removeItem(storageKey)
+  } else {
+    localStorage.setItem(storageKey, JSON.stringify(presets))
+  }
+}
+
+const createPresetId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+
+// Named filter presets for a list page, kept per user in local storage and
+// mirrored to the server when it supports it
+export const useFilterPresets = (scope: FilterPresetScope) => {
+  const { user } = useAuth()
+  const username = user?.username
+  const storageKey = getStorageKey(scope, username)
+
+  const [presets, setPresets] = useState<FilterPreset[]>(() =>
+    readPresets(storageKey)
+  )
+  const [syncError, setSyncError] = useState<string | null>(null)
+  // Cleared once the server says it has no preset storage
+  const serverSyncRef = useRef(true)
+
+  const pushPresets = useCallback(
+    async (next: FilterPreset[]) => {
+      if (!serverSyncRef.current) return
+
+      try {
+        const payload: FilterPresetUpdateRequest = { scope, presets: next }
+        await adminAPI.put('/me/filter-preset', payload)
+        setSyncError(null)
+      } catch (err) {
+        console.error('Failed to sync filter presets:', err)
+        setSyncError(SYNC_ERROR)
+      }
+    },
+    [scope]
+  )
+
+  // Load the local copy for this user, then prefer the server's if it has one
+  useEffect(() => {
+    const local = readPresets(storageKey)
+    setPresets(local)
+    if (!username) return
+
+    let cancelled = false
+
+    const pullPresets = async () => {
+      try {
+        const { data } = await adminAPI.get<FilterPresetListResponse>(
+          '/me/filter-preset',
+          { params: { scope } }
+        )
+        if (cancelled) return
+
+        serverSyncRef.current = true
+        if (data.data.length > 0) {
+          writePresets(storageKey, data.data)
+          setPresets(data.data)
+        } else if (local.length > 0) {
+          pushPresets(local)
+        }
+      } catch (err) {
+        if (isAxiosError(err) && err.response?.status === 404) {
+          serverSyncRef.current = false
+          return
+        }
+        console.error('Failed to load filter presets:', err)
+        if (!cancelled) setSyncError(SYNC_ERROR)
+      }
+    }
+
+    pullPresets()
+
+    return () => {
+      cancelled = true
+    }
+  }, [scope, storageKey, username, pushPresets])
+
+  const savePresets = useCallback(
+    (update: (presets: FilterPreset[]) => FilterPreset[]) => {
+      const next = update(readPresets(storageKey))
+      writePresets(storageKey, next)
+      setPresets(next)
+      pushPresets(next)
+    },
+    [storageKey, pushPresets]
+  )
+
+  const createPreset = useCallback(
+    (name: string, query: string) => {
+      const now = new Date().toISOString()
+      savePresets((current) => [
+        ...current,
+        {
+          id: createPresetId(),
+          name: name.trim(),
+          query,
+          pinned: true,
+          created: now,
+          lastModified: now,
+        },
+      ])
+    },
+    [savePresets]
+  )
+
+  const updatePreset = useCallback(
+    (id: string, changes: Partial<Pick<FilterPreset, 'name' | 'pinned'>>) => {
+      savePresets((current) =>
+        current.map((preset) =>
+          preset.id === id
+            ? { ...preset, ...changes, lastModified: new Date().toISOString() }
+            : preset
+        )
+      )
+    },
+    [savePresets]
+  )
+
+  const renamePreset = useCallback(
+    (id: string, name: string) => updatePreset(id, { name: name.trim() }),
+    [updatePreset]
+  )
+
+  const togglePinned = useCallback(
+    (id: string) => {
+      const preset = presets.find((p) => p.id === id)
+      if (preset) updatePreset(id, { pinned: !preset.pinned })
+    },
+    [presets, updatePreset]
+  )
+
+  const deletePreset = useCallback(
+    (id: string) => {
+      savePresets((current) => current.filter((preset) => preset.id !== id))
+    },
+    [savePresets]
+  )
+
+  return {
+    presets,
+    syncError,
+    createPreset,
+    renamePreset,
+    togglePinned,
+    deletePreset,
+  }
+}
+
+export type FilterPresetsState = ReturnType<typeof useFilterPresets>
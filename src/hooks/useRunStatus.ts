@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react'
+
+import { refreshRunStatus, subscribeToRunStatus } from '../api/runStatus'
+import { RunStatusResponse } from '../types/runs'
+
+// Live stage status for a single run
+export const useRunStatus = (runId: string | undefined) => {
+  const [status, setStatus] = useState<RunStatusResponse | null>(null)
+
+  useEffect(() => {
+    setStatus(null)
+    if (!runId) return
+    return subscribeToRunStatus(runId, setStatus)
+  }, [runId])
+
+  const refresh = useCallback(async () => {
+    if (runId) await refreshRunStatus(runId)
+  }, [runId])
+
+  return { status, refresh }
+}
+
+// Live stage status for a set of runs, keyed by run id; callers should only
+// pass runs that can still change
+export const useRunStatuses = (runIds: string[]) => {
+  const [statuses, setStatuses] = useState<Record<string, RunStatusResponse>>(
+    {}
+  )
+  const key = Array.from(new Set(runIds)).sort().join(',')
+
+  useEffect(() => {
+    setStatuses({})
+    if (!key) return
+
+    const unsubscribes = key
+      .split(',')
+      .map((runId) =>
+        subscribeToRunStatus(runId, (status) =>
+          setStatuses((prev) => ({ ...prev, [runId]: status }))
+        )
+      )
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [key])
+
+  return statuses
+}
@@ -0,0 +1,20 @@
+import { useCallback, useState } from 'react'
+
+// Ids picked with row checkboxes, with a toggle for a single row
+export const useSelection = () => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+
+  const toggleSelected = useCallback((id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }, [])
+
+  return { selectedIds, setSelectedIds, toggleSelected }
+}
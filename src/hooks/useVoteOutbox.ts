@@ -0,0 +1,218 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { isAxiosError } from 'axios'
+
+import { api } from '../api/client'
+import { COMPARISON_EXPIRY } from '../constants/comparisons'
+import {
+  ComparisonResultResponse,
+  PendingVote,
+  UserComparisonRequest,
+} from '../types/comparisons'
+
+// Constants
+const OUTBOX_STORAGE_KEY = 'mcbench_vote_outbox'
+const BASE_RETRY_DELAY_MS = 2 * 1000
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000
+
+const isExpired = (vote: PendingVote, now: number) =>
+  now - vote.fetchedAt >= COMPARISON_EXPIRY
+
+const readOutbox = (): PendingVote[] => {
+  try {
+    const raw = localStorage.getItem(OUTBOX_STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as PendingVote[]) : []
+  } catch (err) {
+    console.error('Failed to read vote outbox:', err)
+    return []
+  }
+}
+
+const writeOutbox = (votes: PendingVote[]) => {
+  if (votes.length === 0) {
+    localStorage.removeItem(OUTBOX_STORAGE_KEY)
+  } else {
+    localStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(votes))
+  }
+}
+
+// Read-modify-write in one synchronous step so concurrent submits and
+// replays never overwrite each other's changes
+const updateOutbox = (update: (votes: PendingVote[]) => PendingVote[]) => {
+  const now = Date.now()
+  const votes = update(readOutbox()).filter((vote) => !isExpired(vote, now))
+  writeOutbox(votes)
+  return votes
+}
+
+const getRetryDelay = (attempts: number) => {
+  const delay = Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** (attempts - 1),
+    MAX_RETRY_DELAY_MS
+  )
+  // Add up to 20% jitter so reconnecting clients don't retry in lockstep
+  return delay + Math.random() * delay * 0.2
+}
+
+// Client errors (bad or already used token, validation) will never succeed on
+// retry; network failures, rate limits and server errors might
+const isRetryable = (err: unknown) => {
+  if (!isAxiosError(err) || !err.response) return true
+  const status = err.response.status
+  return status === 408 || status === 429 || status >= 500
+}
+
+const postVote = async (payload: UserComparisonRequest) => {
+  // The /comparison/result endpoint will receive our session and identification headers
+  // through our axios interceptors. The backend will associate this vote with
+  // the session and identification headers.
+  const { data } = await api.post<ComparisonResultResponse>(
+    '/comparison/result',
+    payload
+  )
+  return data
+}
+
+export const useVoteOutbox = () => {
+  const [pendingCount, setPendingCount] = useState(
+    () => readOutbox().filter((vote) => !isExpired(vote, Date.now())).length
+  )
+  const isFlushingRef = useRef(false)
+  const retryTimerRef = useRef<number | null>(null)
+  // The retry timer outlives renders, so it calls flush through a ref
+  const flushRef = useRef<() => void>(() => {})
+
+  const scheduleRetry = useCallback((votes: PendingVote[]) => {
+    if (retryTimerRef.current !== null) {
+      window.clearTimeout(retryTimerRef.current)
+      retryTimerRef.current = null
+    }
+    if (votes.length === 0) return
+
+    const nextAttemptAt = Math.min(...votes.map((vote) => vote.nextAttemptAt))
+    // Also wake up when the oldest vote expires so the counter drops it
+    const nextExpiry = Math.min(
+      ...votes.map((vote) => vote.fetchedAt + COMPARISON_EXPIRY)
+    )
+    const delay = Math.max(Math.min(nextAttemptAt, nextExpiry) - Date.now(), 0)
+
+    retryTimerRef.current = window.setTimeout(() => {
+      retryTimerRef.current = null
+      flushRef.current()
+    }, delay)
+  }, [])
+
+  // Replay every vote whose backoff has elapsed
+  const flush = useCallback(async () => {
+    if (isFlushingRef.current) return
+    isFlushingRef.current = true
+
+    try {
+      const now = Date.now()
+      const due = updateOutbox((votes) => votes).filter(
+        (vote) => vote.nextAttemptAt <= now
+      )
+
+      for (const vote of due) {
+        const token = vote.payload.comparisonDetails.token
+        try {
+          await postVote(vote.payload)
+          updateOutbox((votes) =>
+            votes.filter((v) => v.payload.comparisonDetails.token !== token)
+          )
+        } catch (err) {
+          if (!isRetryable(err)) {
+            console.error('Dropping undeliverable vote:', token, err)
+            updateOutbox((votes) =>
+              votes.filter((v) => v.payload.comparisonDetails.token !== token)
+            )
+            continue
+          }
+
+          updateOutbox((votes) =>
+            votes.map((v) =>
+              v.payload.comparisonDetails.token === token
+                ? {
+                    ...v,
+                    attempts: v.attempts + 1,
+                    nextAttemptAt: Date.now() + getRetryDelay(v.attempts + 1),
+                  }
+                : v
+            )
+          )
+        }
+      }
+    } finally {
+      isFlushingRef.current = false
+      const remaining = updateOutbox((votes) => votes)
+      setPendingCount(remaining.length)
+      scheduleRetry(remaining)
+    }
+  }, [scheduleRetry])
+
+  useEffect(() => {
+    flushRef.current = flush
+  }, [flush])
+
+  // Submit a vote, falling back to the outbox if it can't be delivered.
+  // Resolves with the result when delivered immediately, otherwise null.
+  const submitVote = useCallback(
+    async (
+      payload: UserComparisonRequest,
+      fetchedAt: number
+    ): Promise<ComparisonResultResponse | null> => {
+      try {
+        return await postVote(payload)
+      } catch (err) {
+        if (!isRetryable(err)) throw err
+
+        console.error('Failed to submit comparison, queueing for retry:', err)
+        const remaining = updateOutbox((votes) => [
+          ...votes.filter(
+            (v) =>
+              v.payload.comparisonDetails.token !==
+              payload.comparisonDetails.token
+          ),
+          {
+            payload,
+            fetchedAt,
+            attempts: 1,
+            nextAttemptAt: Date.now() + getRetryDelay(1),
+          },
+        ])
+        setPendingCount(remaining.length)
+        scheduleRetry(remaining)
+        return null
+      }
+    },
+    [scheduleRetry]
+  )
+
+  // Replay anything left over from a previous page load, and retry as soon
+  // as the browser comes back online
+  useEffect(() => {
+    flush()
+
+    const handleOnline = () => {
+      updateOutbox((votes) =>
+        votes.map((vote) => ({ ...vote, nextAttemptAt: Date.now() }))
+      )
+      flush()
+    }
+
+    window.addEventListener('online', handleOnline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      if (retryTimerRef.current !== null) {
+        window.clearTimeout(retryTimerRef.current)
+        retryTimerRef.current = null
+      }
+    }
+  }, [flush])
+
+  return {
+    pendingCount,
+    submitVote,
+    flush,
+  }
+}
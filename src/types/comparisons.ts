@@ -13,6 +13,7 @@ export interface UserComparisonRequest {
   // The new format uses a nested array structure
   // For a clear win: [[winnerId], [loserId]]
   // For a tie: [[id1, id2]]
+  // For a ranking of more samples, one array per tier: [[id1], [id2, id3], [id4]]
   orderedSampleIds: string[][]
 }
 
@@ -44,6 +45,8 @@ export interface ComparisonBatchResponse {
 export interface ComparisonResultResponse {
   sample_1_model: string
   sample_2_model: string
+  // Model names for every sample, in comparisonDetails.samples order
+  sample_models?: string[]
 }
 
 export interface QueuedComparison extends ComparisonResponse {
@@ -73,3 +76,11 @@ export interface SessionHeaders {
   'X-MCBench-Session'?: string
   'X-MCBench-Identification'?: string
 }
+
+// A vote that could not be delivered yet and is waiting in the local outbox
+export interface PendingVote {
+  payload: UserComparisonRequest
+  fetchedAt: number // When the comparison was fetched, used for expiry
+  attempts: number
+  nextAttemptAt: number
+}
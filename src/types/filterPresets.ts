@@ -0,0 +1,22 @@
+// Pages that support saved presets; for generations a preset is a
+// template/prompt/model selection rather than list filters
+export type FilterPresetScope = 'samples' | 'runs' | 'generations'
+
+export interface FilterPreset {
+  id: string
+  name: string
+  // The page's filter (or selection) query string, without paging
+  query: string
+  pinned: boolean
+  created: string
+  lastModified: string
+}
+
+export interface FilterPresetListResponse {
+  data: FilterPreset[]
+}
+
+export interface FilterPresetUpdateRequest {
+  scope: FilterPresetScope
+  presets: FilterPreset[]
+}
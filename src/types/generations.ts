@@ -1,6 +1,6 @@
 import { Model } from './models.ts'
 import { Prompt } from './prompts.ts'
-import { Template } from './templates.ts'
+import { Template, TemplateVersionRef } from './templates.ts'
 
 export interface GenerationResponse {
   id: string
@@ -27,6 +27,8 @@ export interface RunResponse {
   prompt: Prompt
   model: Model
   template: Template
+  // The template version the run was built from
+  templateVersion?: TemplateVersionRef | null
   status: string
   error?: string
   latestCompletedStage?: string
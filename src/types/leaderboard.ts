@@ -16,6 +16,8 @@ export interface LeaderboardEntry {
   lossCount: number
   tieCount: number
   lastUpdated: string // ISO format timestamp
+  // 95% interval; estimated client-side when the API omits it
+  eloConfidenceInterval?: EloConfidenceInterval | null
   model: {
     id: string
     name: string
@@ -27,6 +29,42 @@ export interface LeaderboardEntry {
   } | null
 }
 
+export interface LeaderboardHistoryPoint {
+  date: string // ISO date (YYYY-MM-DD)
+  eloScore: number
+  voteCount: number
+  winCount: number
+  lossCount: number
+  tieCount: number
+}
+
+export interface LeaderboardHistorySeries {
+  model: {
+    id: string
+    name: string
+    slug: string
+  }
+  points: LeaderboardHistoryPoint[]
+}
+
+export interface LeaderboardHistoryResponse {
+  metric: {
+    id: string
+    name: string
+    description: string
+  }
+  testSetId: string
+  testSetName: string
+  startDate: string
+  endDate: string
+  series: LeaderboardHistorySeries[]
+}
+
+export interface EloConfidenceInterval {
+  lower: number
+  upper: number
+}
+
 export interface ModelStatisticsResponse {
   model: {
     id: string
@@ -41,6 +79,7 @@ export interface ModelStatisticsResponse {
     totalLosses: number
     totalTies: number
     winRate: number
+    eloConfidenceInterval?: EloConfidenceInterval | null
   }
   bucketStats?: BucketStats[]
   topSamples?: Array<{
@@ -1,5 +1,15 @@
 import { RunResponse } from './generations'
 
+// Build sizes a prompt can ask for; the value is also added as a tag
+export const BUILD_SIZE_OPTIONS = [
+  { label: 'Tiny', value: 'a 5x5x5 bounding box' },
+  { label: 'Small', value: 'a 10x10x10 bounding box' },
+  { label: 'Medium', value: 'a 20x20x20 bounding box' },
+  { label: 'Large', value: 'a 40x40x40 bounding box' },
+  { label: 'Extra Large', value: 'a 60x60x60 bounding box' },
+  { label: 'Massive', value: 'a 80x80x80 bounding box' },
+]
+
 export interface Tag {
   id: string
   name: string
@@ -59,4 +69,6 @@ export interface Prompt {
   buildSize?: string | null
   observationalNoteCount: number
   pendingProposalCount: number
+  // The prompt this one was cloned from
+  parentId?: string | null
 }
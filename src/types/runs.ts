@@ -1,6 +1,6 @@
 import { Model } from './models.ts'
 import { Prompt } from './prompts.ts'
-import { Template } from './templates.ts'
+import { Template, TemplateVersionRef } from './templates.ts'
 
 export interface Run {
   id: string
@@ -68,6 +68,16 @@ export interface RunStage {
   heartbeat?: string
 }
 
+export interface RunStatusResponse {
+  status: string
+  stages?: RunStage[]
+}
+
+// Pushed by the run status stream, one per stage change
+export interface RunStatusEvent extends RunStatusResponse {
+  runId: string
+}
+
 export interface RunListData {
   id: string
   created: string
@@ -77,6 +87,8 @@ export interface RunListData {
   prompt: Prompt
   model: Model
   template: Template
+  // The template version the run was built from
+  templateVersion?: TemplateVersionRef | null
   status: string
   generationId: string | null
   stages?: RunStage[]
@@ -92,6 +104,8 @@ export interface RunData {
   prompt: Prompt
   model: Model
   template: Template
+  // The template version the run was built from
+  templateVersion?: TemplateVersionRef | null
   status: string
   samples: Sample[]
   artifacts: Artifact[]
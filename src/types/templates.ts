@@ -43,6 +43,27 @@ export interface Template {
   tags?: TemplateTag[]
   observationalNoteCount: number
   pendingProposalCount: number
+  // Number of the latest version; every save creates a new one
+  version?: number
+  forkedFrom?: TemplateVersionRef | null
+}
+
+export interface TemplateVersionRef {
+  id: string
+  templateId: string
+  version: number
+}
+
+export interface TemplateVersion {
+  id: string
+  version: number
+  name: string
+  description: string
+  content: string
+  // Change note given when the version was saved
+  note: string | null
+  created: string
+  createdBy: string
 }
 
 export interface TemplateTag {
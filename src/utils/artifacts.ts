@@ -41,6 +41,16 @@ export const getArtifactUrl = (artifact: Artifact): string => {
   return `${rootUrl}/${artifact.bucket}/${artifact.key}`
 }
 
+// URL of the rendered 3D model among a sample's artifacts, if it has one
+export const getGltfUrl = (artifacts: Artifact[]) => {
+  const gltf = artifacts.find(
+    (a) =>
+      (a.key.endsWith('.gltf') || a.key.endsWith('.glb')) &&
+      a.kind === 'RENDERED_MODEL_GLB'
+  )
+  return gltf ? getArtifactUrl(gltf) : null
+}
+
 export const getDisplayFileName = (artifact: Artifact): string => {
   if (artifact.kind === 'RENDERED_MODEL_GLB_COMPARISON_SAMPLE') {
     return 'sample.glb'
@@ -0,0 +1,41 @@
+export interface CameraSyncState {
+  position: [number, number, number]
+  target: [number, number, number]
+}
+
+export interface CameraSyncChannel {
+  // The viewer the user last interacted with; only it publishes changes
+  activeViewerId: string | null
+  publish: (sourceId: string, state: CameraSyncState) => void
+  subscribe: (
+    viewerId: string,
+    listener: (state: CameraSyncState) => void
+  ) => () => void
+}
+
+export const createCameraSyncChannel = (
+  initialActiveViewerId: string | null = null
+): CameraSyncChannel => {
+  const listeners = new Map<string, (state: CameraSyncState) => void>()
+  let lastState: { sourceId: string; state: CameraSyncState } | null = null
+
+  return {
+    activeViewerId: initialActiveViewerId,
+    publish: (sourceId, state) => {
+      lastState = { sourceId, state }
+      listeners.forEach((listener, viewerId) => {
+        if (viewerId !== sourceId) listener(state)
+      })
+    },
+    subscribe: (viewerId, listener) => {
+      listeners.set(viewerId, listener)
+      // Late subscribers catch up with the last published camera
+      if (lastState && lastState.sourceId !== viewerId) {
+        listener(lastState.state)
+      }
+      return () => {
+        listeners.delete(viewerId)
+      }
+    },
+  }
+}
@@ -0,0 +1,82 @@
+import { useGLTF } from '@react-three/drei'
+
+import { api } from '../api/client'
+import settings from '../config/settings'
+import {
+  AssetFile,
+  ComparisonResponse,
+  MetricResponse,
+} from '../types/comparisons'
+import { modelPathCache, preloadModel } from './modelCache'
+
+const getAssetFileUrl = (artifact: AssetFile) => {
+  // TODO: Make this better to detect whether the root url already
+  //  encodes the bucket information
+  if (settings.external_object_cdn_root_url.includes('mcbench.ai')) {
+    return `${settings.external_object_cdn_root_url}/${artifact.key}`
+  }
+
+  return `${settings.external_object_cdn_root_url}/${artifact.bucket}/${artifact.key}`
+}
+
+let cachedMetricId: string | null = null
+
+export const fetchMetricId = async (): Promise<string> => {
+  if (cachedMetricId) return cachedMetricId
+
+  const { data } = await api.get<MetricResponse[]>('/metrics')
+  const metric = data.find((m) => m.name === 'UNQUALIFIED_BETTER')
+  if (!metric) throw new Error('Required metric not found')
+
+  cachedMetricId = metric.id
+  return metric.id
+}
+
+export const getModelPath = (
+  comparison: ComparisonResponse,
+  sampleId: string
+): string => {
+  const asset = comparison.assets.find((a) => a.sampleId === sampleId)
+  const gltfFile = asset?.files.find((f) => f.kind === 'gltf_scene')
+
+  if (gltfFile?.bucket && gltfFile?.key) {
+    return getAssetFileUrl(gltfFile)
+  }
+
+  if (!gltfFile?.url) {
+    console.error('Missing GLTF file for sample:', sampleId)
+    throw new Error(`Missing GLTF file for sample: ${sampleId}`)
+  }
+
+  return gltfFile.url
+}
+
+// Register every sample of a comparison in the path cache and load all of
+// its models, however many samples the comparison carries
+export const preloadComparisonModels = async (
+  comparison: ComparisonResponse
+): Promise<void> => {
+  // Initialize cache key-specific path cache if needed
+  if (!modelPathCache.has(comparison.token)) {
+    modelPathCache.set(comparison.token, new Map<string, string>())
+  }
+  const cacheKeyPathCache = modelPathCache.get(comparison.token)!
+
+  const paths = comparison.samples.map((sampleId) => {
+    const path = getModelPath(comparison, sampleId)
+    cacheKeyPathCache.set(sampleId, path)
+    return path
+  })
+
+  await Promise.all(paths.map((path) => preloadModel(comparison.token, path)))
+}
+
+// Drop a comparison's models from drei's cache right away so the next
+// comparison can't reuse their positions
+export const clearComparisonModels = (comparison: ComparisonResponse) => {
+  comparison.samples.forEach((sampleId) => {
+    const path = getModelPath(comparison, sampleId)
+    console.log('Clearing model from useGLTF cache:', path)
+    useGLTF.clear(path)
+  })
+}
@@ -0,0 +1,296 @@
+import { Model } from '../types/models'
+import { Prompt } from '../types/prompts'
+import { Template } from '../types/templates'
+
+// Bump when the bundle shape changes; older versions must stay importable
+export const BUNDLE_FORMAT = 'mcbench-config-bundle'
+export const BUNDLE_VERSION = 1
+
+export const REDACTED_VALUE = '<redacted>'
+
+// Provider config is redacted by default: only strings under these keys are
+// exported as-is. Numbers and booleans are always kept. Keys are compared
+// lower-cased with `_` and `-` stripped.
+const SAFE_CONFIG_KEYS = new Set([
+  'model',
+  'modelname',
+  'modelid',
+  'deployment',
+  'deploymentname',
+  'apiversion',
+  'region',
+  'location',
+  'responseformat',
+  'stop',
+  'stopsequences',
+  'reasoningeffort',
+])
+
+// Keys whose whole value is redacted, whatever its type. Matches `apiKey`,
+// `x-api-key`, `key`, `credentials`, `access_token` etc., but not counts like
+// `maxTokens`.
+const SECRET_KEY_PATTERN =
+  /apikey|accesskey|privatekey|^key$|secret|password|passwd|credential|auth|token$/
+
+export type BundleKind = 'prompts' | 'templates' | 'models'
+
+export interface BundlePrompt {
+  name: string
+  buildSpecification: string
+  buildSize: string | null
+  tags: string[]
+  experimentalState: string
+  active: boolean
+}
+
+export interface BundleTemplate {
+  name: string
+  description: string
+  content: string
+  tags: string[]
+  experimentalState: string
+  active: boolean
+}
+
+export interface BundleProvider {
+  name: string
+  providerClass: string
+  isDefault: boolean
+  config: Record<string, unknown>
+}
+
+export interface BundleModel {
+  slug: string
+  name: string
+  providers: BundleProvider[]
+  experimentalState: string
+  active: boolean
+}
+
+export interface ConfigBundle {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  prompts: BundlePrompt[]
+  templates: BundleTemplate[]
+  models: BundleModel[]
+}
+
+// Why an item won't be imported: something with its name (or slug) already
+// exists, or an earlier entry in the same bundle has it
+export type BundleConflict = 'exists' | 'duplicate'
+
+export interface BundleItem {
+  kind: BundleKind
+  // Position in the bundle's list for its kind
+  index: number
+  // Name for prompts and templates, slug for models
+  key: string
+  conflict: BundleConflict | null
+  // Provider config values that were redacted on export
+  redacted: boolean
+}
+
+const normalizeConfigKey = (key: string) =>
+  key.toLowerCase().replace(/[_-]/g, '')
+
+// `key` is the config key the value sits under; array items inherit it
+export const redactSecrets = (value: unknown, key?: string): unknown => {
+  const normalized = key === undefined ? undefined : normalizeConfigKey(key)
+  if (normalized !== undefined && SECRET_KEY_PATTERN.test(normalized)) {
+    return REDACTED_VALUE
+  }
+
+  if (Array.isArray(value)) return value.map((item) => redactSecrets(item, key))
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([itemKey, item]) => [
+        itemKey,
+        redactSecrets(item, itemKey),
+      ])
+    )
+  }
+  if (typeof value === 'string') {
+    return normalized !== undefined && SAFE_CONFIG_KEYS.has(normalized)
+      ? value
+      : REDACTED_VALUE
+  }
+  return value
+}
+
+export const hasRedactedValue = (value: unknown): boolean => {
+  if (value === REDACTED_VALUE) return true
+  if (!value || typeof value !== 'object') return false
+  return Object.values(value).some(hasRedactedValue)
+}
+
+export const toConfigBundle = ({
+  prompts = [],
+  templates = [],
+  models = [],
+}: {
+  prompts?: Prompt[]
+  templates?: Template[]
+  models?: Model[]
+}): ConfigBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  prompts: prompts.map((prompt) => ({
+    name: prompt.name,
+    buildSpecification: prompt.buildSpecification,
+    buildSize: prompt.buildSize ?? null,
+    tags: prompt.tags.map((tag) => tag.name),
+    experimentalState: prompt.experimentalState,
+    active: prompt.active,
+  })),
+  templates: templates.map((template) => ({
+    name: template.name,
+    description: template.description,
+    content: template.content,
+    tags: template.tags?.map((tag) => tag.name) ?? [],
+    experimentalState: template.experimentalState,
+    active: template.active,
+  })),
+  models: models.map((model) => ({
+    slug: model.slug,
+    name: model.name,
+    providers: model.providers.map((provider) => ({
+      name: provider.name,
+      providerClass: provider.providerClass,
+      isDefault: provider.isDefault ?? false,
+      config: redactSecrets(provider.config ?? {}) as Record<string, unknown>,
+    })),
+    experimentalState: model.experimentalState,
+    active: model.active,
+  })),
+})
+
+export const getBundleFilename = (kind: BundleKind) =>
+  `mcbench-${kind}-${new Date().toISOString().slice(0, 10)}.json`
+
+// Throws with a readable message when the file isn't a bundle we can import
+// String fields an entry can't be previewed or imported without
+const REQUIRED_FIELDS: Record<BundleKind, string[]> = {
+  prompts: ['name', 'buildSpecification'],
+  templates: ['name', 'content'],
+  models: ['slug', 'name'],
+}
+
+const REQUIRED_PROVIDER_FIELDS = ['name', 'providerClass']
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+
+// Names the first problem with an entry, or null when it is usable
+const getEntryProblem = (kind: BundleKind, entry: unknown) => {
+  if (!isRecord(entry)) return 'not an object'
+  const missing = REQUIRED_FIELDS[kind].find(
+    (field) => typeof entry[field] !== 'string'
+  )
+  if (missing) return `missing ${missing}`
+  if (kind !== 'models') return null
+
+  if (!Array.isArray(entry.providers)) return 'missing the providers list'
+  for (const [index, provider] of entry.providers.entries()) {
+    if (!isRecord(provider)) return `provider ${index + 1} is not an object`
+    const missingField = REQUIRED_PROVIDER_FIELDS.find(
+      (field) => typeof provider[field] !== 'string'
+    )
+    if (missingField) return `provider ${index + 1} is missing ${missingField}`
+    if (!isRecord(provider.config)) {
+      return `provider ${index + 1} is missing its config`
+    }
+  }
+  return null
+}
+
+const parseEntries = <T>(kind: BundleKind, entries: unknown): T[] => {
+  if (entries === undefined) return []
+  if (!Array.isArray(entries))
+    throw new Error(`The bundle's ${kind} are not a list`)
+  entries.forEach((entry, index) => {
+    const problem = getEntryProblem(kind, entry)
+    if (problem) {
+      throw new Error(`Entry ${index + 1} in ${kind}: ${problem}`)
+    }
+  })
+  return entries as T[]
+}
+
+export const parseConfigBundle = (text: string): ConfigBundle => {
+  let data: Partial<ConfigBundle>
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  if (data?.format !== BUNDLE_FORMAT) {
+    throw new Error('The file is not a configuration bundle')
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new Error(
+      `Bundle version ${data.version} is newer than this app supports (${BUNDLE_VERSION})`
+    )
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: data.version,
+    exportedAt: data.exportedAt ?? '',
+    prompts: parseEntries<BundlePrompt>('prompts', data.prompts),
+    templates: parseEntries<BundleTemplate>('templates', data.templates),
+    models: parseEntries<BundleModel>('models', data.models),
+  }
+}
+
+// Every item in the bundle, flagged when something with the same name (or
+// slug, for models) already exists or appears earlier in the bundle
+export const getBundleItems = (
+  bundle: ConfigBundle,
+  existing: { prompts: Prompt[]; templates: Template[]; models: Model[] }
+): BundleItem[] => {
+  const toItems = (
+    kind: BundleKind,
+    keys: string[],
+    existingKeys: string[],
+    isRedacted: (index: number) => boolean = () => false
+  ): BundleItem[] => {
+    const taken = new Set(existingKeys.map((key) => key.toLowerCase()))
+    const seen = new Set<string>()
+
+    return keys.map((key, index) => {
+      const lower = key.toLowerCase()
+      const conflict = taken.has(lower)
+        ? 'exists'
+        : seen.has(lower)
+          ? 'duplicate'
+          : null
+      seen.add(lower)
+      return { kind, index, key, conflict, redacted: isRedacted(index) }
+    })
+  }
+
+  return [
+    ...toItems(
+      'prompts',
+      bundle.prompts.map((prompt) => prompt.name),
+      existing.prompts.map((prompt) => prompt.name)
+    ),
+    ...toItems(
+      'templates',
+      bundle.templates.map((template) => template.name),
+      existing.templates.map((template) => template.name)
+    ),
+    ...toItems(
+      'models',
+      bundle.models.map((model) => model.slug),
+      existing.models.map((model) => model.slug),
+      (index) =>
+        bundle.models[index].providers.some((provider) =>
+          hasRedactedValue(provider.config)
+        )
+    ),
+  ]
+}
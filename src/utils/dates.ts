@@ -0,0 +1,16 @@
+import { format, subDays } from 'date-fns'
+
+export interface DateRange {
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD
+}
+
+export const formatDateParam = (date: Date) => format(date, 'yyyy-MM-dd')
+
+export const getDefaultDateRange = (days: number = 90): DateRange => {
+  const today = new Date()
+  return {
+    startDate: formatDateParam(subDays(today, days)),
+    endDate: formatDateParam(today),
+  }
+}
@@ -0,0 +1,175 @@
+export type DiffLineKind = 'same' | 'added' | 'removed'
+
+export interface DiffLine {
+  kind: DiffLineKind
+  text: string
+  leftNumber: number | null
+  rightNumber: number | null
+}
+
+type EditOp = 'same' | 'added' | 'removed'
+
+// Past this many inserted or deleted lines the changed region is shown as
+// one removed block followed by one added block. Keeps the search bounded
+// for very different inputs.
+const MAX_EDIT_DISTANCE = 2000
+
+// Myers' O(ND) shortest edit script between a and b, or null when it needs
+// more than MAX_EDIT_DISTANCE edits
+const shortestEditScript = (a: string[], b: string[]): EditOp[] | null => {
+  const n = a.length
+  const m = b.length
+  const offset = n + m + 1
+  // v[offset + k] = furthest x reached on diagonal k = x - y
+  const v = new Int32Array(2 * offset + 1)
+  // trace[d] holds diagonals -d..d of v as they were before step d
+  const trace: Int32Array[] = []
+
+  let found = -1
+  for (let d = 0; d <= Math.min(n + m, MAX_EDIT_DISTANCE); d++) {
+    trace.push(v.slice(offset - d, offset + d + 1))
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = d
+        break
+      }
+    }
+    if (found >= 0) break
+  }
+  if (found < 0) return null
+
+  const ops: EditOp[] = []
+  let x = n
+  let y = m
+  for (let d = found; d > 0; d--) {
+    const prev = trace[d]
+    const at = (k: number) => prev[k + d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1
+    const prevX = at(prevK)
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      ops.push('same')
+      x--
+      y--
+    }
+    ops.push(prevK === k + 1 ? 'added' : 'removed')
+    x = prevX
+    y = prevY
+  }
+  while (x > 0 && y > 0) {
+    ops.push('same')
+    x--
+    y--
+  }
+
+  return ops.reverse()
+}
+
+// Line-based diff. Shared leading and trailing lines are trimmed first so
+// the edit search only covers the region that actually changed.
+export const diffLines = (left: string, right: string): DiffLine[] => {
+  const a = left.split('\n')
+  const b = right.split('\n')
+
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++
+  }
+
+  let suffix = 0
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const midA = a.slice(prefix, a.length - suffix)
+  const midB = b.slice(prefix, b.length - suffix)
+
+  const lines: DiffLine[] = []
+  let leftNumber = 1
+  let rightNumber = 1
+  const push = (kind: DiffLineKind, text: string) => {
+    lines.push({
+      kind,
+      text,
+      leftNumber: kind === 'added' ? null : leftNumber++,
+      rightNumber: kind === 'removed' ? null : rightNumber++,
+    })
+  }
+
+  a.slice(0, prefix).forEach((text) => push('same', text))
+
+  const ops = shortestEditScript(midA, midB)
+  if (ops) {
+    let i = 0
+    let j = 0
+    ops.forEach((op) => {
+      if (op === 'same') {
+        push('same', midA[i++])
+        j++
+      } else if (op === 'removed') {
+        push('removed', midA[i++])
+      } else {
+        push('added', midB[j++])
+      }
+    })
+  } else {
+    midA.forEach((text) => push('removed', text))
+    midB.forEach((text) => push('added', text))
+  }
+
+  a.slice(a.length - suffix).forEach((text) => push('same', text))
+
+  return lines
+}
+
+export interface DiffRow {
+  left: DiffLine | null
+  right: DiffLine | null
+}
+
+// Lay a diff out side by side: unchanged lines sit on both sides, and a run
+// of removed lines is paired row by row with the added lines that replace it
+export const toSideBySide = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = []
+  let removed: DiffLine[] = []
+  let added: DiffLine[] = []
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null })
+    }
+    removed = []
+    added = []
+  }
+
+  lines.forEach((line) => {
+    if (line.kind === 'removed') {
+      // A removal after additions starts a new change block
+      if (added.length > 0) flush()
+      removed.push(line)
+    } else if (line.kind === 'added') {
+      added.push(line)
+    } else {
+      flush()
+      rows.push({ left: line, right: line })
+    }
+  })
+  flush()
+
+  return rows
+}
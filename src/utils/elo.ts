@@ -0,0 +1,77 @@
+import { EloConfidenceInterval, LeaderboardEntry } from '../types/leaderboard'
+
+// Two-sided 95% interval
+const Z_95 = 1.96
+// Agresti-Coull style prior: half of z² pseudo-votes added as wins and half as
+// losses, so one-sided or all-tie records still get a wide interval
+const PRIOR_VOTES = (Z_95 * Z_95) / 2
+
+// Approximate a 95% interval around an ELO rating from its vote record.
+// This is an analytic normal approximation, not a bootstrap: each vote
+// scores 1 / 0.5 / 0 for a win / tie / loss, the standard error of the mean
+// score (with the prior added) is mapped onto the ELO scale through the slope
+// of the logistic expected-score curve at that score.
+export const estimateEloConfidenceInterval = (
+  eloScore: number,
+  winCount: number,
+  lossCount: number,
+  tieCount: number
+): EloConfidenceInterval | null => {
+  if (winCount + lossCount + tieCount === 0) return null
+
+  const wins = winCount + PRIOR_VOTES
+  const losses = lossCount + PRIOR_VOTES
+  const votes = wins + losses + tieCount
+
+  const score = (wins + 0.5 * tieCount) / votes
+  const variance = (wins + 0.25 * tieCount) / votes - score * score
+  const standardError = Math.sqrt(Math.max(variance, 0) / votes)
+
+  const eloPerScore = 400 / (Math.LN10 * score * (1 - score))
+  const halfWidth = Z_95 * standardError * eloPerScore
+
+  return { lower: eloScore - halfWidth, upper: eloScore + halfWidth }
+}
+
+// Prefer the interval computed server-side when the API provides one
+export const getEloConfidenceInterval = (
+  entry: LeaderboardEntry
+): EloConfidenceInterval | null =>
+  entry.eloConfidenceInterval ??
+  estimateEloConfidenceInterval(
+    entry.eloScore,
+    entry.winCount,
+    entry.lossCount,
+    entry.tieCount
+  )
+
+export interface RankRange {
+  best: number
+  worst: number
+}
+
+// A model can be outranked for sure only by models whose whole interval sits
+// above its own, and at worst by every model whose interval overlaps it
+export const getRankRanges = (
+  intervals: (EloConfidenceInterval | null)[]
+): (RankRange | null)[] =>
+  intervals.map((interval, index) => {
+    if (!interval) return null
+
+    let best = 1
+    let worst = 1
+    intervals.forEach((other, otherIndex) => {
+      if (!other || otherIndex === index) return
+      if (other.lower > interval.upper) best++
+      if (other.upper >= interval.lower) worst++
+    })
+
+    return { best, worst }
+  })
+
+export const formatRankRange = (range: RankRange | null) => {
+  if (!range) return 'N/A'
+  return range.best === range.worst
+    ? `${range.best}`
+    : `${range.best}–${range.worst}`
+}
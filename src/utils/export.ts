@@ -0,0 +1,127 @@
+export type ExportFormat = 'csv' | 'json'
+
+// Filters the exported data was produced under, recorded in the file name
+// and in the export itself so it can be traced back to the exact view it came
+// from
+export interface ExportMeta {
+  metricName: string
+  testSetName: string
+  tagName?: string | null
+  minVotes: number
+  asOf?: string | null
+  [key: string]: string | number | null | undefined
+}
+
+export interface ExportColumn<T> {
+  header: string
+  value: (row: T) => string | number | null | undefined
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+export const escapeCsvValue = (value: string | number | null | undefined) => {
+  if (value === null || value === undefined) return ''
+  const text =
+    typeof value === 'string' && FORMULA_PREFIX.test(value)
+      ? `'${value}`
+      : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const getMetaEntries = (meta: ExportMeta) =>
+  Object.entries({ ...meta, exportedAt: new Date().toISOString() }).filter(
+    ([, value]) => value !== null && value !== undefined && value !== ''
+  )
+
+// Plain CSV with a single header row, so any CSV reader can load it. The
+// filters lead each row as their own columns to keep the file self-describing
+export const toCsv = <T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  meta: ExportMeta
+) => {
+  const metaEntries = getMetaEntries(meta)
+  const metaValues = metaEntries.map(([, value]) => escapeCsvValue(value))
+  return [
+    [
+      ...metaEntries.map(([key]) => escapeCsvValue(key)),
+      ...columns.map((column) => escapeCsvValue(column.header)),
+    ].join(','),
+    ...rows.map((row) =>
+      [
+        ...metaValues,
+        ...columns.map((column) => escapeCsvValue(column.value(row))),
+      ].join(',')
+    ),
+  ].join('\n')
+}
+
+// The same columns as the CSV, with the filters alongside
+export const toJson = <T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  meta: ExportMeta
+) =>
+  JSON.stringify(
+    {
+      meta: Object.fromEntries(getMetaEntries(meta)),
+      rows: rows.map((row) =>
+        Object.fromEntries(
+          columns.map((column) => [column.header, column.value(row) ?? null])
+        )
+      ),
+    },
+    null,
+    2
+  )
+
+export const downloadFile = (
+  filename: string,
+  content: string,
+  mimeType: string
+) => {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+// Slug-safe file name built from the export's filters
+export const getExportFilename = (
+  base: string,
+  meta: ExportMeta,
+  format: ExportFormat
+) => {
+  const parts = [base, meta.metricName, meta.testSetName, meta.tagName]
+    .filter(Boolean)
+    .map((part) =>
+      String(part)
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '')
+    )
+  if (meta.minVotes > 1) parts.push(`min-votes-${meta.minVotes}`)
+  if (meta.asOf) parts.push(`as-of-${meta.asOf}`)
+  return `${parts.join('_')}.${format}`
+}
+
+export const exportRows = <T>(
+  base: string,
+  rows: T[],
+  columns: ExportColumn<T>[],
+  meta: ExportMeta,
+  format: ExportFormat
+) => {
+  const filename = getExportFilename(base, meta, format)
+  if (format === 'csv') {
+    downloadFile(filename, toCsv(rows, columns, meta), 'text/csv')
+  } else {
+    downloadFile(filename, toJson(rows, columns, meta), 'application/json')
+  }
+}
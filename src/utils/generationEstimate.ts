@@ -0,0 +1,171 @@
+import { EXPERIMENTAL_STATES } from '../types/common'
+import { Model, Provider } from '../types/models'
+import { Prompt } from '../types/prompts'
+import { Template } from '../types/templates'
+
+// Rough English-text ratio; good enough for an order-of-magnitude estimate
+const CHARS_PER_TOKEN = 4
+// Assumed response length when a provider's config doesn't say
+const DEFAULT_OUTPUT_TOKENS = 4000
+const TOKENS_PER_PRICE_UNIT = 1_000_000
+
+// Pricing read from a provider's config, in USD per million tokens:
+//   "pricing": { "inputPerMillion": 3, "outputPerMillion": 15,
+//                "estimatedOutputTokens": 6000 }
+interface ProviderPricing {
+  inputPerMillion: number
+  outputPerMillion: number
+  estimatedOutputTokens: number
+}
+
+export interface ModelEstimate {
+  model: Model
+  providerName: string | null
+  runs: number
+  inputTokens: number
+  outputTokens: number
+  // Null when the provider has no pricing configured
+  cost: number | null
+}
+
+export interface GenerationEstimate {
+  totalRuns: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  // Models whose cost isn't included in the total
+  unpricedModels: Model[]
+  models: ModelEstimate[]
+}
+
+export interface GenerationWarning {
+  kind: 'model' | 'prompt' | 'template'
+  name: string
+  reason: string
+}
+
+export const estimateTokens = (text: string | null | undefined) =>
+  Math.ceil((text?.length ?? 0) / CHARS_PER_TOKEN)
+
+// The provider runs go to: the default one, or the only one configured
+const getRunProvider = (model: Model): Provider | null =>
+  model.providers.find((provider) => provider.isDefault) ??
+  model.providers[0] ??
+  null
+
+const getProviderPricing = (
+  provider: Provider | null
+): ProviderPricing | null => {
+  const pricing = provider?.config?.pricing
+  if (
+    typeof pricing?.inputPerMillion !== 'number' ||
+    typeof pricing?.outputPerMillion !== 'number'
+  ) {
+    return null
+  }
+
+  return {
+    inputPerMillion: pricing.inputPerMillion,
+    outputPerMillion: pricing.outputPerMillion,
+    estimatedOutputTokens:
+      typeof pricing.estimatedOutputTokens === 'number'
+        ? pricing.estimatedOutputTokens
+        : DEFAULT_OUTPUT_TOKENS,
+  }
+}
+
+export const estimateGeneration = (
+  templates: Template[],
+  prompts: Prompt[],
+  models: Model[],
+  numSamples: number
+): GenerationEstimate => {
+  const runsPerModel = templates.length * prompts.length * numSamples
+
+  // Every template is paired with every prompt, so each contributes its tokens
+  // once per item on the other side
+  const templateTokens = templates.reduce(
+    (sum, template) => sum + estimateTokens(template.content),
+    0
+  )
+  const promptTokens = prompts.reduce(
+    (sum, prompt) => sum + estimateTokens(prompt.buildSpecification),
+    0
+  )
+  const inputTokensPerModel =
+    numSamples *
+    (templateTokens * prompts.length + promptTokens * templates.length)
+
+  const modelEstimates = models.map((model): ModelEstimate => {
+    const provider = getRunProvider(model)
+    const pricing = getProviderPricing(provider)
+    const outputTokens =
+      runsPerModel * (pricing?.estimatedOutputTokens ?? DEFAULT_OUTPUT_TOKENS)
+
+    return {
+      model,
+      providerName: provider?.name ?? null,
+      runs: runsPerModel,
+      inputTokens: inputTokensPerModel,
+      outputTokens,
+      cost: pricing
+        ? (inputTokensPerModel * pricing.inputPerMillion +
+            outputTokens * pricing.outputPerMillion) /
+          TOKENS_PER_PRICE_UNIT
+        : null,
+    }
+  })
+
+  return {
+    totalRuns: runsPerModel * models.length,
+    inputTokens: inputTokensPerModel * models.length,
+    outputTokens: modelEstimates.reduce((sum, m) => sum + m.outputTokens, 0),
+    cost: modelEstimates.reduce((sum, m) => sum + (m.cost ?? 0), 0),
+    unpricedModels: modelEstimates
+      .filter((m) => m.cost === null)
+      .map((m) => m.model),
+    models: modelEstimates,
+  }
+}
+
+const getItemWarning = (item: {
+  active: boolean
+  experimentalState: string
+}) => {
+  if (!item.active) return 'inactive'
+  if (item.experimentalState !== EXPERIMENTAL_STATES.RELEASED) {
+    return item.experimentalState.toLowerCase()
+  }
+  return null
+}
+
+// Selected items that probably shouldn't feed a released generation
+export const getGenerationWarnings = (
+  templates: Template[],
+  prompts: Prompt[],
+  models: Model[]
+): GenerationWarning[] => {
+  const warnings: GenerationWarning[] = []
+  const check = (
+    kind: GenerationWarning['kind'],
+    name: string,
+    item: { active: boolean; experimentalState: string }
+  ) => {
+    const reason = getItemWarning(item)
+    if (reason) warnings.push({ kind, name, reason })
+  }
+
+  models.forEach((model) => check('model', model.slug, model))
+  prompts.forEach((prompt) => check('prompt', prompt.name, prompt))
+  templates.forEach((template) => check('template', template.name, template))
+  return warnings
+}
+
+export const formatTokenCount = (tokens: number) => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`
+  return tokens.toString()
+}
+
+export const formatCost = (cost: number) =>
+  cost.toLocaleString(undefined, { style: 'currency', currency: 'USD' })
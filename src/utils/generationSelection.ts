@@ -0,0 +1,62 @@
+import { RunResponse } from '../types/generations'
+
+// The templates, prompts and models a generation crosses, plus how many
+// samples each combination gets
+export interface GenerationSelection {
+  templateIds: string[]
+  promptIds: string[]
+  modelIds: string[]
+  numSamples: number
+}
+
+const TEMPLATE_PARAM = 'template_id'
+const PROMPT_PARAM = 'prompt_id'
+const MODEL_PARAM = 'model_id'
+const NUM_SAMPLES_PARAM = 'num_samples'
+
+// Query form of a selection, used for saved presets and share links
+export const toSelectionParams = (selection: GenerationSelection) => {
+  const params = new URLSearchParams()
+  selection.templateIds.forEach((id) => params.append(TEMPLATE_PARAM, id))
+  selection.promptIds.forEach((id) => params.append(PROMPT_PARAM, id))
+  selection.modelIds.forEach((id) => params.append(MODEL_PARAM, id))
+  if (params.toString()) {
+    params.set(NUM_SAMPLES_PARAM, selection.numSamples.toString())
+  }
+  return params
+}
+
+export const parseSelectionParams = (
+  params: URLSearchParams
+): GenerationSelection | null => {
+  const selection = {
+    templateIds: params.getAll(TEMPLATE_PARAM),
+    promptIds: params.getAll(PROMPT_PARAM),
+    modelIds: params.getAll(MODEL_PARAM),
+    numSamples: Math.max(1, Number(params.get(NUM_SAMPLES_PARAM)) || 1),
+  }
+  const isEmpty =
+    selection.templateIds.length === 0 &&
+    selection.promptIds.length === 0 &&
+    selection.modelIds.length === 0
+  return isEmpty ? null : selection
+}
+
+// Rebuild the selection a generation was created with from its runs; every
+// sample of a combination is its own run
+export const getSelectionFromRuns = (
+  runs: RunResponse[]
+): GenerationSelection => {
+  const runsPerCombination = new Map<string, number>()
+  runs.forEach((run) => {
+    const key = `${run.template.id}:${run.prompt.id}:${run.model.id}`
+    runsPerCombination.set(key, (runsPerCombination.get(key) ?? 0) + 1)
+  })
+
+  return {
+    templateIds: Array.from(new Set(runs.map((run) => run.template.id))),
+    promptIds: Array.from(new Set(runs.map((run) => run.prompt.id))),
+    modelIds: Array.from(new Set(runs.map((run) => run.model.id))),
+    numSamples: Math.max(1, ...runsPerCombination.values()),
+  }
+}
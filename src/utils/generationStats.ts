@@ -0,0 +1,195 @@
+import { isRunStatusFinal } from '../api/runStatus'
+import { RunResponse } from '../types/generations'
+
+// Pipeline order of run stages
+export const STAGE_SORT_ORDER = [
+  'PROMPT_EXECUTION',
+  'RESPONSE_PARSING',
+  'CODE_VALIDATION',
+  'BUILDING',
+  'RENDERING_SAMPLE',
+  'EXPORTING_CONTENT',
+  'POST_PROCESSING',
+  'PREPARING_SAMPLE',
+]
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+// Beyond this span throughput is bucketed by day instead of by hour
+const HOURLY_BUCKET_LIMIT_MS = 2 * DAY_MS
+
+export type RunOutcome = 'COMPLETED' | 'FAILED' | 'IN_PROGRESS'
+
+export interface StageCount {
+  stage: string
+  completed: number
+  inProgress: number
+}
+
+export interface FailureBreakdownRow {
+  key: string
+  label: string
+  failed: number
+  total: number
+}
+
+export interface ThroughputPoint {
+  time: number
+  completed: number
+  failed: number
+}
+
+export interface HeatmapCell {
+  completed: number
+  failed: number
+  inProgress: number
+}
+
+export interface StatusHeatmap {
+  models: { id: string; label: string }[]
+  prompts: { id: string; label: string }[]
+  cells: Record<string, HeatmapCell>
+}
+
+export const getStageIndex = (stage: string | null | undefined) => {
+  if (!stage) return -1
+  return STAGE_SORT_ORDER.indexOf(stage)
+}
+
+export const getRunOutcome = (run: RunResponse): RunOutcome => {
+  if (run.status === 'COMPLETED') return 'COMPLETED'
+  if (isRunStatusFinal(run.status)) return 'FAILED'
+  return 'IN_PROGRESS'
+}
+
+export const getHeatmapKey = (modelId: string, promptId: string) =>
+  `${modelId}:${promptId}`
+
+// How many runs have made it through each stage, and how many are in it now
+export const getStageCounts = (runs: RunResponse[]): StageCount[] =>
+  STAGE_SORT_ORDER.map((stage, index) => ({
+    stage,
+    completed: runs.filter(
+      (run) =>
+        run.status === 'COMPLETED' ||
+        getStageIndex(run.latestCompletedStage) >= index
+    ).length,
+    inProgress: runs.filter(
+      (run) =>
+        getRunOutcome(run) === 'IN_PROGRESS' &&
+        run.earliestInProgressStage === stage
+    ).length,
+  }))
+
+// Failed and total runs grouped by model, template or prompt, worst first
+export const getFailureBreakdown = (
+  runs: RunResponse[],
+  groupBy: (run: RunResponse) => { key: string; label: string }
+): FailureBreakdownRow[] => {
+  const rows = new Map<string, FailureBreakdownRow>()
+  runs.forEach((run) => {
+    const { key, label } = groupBy(run)
+    const row = rows.get(key) ?? { key, label, failed: 0, total: 0 }
+    row.total++
+    if (getRunOutcome(run) === 'FAILED') row.failed++
+    rows.set(key, row)
+  })
+  return Array.from(rows.values())
+    .filter((row) => row.failed > 0)
+    .sort((a, b) => b.failed - a.failed || b.total - a.total)
+}
+
+// Finished runs per hour (or per day for long generations), using the time a
+// run was last modified as its finish time
+export const getThroughput = (runs: RunResponse[]): ThroughputPoint[] => {
+  // Runs without a parseable timestamp can't be placed in a bucket
+  const finished = runs
+    .filter((run) => getRunOutcome(run) !== 'IN_PROGRESS')
+    .map((run) => ({
+      run,
+      time: new Date(run.lastModified || run.created).getTime(),
+    }))
+    .filter(({ time }) => !Number.isNaN(time))
+  if (finished.length === 0) return []
+
+  const times = finished.map(({ time }) => time)
+  const start = Math.min(...times)
+  const end = Math.max(...times)
+  const bucketSize = end - start > HOURLY_BUCKET_LIMIT_MS ? DAY_MS : HOUR_MS
+  const firstBucket = Math.floor(start / bucketSize) * bucketSize
+
+  const points: ThroughputPoint[] = []
+  for (let time = firstBucket; time <= end; time += bucketSize) {
+    points.push({ time, completed: 0, failed: 0 })
+  }
+
+  finished.forEach(({ run, time }) => {
+    const point = points[Math.floor((time - firstBucket) / bucketSize)]
+    if (getRunOutcome(run) === 'COMPLETED') {
+      point.completed++
+    } else {
+      point.failed++
+    }
+  })
+
+  return points
+}
+
+// Estimated time left, from the average rate runs have finished so far
+export const getEstimatedCompletion = (
+  runs: RunResponse[],
+  now: number = Date.now()
+): { remaining: number; etaMs: number | null } => {
+  const remaining = runs.filter(
+    (run) => getRunOutcome(run) === 'IN_PROGRESS'
+  ).length
+  const finished = runs.length - remaining
+  if (remaining === 0 || finished === 0) return { remaining, etaMs: null }
+
+  const start = Math.min(...runs.map((run) => new Date(run.created).getTime()))
+  const elapsed = now - start
+  if (elapsed <= 0) return { remaining, etaMs: null }
+
+  return { remaining, etaMs: (remaining / finished) * elapsed }
+}
+
+export const getStatusHeatmap = (runs: RunResponse[]): StatusHeatmap => {
+  const models = new Map<string, string>()
+  const prompts = new Map<string, string>()
+  const cells: Record<string, HeatmapCell> = {}
+
+  runs.forEach((run) => {
+    models.set(run.model.id, run.model.slug)
+    prompts.set(run.prompt.id, run.prompt.name)
+
+    const key = getHeatmapKey(run.model.id, run.prompt.id)
+    const cell = cells[key] ?? { completed: 0, failed: 0, inProgress: 0 }
+    const outcome = getRunOutcome(run)
+    if (outcome === 'COMPLETED') cell.completed++
+    else if (outcome === 'FAILED') cell.failed++
+    else cell.inProgress++
+    cells[key] = cell
+  })
+
+  const toSortedList = (entries: Map<string, string>) =>
+    Array.from(entries, ([id, label]) => ({ id, label })).sort((a, b) =>
+      a.label.localeCompare(b.label)
+    )
+
+  return {
+    models: toSortedList(models),
+    prompts: toSortedList(prompts),
+    cells,
+  }
+}
+
+export const formatDuration = (ms: number) => {
+  const totalMinutes = Math.max(1, Math.round(ms / 60000))
+  const days = Math.floor(totalMinutes / (24 * 60))
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60)
+  const minutes = totalMinutes % 60
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m`
+}
@@ -0,0 +1,45 @@
+// Shared query parameter handling for the leaderboard pages. Filter and sort
+// state lives in the URL so a view can be linked to and restored with
+// back/forward navigation.
+
+export const DEFAULT_METRIC_NAME = 'UNQUALIFIED_BETTER'
+export const DEFAULT_TEST_SET_NAME = 'Authenticated Test Set'
+export const DEFAULT_MIN_VOTES = 1
+// Models fetched per leaderboard; rank ranges are computed among these, so
+// every page that shows one must use the same limit
+export const LEADERBOARD_LIMIT = 40
+
+export type SortDirection = 'asc' | 'desc'
+
+export const parseMinVotes = (value: string | null) => {
+  const parsed = value ? parseInt(value, 10) : NaN
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_MIN_VOTES
+}
+
+// Narrow a raw `sort` parameter to one of the fields a table supports
+export const parseSortField = <T extends string>(
+  value: string | null,
+  fields: readonly T[],
+  fallback: T
+): T => (fields.includes(value as T) ? (value as T) : fallback)
+
+export const parseSortDirection = (
+  value: string | null,
+  fallback: SortDirection
+): SortDirection => (value === 'asc' || value === 'desc' ? value : fallback)
+
+// Copy the current params with some keys set or, for empty values, removed
+export const withParams = (
+  searchParams: URLSearchParams,
+  updates: Record<string, string | number | null | undefined>
+) => {
+  const next = new URLSearchParams(searchParams)
+  Object.entries(updates).forEach(([key, value]) => {
+    if (value === null || value === undefined || value === '') {
+      next.delete(key)
+    } else {
+      next.set(key, String(value))
+    }
+  })
+  return next
+}
@@ -0,0 +1,621 @@
+import { useGLTF } from '@react-three/drei'
+import * as THREE from 'three'
+import { GLTF, GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader'
+
+// Cache maps for models to prevent duplicate loading - scoped by cache key
+export const modelLoadingCache = new Map<string, Map<string, Promise<GLTF>>>() // cacheKey -> modelPath -> Promise
+export const modelPathCache = new Map<string, Map<string, string>>() // cacheKey -> sampleId -> modelPath
+export const gltfCache = new Map<string, Map<string, GLTF>>() // cacheKey -> modelPath -> GLTF
+// Track URLs that have been requested to prevent duplicate fetches, scoped by cache key
+export const requestedUrls = new Map<string, Set<string>>() // cacheKey -> Set<url>
+
+// Cache for instanced meshes - aligns with backend's element_cache concept - scoped by cache key
+export const instanceCache = new Map<string, Map<string, THREE.Mesh>>() // cacheKey -> meshKey -> Mesh
+// Track mesh instance count for debugging
+export const instanceStats = {
+  totalMeshes: 0,
+  uniqueMeshes: 0,
+  instancedMeshes: 0,
+  originalTriangles: 0,
+  optimizedTriangles: 0,
+}
+
+// Helper to dispose of materials
+const disposeMaterial = (material: THREE.Material) => {
+  material.dispose()
+
+  // Check if material has these properties before trying to dispose
+  if ('map' in material && material.map instanceof THREE.Texture) {
+    material.map.dispose()
+  }
+  if ('normalMap' in material && material.normalMap instanceof THREE.Texture) {
+    material.normalMap.dispose()
+  }
+  if (
+    'specularMap' in material &&
+    material.specularMap instanceof THREE.Texture
+  ) {
+    material.specularMap.dispose()
+  }
+  if ('envMap' in material && material.envMap instanceof THREE.Texture) {
+    material.envMap.dispose()
+  }
+}
+
+// Helper to dispose of all objects
+const disposeObject = (obj: THREE.Object3D) => {
+  if (obj instanceof THREE.Mesh) {
+    if (obj.geometry) {
+      obj.geometry.dispose()
+    }
+
+    if (obj.material) {
+      if (Array.isArray(obj.material)) {
+        obj.material.forEach((material) => disposeMaterial(material))
+      } else {
+        disposeMaterial(obj.material)
+      }
+    }
+  }
+}
+
+// Generate a unique key for a mesh based on its geometry, materials, and UVs
+// This matches the backend's approach to determining element equivalence
+const generateMeshInstanceKey = (mesh: THREE.Mesh): string => {
+  if (!mesh.geometry) return 'no-geometry'
+
+  // Get hashable representation of the geometry
+  const position = mesh.geometry.getAttribute('position')
+  const normal = mesh.geometry.getAttribute('normal')
+  const uv = mesh.geometry.getAttribute('uv')
+  const index = mesh.geometry.index
+
+  // Create a key from geometry data
+  let geometryKey = ''
+
+  // Add position data
+  if (position) {
+    geometryKey += 'pos:' + Array.from(position.array).join(',')
+  }
+
+  // Add normal data
+  if (normal) {
+    geometryKey += '|nrm:' + Array.from(normal.array).join(',')
+  }
+
+  // Add UV data
+  if (uv) {
+    geometryKey += '|uv:' + Array.from(uv.array).join(',')
+  }
+
+  // Add index data
+  if (index) {
+    geometryKey += '|idx:' + Array.from(index.array).join(',')
+  }
+
+  // Add material data
+  let materialKey = ''
+  if (mesh.material) {
+    if (Array.isArray(mesh.material)) {
+      materialKey = mesh.material
+        .map((mat) => {
+          // Extract essential material properties
+          return `${mat.uuid}|${mat.type}|${(mat as THREE.MeshStandardMaterial).map?.uuid || 'no-map'}`
+        })
+        .join('|')
+    } else {
+      const mat = mesh.material as THREE.MeshStandardMaterial
+      materialKey = `${mat.uuid}|${mat.type}|${mat.map?.uuid || 'no-map'}`
+    }
+  }
+
+  // Combine all aspects to create a final key
+  const finalKey = `${geometryKey}|${materialKey}`
+  // Use hash function to create a more compact key
+  return String(hash(finalKey))
+}
+
+// Simple string hash function for creating shorter unique keys
+const hash = (str: string): number => {
+  let hash = 0
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i)
+    hash = (hash << 5) - hash + char
+    hash = hash & hash // Convert to 32bit integer
+  }
+  return hash
+}
+
+export const cleanupModel = (cacheKey: string, modelPath: string) => {
+  console.log('Cleaning up model:', modelPath, 'for cache key:', cacheKey)
+
+  // Get the cache key-specific cache
+  const keyGltfCache = gltfCache.get(cacheKey)
+  const gltf = keyGltfCache?.get(modelPath)
+
+  if (gltf) {
+    // Reset model position to avoid influencing next comparison
+    // This is important because Three.js scene objects persist between renders
+    gltf.scene.position.set(0, 0, 0)
+
+    // Traverse and dispose all objects
+    gltf.scene.traverse((obj) => {
+      // For meshes, we need to handle instanced meshes carefully
+      if (obj instanceof THREE.Mesh) {
+        const key = generateMeshInstanceKey(obj)
+        const keyInstanceCache = instanceCache.get(cacheKey)
+
+        // Only dispose the geometry if this is the primary instance
+        // (the one stored in our instance cache)
+        const cachedMesh = keyInstanceCache?.get(key)
+
+        if (cachedMesh === obj) {
+          // This is the primary instance - remove it from the cache
+          keyInstanceCache?.delete(key)
+        }
+
+        // Now dispose the object
+        disposeObject(obj)
+      } else {
+        // For non-mesh objects, just dispose normally
+        disposeObject(obj)
+      }
+    })
+
+    // Remove from our cache key-specific caches
+    const keyLoadingCache = modelLoadingCache.get(cacheKey)
+    if (keyLoadingCache) {
+      keyLoadingCache.delete(modelPath)
+    }
+
+    const keyPathCache = modelPathCache.get(cacheKey)
+    if (keyPathCache) {
+      // Remove all sample IDs that point to this model path
+      for (const [sampleId, path] of keyPathCache.entries()) {
+        if (path === modelPath) {
+          keyPathCache.delete(sampleId)
+        }
+      }
+    }
+
+    keyGltfCache?.delete(modelPath)
+
+    // Also remove from drei's cache to force a fresh load next time
+    useGLTF.clear(modelPath)
+
+    // Clear model metadata to ensure fresh centering calculation on next load
+    modelMetadataCache.delete(modelPath)
+  }
+}
+
+// Function to cleanup all resources for a specific cache key
+export const cleanupComparison = (cacheKey: string) => {
+  console.log('Cleaning up all resources for cache key:', cacheKey)
+
+  // Get all model paths for this cache key
+  const keyGltfCache = gltfCache.get(cacheKey)
+  if (keyGltfCache) {
+    // Clean up each model
+    for (const modelPath of keyGltfCache.keys()) {
+      cleanupModel(cacheKey, modelPath)
+
+      // IMPORTANT: For cached models, we need to ensure they're properly
+      // recentered next time they're used, so don't keep the metadata
+      // This prevents position issues when a model is reused across comparisons
+      modelMetadataCache.delete(modelPath)
+    }
+
+    // Clear this cache key's caches
+    gltfCache.delete(cacheKey)
+  }
+
+  // Clear other cache key-specific caches
+  modelLoadingCache.delete(cacheKey)
+  modelPathCache.delete(cacheKey)
+  instanceCache.delete(cacheKey)
+  requestedUrls.delete(cacheKey)
+}
+
+// Global store for model metadata
+export interface ModelMetadata {
+  boundingBox: THREE.Box3
+  boundingSphere: THREE.Sphere
+  center: THREE.Vector3 // Geometric center
+  centerOfMass: THREE.Vector3 // Weighted center
+  dimensions: THREE.Vector3
+  maxDimension: number
+}
+
+export const modelMetadataCache = new Map<string, ModelMetadata>()
+
+// Process a loaded GLTF model to implement advanced optimization
+export const processModelInstancing = (
+  cacheKey: string,
+  gltf: GLTF
+): THREE.Group => {
+  try {
+    console.log('Starting optimization process...')
+
+    // Reset stats for this model
+    instanceStats.totalMeshes = 0
+    instanceStats.uniqueMeshes = 0
+    instanceStats.instancedMeshes = 0
+    instanceStats.originalTriangles = 0
+    instanceStats.optimizedTriangles = 0
+
+    // Create result group for the optimized model
+    const resultGroup = new THREE.Group()
+    resultGroup.name = 'OptimizedModel'
+
+    // Initialize cache key-specific instance cache if needed
+    if (!instanceCache.has(cacheKey)) {
+      instanceCache.set(cacheKey, new Map<string, THREE.Mesh>())
+    }
+
+    // Group meshes by material for optimization
+    const materialGroups = new Map<
+      string,
+      {
+        material: THREE.Material
+        geometries: THREE.BufferGeometry[]
+        worldPositions: THREE.Matrix4[]
+      }
+    >()
+
+    // First pass: count meshes and collect by material
+    gltf.scene.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        instanceStats.totalMeshes++
+
+        // Count triangles in original model
+        let triangleCount = 0
+        if (object.geometry.index) {
+          triangleCount = object.geometry.index.count / 3
+        } else {
+          triangleCount = object.geometry.attributes.position.count / 3
+        }
+        instanceStats.originalTriangles += triangleCount
+
+        // Skip invisible meshes
+        if (!object.visible) return
+
+        // Get material
+        const material = object.material as THREE.Material
+        if (!material) return
+
+        // Create unique key for material
+        const key = material.uuid
+
+        // Create or get material group
+        if (!materialGroups.has(key)) {
+          materialGroups.set(key, {
+            material: material.clone(),
+            geometries: [],
+            worldPositions: [],
+          })
+        }
+
+        // Clone geometry
+        const clonedGeometry = object.geometry.clone()
+
+        // Compute world matrix
+        object.updateWorldMatrix(true, false)
+
+        // Store world matrix and geometry
+        materialGroups.get(key)!.worldPositions.push(object.matrixWorld.clone())
+        materialGroups.get(key)!.geometries.push(clonedGeometry)
+      }
+    })
+
+    // Process each material group to create merged meshes and instances
+    materialGroups.forEach((group) => {
+      if (group.geometries.length === 0) return
+
+      // For instancing detection, find unique geometries
+      const uniqueGeometries = new Map<
+        string,
+        {
+          geometry: THREE.BufferGeometry
+          count: number
+          matrices: THREE.Matrix4[]
+        }
+      >()
+
+      // Check for repeated geometries (potential instances)
+      for (let i = 0; i < group.geometries.length; i++) {
+        const geometry = group.geometries[i]
+        const vertexCount = geometry.attributes.position.count
+        const indexCount = geometry.index?.count || 0
+
+        // Create a hash for this geometry
+        const geometryKey = `vertices:${vertexCount}:indices:${indexCount}`
+
+        if (!uniqueGeometries.has(geometryKey)) {
+          uniqueGeometries.set(geometryKey, {
+            geometry,
+            count: 1,
+            matrices: [group.worldPositions[i]],
+          })
+        } else {
+          uniqueGeometries.get(geometryKey)!.count++
+          uniqueGeometries
+            .get(geometryKey)!
+            .matrices.push(group.worldPositions[i])
+        }
+      }
+
+      // Process each unique geometry
+      uniqueGeometries.forEach((uniqueGeom) => {
+        // If this geometry occurs multiple times, create an instanced mesh
+        if (uniqueGeom.count > 1) {
+          const instancedMesh = new THREE.InstancedMesh(
+            uniqueGeom.geometry,
+            group.material,
+            uniqueGeom.count
+          )
+
+          // Set matrix for each instance
+          uniqueGeom.matrices.forEach((matrix, index) => {
+            instancedMesh.setMatrixAt(index, matrix)
+          })
+
+          instancedMesh.instanceMatrix.needsUpdate = true
+          resultGroup.add(instancedMesh)
+          instanceStats.uniqueMeshes++
+          instanceStats.instancedMeshes += uniqueGeom.count - 1
+
+          // Count triangles (each instance reuses the same geometry)
+          const triangleCount = uniqueGeom.geometry.index
+            ? uniqueGeom.geometry.index.count / 3
+            : uniqueGeom.geometry.attributes.position.count / 3
+
+          instanceStats.optimizedTriangles += triangleCount
+        } else {
+          // For single occurrences, add as regular mesh
+          const mesh = new THREE.Mesh(uniqueGeom.geometry, group.material)
+          // Apply the world transform
+          mesh.applyMatrix4(uniqueGeom.matrices[0])
+          resultGroup.add(mesh)
+          instanceStats.uniqueMeshes++
+
+          // Count triangles
+          const triangleCount = uniqueGeom.geometry.index
+            ? uniqueGeom.geometry.index.count / 3
+            : uniqueGeom.geometry.attributes.position.count / 3
+
+          instanceStats.optimizedTriangles += triangleCount
+        }
+      })
+    })
+
+    // Log optimization statistics
+    console.log('Advanced model optimization for cache key', cacheKey, ':', {
+      originalMeshes: instanceStats.totalMeshes,
+      optimizedMeshes:
+        instanceStats.uniqueMeshes + instanceStats.instancedMeshes,
+      uniqueMeshes: instanceStats.uniqueMeshes,
+      instancedMeshes: instanceStats.instancedMeshes,
+      originalTriangles: instanceStats.originalTriangles,
+      optimizedTriangles: instanceStats.optimizedTriangles,
+      meshReduction: Math.round(
+        ((instanceStats.totalMeshes -
+          (instanceStats.uniqueMeshes + instanceStats.instancedMeshes)) /
+          instanceStats.totalMeshes) *
+          100
+      ),
+    })
+
+    // Return the optimized model group
+    return resultGroup
+  } catch (err) {
+    console.error('Error in advanced model optimization:', err)
+
+    // Initialize cache key-specific instance cache if needed
+    if (!instanceCache.has(cacheKey)) {
+      instanceCache.set(cacheKey, new Map<string, THREE.Mesh>())
+    }
+    const keyInstanceCache = instanceCache.get(cacheKey)!
+
+    // Fall back to basic instancing if advanced optimization fails
+    // Reset stats
+    instanceStats.totalMeshes = 0
+    instanceStats.uniqueMeshes = 0
+    instanceStats.instancedMeshes = 0
+
+    // Gather all meshes from the scene
+    const meshes: THREE.Mesh[] = []
+    gltf.scene.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        meshes.push(object)
+        instanceStats.totalMeshes++
+      }
+    })
+
+    // First pass - gather all unique meshes and cache them
+    meshes.forEach((mesh) => {
+      // Generate a unique key for this mesh
+      const key = generateMeshInstanceKey(mesh)
+
+      // If we haven't seen this mesh before with this cache key, add it to our instance cache
+      if (!keyInstanceCache.has(key)) {
+        keyInstanceCache.set(key, mesh)
+        instanceStats.uniqueMeshes++
+      }
+    })
+
+    // Second pass - replace duplicate meshes with instances of cached ones
+    meshes.forEach((mesh) => {
+      // Skip if this mesh is already in our cache (i.e., it's a primary instance)
+      const key = generateMeshInstanceKey(mesh)
+      const cachedMesh = keyInstanceCache.get(key)
+
+      if (cachedMesh && mesh !== cachedMesh) {
+        // This is a duplicate mesh - replace its geometry with the cached one
+        const oldGeometry = mesh.geometry
+
+        // Share geometry with the cached instance
+        mesh.geometry = cachedMesh.geometry
+
+        // Dispose of the old geometry to free memory
+        if (oldGeometry) {
+          oldGeometry.dispose()
+        }
+
+        // Count this as an instanced mesh
+        instanceStats.instancedMeshes++
+      }
+    })
+
+    // Log fallback statistics
+    console.log('Fallback instancing for cache key', cacheKey, ':', {
+      totalMeshes: instanceStats.totalMeshes,
+      uniqueMeshes: instanceStats.uniqueMeshes,
+      instancedMeshes: instanceStats.instancedMeshes,
+      savingsPercent:
+        instanceStats.instancedMeshes > 0
+          ? Math.round(
+              (instanceStats.instancedMeshes / instanceStats.totalMeshes) * 100
+            )
+          : 0,
+    })
+
+    // Return original scene as fallback
+    return gltf.scene
+  }
+}
+
+// Create a singleton loader instance with caching enabled
+const loader = new GLTFLoader()
+loader.setCrossOrigin('use-credentials') // Enable CORS with credentials
+
+export const preloadModel = async (
+  cacheKey: string,
+  modelPath: string,
+  enableInstancing = true
+): Promise<void> => {
+  console.log('Preloading model:', modelPath, 'for cache key:', cacheKey)
+
+  // Initialize cache key-specific caches if they don't exist
+  if (!gltfCache.has(cacheKey)) {
+    gltfCache.set(cacheKey, new Map<string, GLTF>())
+  }
+  if (!modelLoadingCache.has(cacheKey)) {
+    modelLoadingCache.set(cacheKey, new Map<string, Promise<GLTF>>())
+  }
+  if (!requestedUrls.has(cacheKey)) {
+    requestedUrls.set(cacheKey, new Set<string>())
+  }
+
+  const keyGltfCache = gltfCache.get(cacheKey)!
+  const keyLoadingCache = modelLoadingCache.get(cacheKey)!
+  const keyRequestedUrls = requestedUrls.get(cacheKey)!
+
+  // If already loaded in gltfCache for this cache key, don't reload
+  if (keyGltfCache.has(modelPath)) {
+    console.log(
+      'Model already in cache:',
+      modelPath,
+      'for cache key:',
+      cacheKey
+    )
+    return Promise.resolve()
+  }
+
+  // If currently loading for this cache key, wait for that promise
+  if (keyLoadingCache.has(modelPath)) {
+    console.log(
+      'Model currently loading:',
+      modelPath,
+      'for cache key:',
+      cacheKey
+    )
+    return keyLoadingCache.get(modelPath)!.then(() => {})
+  }
+
+  // Check if we've already requested this URL for this cache key to prevent blob duplicates
+  if (keyRequestedUrls.has(modelPath)) {
+    console.log(
+      'URL already requested for this cache key, using cached results:',
+      modelPath
+    )
+    return Promise.resolve()
+  }
+
+  // Mark this URL as requested for this cache key
+  keyRequestedUrls.add(modelPath)
+
+  console.log(
+    'Starting new load for model:',
+    modelPath,
+    'for cache key:',
+    cacheKey
+  )
+  const loadPromise = new Promise<GLTF>((resolve, reject) => {
+    // Use browser cache for textures and resources
+    // Meshopt decoder is not enabled by default, so no need to disable it
+
+    loader.load(
+      modelPath,
+      (gltf) => {
+        console.log(
+          'Model loaded successfully:',
+          modelPath,
+          'for cache key:',
+          cacheKey
+        )
+
+        // Apply instancing optimization if enabled
+        if (enableInstancing) {
+          processModelInstancing(cacheKey, gltf)
+        }
+
+        // Store the loaded model in our cache key-specific cache
+        keyGltfCache.set(modelPath, gltf)
+        resolve(gltf)
+      },
+      (progress) => {
+        if (progress.lengthComputable) {
+          const percentComplete = Math.round(
+            (progress.loaded / progress.total) * 100
+          )
+          console.log(
+            `Loading progress: ${percentComplete}%`,
+            modelPath,
+            'for cache key:',
+            cacheKey
+          )
+        }
+      },
+      (error) => {
+        console.error(
+          'Error loading model:',
+          modelPath,
+          'for cache key:',
+          cacheKey,
+          error
+        )
+        // Remove from the requested URLs so it can be tried again
+        keyRequestedUrls.delete(modelPath)
+        reject(error)
+      }
+    )
+  }) as Promise<GLTF>
+
+  keyLoadingCache.set(modelPath, loadPromise)
+
+  try {
+    await loadPromise
+    console.log('Preload complete:', modelPath, 'for cache key:', cacheKey)
+    return Promise.resolve()
+  } catch (error) {
+    console.error(
+      'Preload failed:',
+      modelPath,
+      'for cache key:',
+      cacheKey,
+      error
+    )
+    keyLoadingCache.delete(modelPath)
+    throw error
+  }
+}
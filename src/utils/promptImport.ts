@@ -0,0 +1,248 @@
+import { BUILD_SIZE_OPTIONS } from '../types/prompts'
+import { escapeCsvValue } from './export'
+
+export interface PromptImportRow {
+  // Line in the source file, for the error report
+  line: number
+  name: string
+  buildSpecification: string
+  tags: string[]
+  buildSize: string | null
+  errors: string[]
+}
+
+export interface PromptImportResult {
+  rows: PromptImportRow[]
+  // Set when the file couldn't be read at all
+  error: string | null
+}
+
+// Accepted spellings of each column, compared lower-cased with separators
+// stripped
+const COLUMN_ALIASES: Record<string, string> = {
+  name: 'name',
+  buildspecification: 'buildSpecification',
+  specification: 'buildSpecification',
+  tags: 'tags',
+  buildsize: 'buildSize',
+  size: 'buildSize',
+}
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]/g, '')
+
+// Tags can be a list (JSONL) or a `;` or `,` separated string
+const parseTags = (value: unknown): string[] => {
+  const tags = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === 'string'
+      ? value.split(/[;,]/)
+      : []
+  return Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean)))
+}
+
+// Either a size's label ("Medium") or its value ("a 20x20x20 bounding box")
+const parseBuildSize = (value: unknown) => {
+  const text = typeof value === 'string' ? value.trim() : ''
+  if (!text) return { buildSize: null, error: null }
+
+  const option = BUILD_SIZE_OPTIONS.find(
+    (opt) =>
+      opt.label.toLowerCase() === text.toLowerCase() ||
+      opt.value.toLowerCase() === text.toLowerCase()
+  )
+  return option
+    ? { buildSize: option.value, error: null }
+    : { buildSize: null, error: `Unknown build size "${text}"` }
+}
+
+const toRow = (line: number, record: Record<string, unknown>) => {
+  const fields: Record<string, unknown> = {}
+  Object.entries(record).forEach(([key, value]) => {
+    const field = COLUMN_ALIASES[normalizeKey(key)]
+    if (field) fields[field] = value
+  })
+
+  const { buildSize, error } = parseBuildSize(fields.buildSize)
+  const row: PromptImportRow = {
+    line,
+    name: typeof fields.name === 'string' ? fields.name.trim() : '',
+    buildSpecification:
+      typeof fields.buildSpecification === 'string'
+        ? fields.buildSpecification.trim()
+        : '',
+    tags: parseTags(fields.tags),
+    buildSize,
+    errors: error ? [error] : [],
+  }
+  // The size is stored as a tag too, as CreatePrompt does
+  if (buildSize && !row.tags.includes(buildSize)) row.tags.push(buildSize)
+  return row
+}
+
+// RFC 4180 style: quoted fields may hold commas, quotes ("") and newlines.
+// Returns each record with the line it started on.
+const parseCsvRecords = (text: string) => {
+  const records: { line: number; fields: string[] }[] = []
+  let fields: string[] = []
+  let field = ''
+  let inQuotes = false
+  let line = 1
+  let recordLine = 1
+
+  const endRecord = () => {
+    fields.push(field)
+    if (fields.some((value) => value.trim() !== '')) {
+      records.push({ line: recordLine, fields })
+    }
+    fields = []
+    field = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRecord()
+      line++
+      recordLine = line
+    } else {
+      field += char
+    }
+  }
+  if (field || fields.length > 0) endRecord()
+
+  return records
+}
+
+const parseCsv = (text: string): PromptImportResult => {
+  // `#` lines above the header are comments; below it they're prompt names
+  const allRecords = parseCsvRecords(text)
+  const headerIndex = allRecords.findIndex(
+    (record) => !record.fields[0]?.startsWith('#')
+  )
+  const records = headerIndex === -1 ? [] : allRecords.slice(headerIndex)
+  if (records.length === 0) return { rows: [], error: 'The file is empty' }
+
+  const [header, ...body] = records
+  const headers = header.fields.map((value) => value.trim())
+  const mapped = headers.map((value) => COLUMN_ALIASES[normalizeKey(value)])
+  if (!mapped.includes('name') || !mapped.includes('buildSpecification')) {
+    return {
+      rows: [],
+      error:
+        'The header row needs at least name and buildSpecification columns',
+    }
+  }
+
+  return {
+    rows: body.map((record) =>
+      toRow(
+        record.line,
+        Object.fromEntries(
+          headers.map((key, index) => [key, record.fields[index] ?? ''])
+        )
+      )
+    ),
+    error: null,
+  }
+}
+
+const parseJsonl = (text: string): PromptImportResult => {
+  const rows: PromptImportRow[] = []
+
+  text.split(/\r?\n/).forEach((content, index) => {
+    if (!content.trim()) return
+    try {
+      const record = JSON.parse(content)
+      if (!record || typeof record !== 'object' || Array.isArray(record)) {
+        throw new Error('not an object')
+      }
+      rows.push(toRow(index + 1, record))
+    } catch {
+      rows.push({
+        line: index + 1,
+        name: '',
+        buildSpecification: '',
+        tags: [],
+        buildSize: null,
+        errors: ['Not a valid JSON object'],
+      })
+    }
+  })
+
+  return { rows, error: rows.length === 0 ? 'The file is empty' : null }
+}
+
+// Picks the format from the file extension, falling back to the content
+export const parsePromptImport = (
+  text: string,
+  fileName: string
+): PromptImportResult => {
+  // Excel prefixes UTF-8 files with a byte order mark
+  text = text.replace(/^\uFEFF/, '')
+  const isJsonl =
+    /\.jsonl?$/i.test(fileName) ||
+    (!/\.csv$/i.test(fileName) && text.trimStart().startsWith('{'))
+  return isJsonl ? parseJsonl(text) : parseCsv(text)
+}
+
+// Adds row-level errors for anything that would fail or duplicate on import
+export const validatePromptImport = (
+  rows: PromptImportRow[],
+  existingNames: Set<string>
+): PromptImportRow[] => {
+  const seenNames = new Map<string, number>()
+  const seenSpecs = new Map<string, number>()
+
+  return rows.map((row) => {
+    const errors = [...row.errors]
+    const nameKey = row.name.toLowerCase()
+    const specKey = row.buildSpecification.toLowerCase()
+
+    if (!row.name) errors.push('Name is empty')
+    if (!row.buildSpecification) errors.push('Build specification is empty')
+
+    if (row.name && existingNames.has(nameKey)) {
+      errors.push('A prompt with this name already exists')
+    } else if (row.name && seenNames.has(nameKey)) {
+      errors.push(`Duplicate of the name on line ${seenNames.get(nameKey)}`)
+    }
+    if (row.buildSpecification && seenSpecs.has(specKey)) {
+      errors.push(
+        `Duplicate of the build specification on line ${seenSpecs.get(specKey)}`
+      )
+    }
+
+    if (row.name && !seenNames.has(nameKey)) seenNames.set(nameKey, row.line)
+    if (row.buildSpecification && !seenSpecs.has(specKey)) {
+      seenSpecs.set(specKey, row.line)
+    }
+    return { ...row, errors }
+  })
+}
+
+// CSV of every row that didn't make it in, and why
+export const toImportErrorReport = (
+  failures: { line: number; name: string; error: string }[]
+) =>
+  [
+    'line,name,error',
+    ...failures.map((failure) =>
+      [failure.line, failure.name, failure.error].map(escapeCsvValue).join(',')
+    ),
+  ].join('\n')
@@ -0,0 +1,62 @@
+import { Prompt } from '../types/prompts'
+import { DiffLine, diffLines } from './diff'
+
+export interface PromptLineageNode {
+  prompt: Prompt
+  // 0 for the original prompt, 1 for its clones, and so on
+  depth: number
+}
+
+export interface PromptChanges {
+  specification: DiffLine[]
+  addedTags: string[]
+  removedTags: string[]
+  buildSize: { from: string | null; to: string | null } | null
+}
+
+const byCreated = (a: Prompt, b: Prompt) =>
+  new Date(a.created).getTime() - new Date(b.created).getTime()
+
+// Lay a clone tree out depth first, oldest clones first, so each prompt sits
+// directly under the one it was cloned from
+export const flattenLineage = (prompts: Prompt[]): PromptLineageNode[] => {
+  const ids = new Set(prompts.map((prompt) => prompt.id))
+  const children = new Map<string, Prompt[]>()
+  const roots: Prompt[] = []
+
+  prompts.forEach((prompt) => {
+    // A parent outside the list (e.g. deleted) makes this a root
+    if (prompt.parentId && ids.has(prompt.parentId)) {
+      children.set(prompt.parentId, [
+        ...(children.get(prompt.parentId) ?? []),
+        prompt,
+      ])
+    } else {
+      roots.push(prompt)
+    }
+  })
+
+  const nodes: PromptLineageNode[] = []
+  const visit = (prompt: Prompt, depth: number) => {
+    nodes.push({ prompt, depth })
+    const clones = [...(children.get(prompt.id) ?? [])].sort(byCreated)
+    clones.forEach((child) => visit(child, depth + 1))
+  }
+  roots.sort(byCreated).forEach((root) => visit(root, 0))
+
+  return nodes
+}
+
+export const comparePrompts = (from: Prompt, to: Prompt): PromptChanges => {
+  const fromTags = new Set(from.tags.map((tag) => tag.name))
+  const toTags = new Set(to.tags.map((tag) => tag.name))
+  const fromSize = from.buildSize ?? null
+  const toSize = to.buildSize ?? null
+
+  return {
+    specification: diffLines(from.buildSpecification, to.buildSpecification),
+    addedTags: Array.from(toTags).filter((name) => !fromTags.has(name)),
+    removedTags: Array.from(fromTags).filter((name) => !toTags.has(name)),
+    buildSize: fromSize === toSize ? null : { from: fromSize, to: toSize },
+  }
+}
@@ -0,0 +1,17 @@
+import { Template } from '../types/templates'
+
+type EditableTemplate = Pick<Template, 'frozen' | 'usage' | 'version'>
+
+// Why a template can't be edited, or null when it can. Saves only leave
+// existing runs alone when the API keeps versions; without them an in-use
+// template would be patched in place.
+export const getTemplateEditBlocker = (template: EditableTemplate) => {
+  if (template.frozen) return 'This template is frozen and cannot be edited.'
+  if (template.version === undefined && template.usage > 0) {
+    return 'This template cannot be edited because it is currently in use.'
+  }
+  return null
+}
+
+export const canEditTemplate = (template: EditableTemplate) =>
+  getTemplateEditBlocker(template) === null
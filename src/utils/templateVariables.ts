@@ -0,0 +1,104 @@
+import { Prompt } from '../types/prompts'
+
+// Placeholders are Jinja expressions, e.g. {{ build_specification }}; filters
+// after the name ({{ build_size | upper }}) are allowed but not applied here
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)[^}]*\}\}/g
+
+export interface TemplateVariable {
+  name: string
+  description: string
+  // A template without it can't produce a usable prompt
+  required: boolean
+  getValue: (prompt: Prompt) => string | null
+}
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  {
+    name: 'build_specification',
+    description: "The prompt's build specification",
+    required: true,
+    getValue: (prompt) => prompt.buildSpecification,
+  },
+  {
+    name: 'build_size',
+    description: "The prompt's build size, e.g. a 20x20x20 bounding box",
+    required: false,
+    getValue: (prompt) => prompt.buildSize ?? null,
+  },
+]
+
+export interface TemplatePlaceholder {
+  name: string
+  expression: string
+  index: number
+}
+
+export interface TemplateVariableIssues {
+  // Used in the template but not something runs fill in
+  unknown: string[]
+  // Required but never used
+  missing: string[]
+}
+
+export const parseTemplateVariables = (
+  content: string
+): TemplatePlaceholder[] =>
+  Array.from(content.matchAll(VARIABLE_PATTERN), (match) => ({
+    name: match[1],
+    expression: match[0],
+    index: match.index ?? 0,
+  }))
+
+const getKnownVariable = (name: string) =>
+  TEMPLATE_VARIABLES.find((variable) => variable.name === name)
+
+export const validateTemplateVariables = (
+  content: string
+): TemplateVariableIssues => {
+  const used = new Set(
+    parseTemplateVariables(content).map((placeholder) => placeholder.name)
+  )
+
+  return {
+    unknown: Array.from(used).filter((name) => !getKnownVariable(name)),
+    missing: TEMPLATE_VARIABLES.filter(
+      (variable) => variable.required && !used.has(variable.name)
+    ).map((variable) => variable.name),
+  }
+}
+
+export interface RenderedSegment {
+  text: string
+  // Set on text that came from a placeholder
+  variable?: string
+  // The placeholder had no value, so its expression is kept as-is
+  unresolved?: boolean
+}
+
+// Fill a template in with a prompt's values, split into segments so the
+// preview can show where each value landed
+export const renderTemplate = (
+  content: string,
+  prompt: Prompt
+): RenderedSegment[] => {
+  const segments: RenderedSegment[] = []
+  let cursor = 0
+
+  parseTemplateVariables(content).forEach(({ name, expression, index }) => {
+    if (index > cursor) {
+      segments.push({ text: content.slice(cursor, index) })
+    }
+    const value = getKnownVariable(name)?.getValue(prompt) ?? null
+    segments.push(
+      value === null
+        ? { text: expression, variable: name, unresolved: true }
+        : { text: value, variable: name }
+    )
+    cursor = index + expression.length
+  })
+
+  if (cursor < content.length) {
+    segments.push({ text: content.slice(cursor) })
+  }
+  return segments
+}